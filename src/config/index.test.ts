@@ -5,24 +5,116 @@ describe('Config', () => {
     expect(config).toHaveProperty('server');
     expect(config.server).toHaveProperty('port');
     expect(config.server).toHaveProperty('nodeEnv');
+    expect(typeof config.server.host).toBe('string');
+    expect(typeof config.server.tls.certFile).toBe('string');
+    expect(typeof config.server.tls.keyFile).toBe('string');
+    expect(typeof config.server.tls.caFile).toBe('string');
+    expect(['optional', 'required']).toContain(config.server.tls.clientCert);
+  });
+
+  test('should take the first argument as the connection string, scheme or not', async () => {
+    const argv = process.argv;
+    process.argv = ['node', 'falkordb-mcp', 'myhost:6380', '--log-level', 'debug'];
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const { config: fresh } = await import('../config');
+        expect(fresh.falkorDB.url).toBe('myhost:6380');
+      });
+    } finally {
+      process.argv = argv;
+    }
+  });
+
+  test('should not take the value of an option as the connection string', async () => {
+    const argv = process.argv;
+    const url = process.env.FALKORDB_URL;
+    process.argv = ['node', 'falkordb-mcp', '--log-level', 'debug'];
+    process.env.FALKORDB_URL = 'falkordb://from-env:6379';
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const { config: fresh } = await import('../config');
+        expect(fresh.falkorDB.url).toBe('falkordb://from-env:6379');
+      });
+    } finally {
+      process.argv = argv;
+      if (url === undefined) {
+        delete process.env.FALKORDB_URL;
+      } else {
+        process.env.FALKORDB_URL = url;
+      }
+    }
   });
 
   test('should have FalkorDB configuration', () => {
     expect(config).toHaveProperty('falkorDB');
     expect(config.falkorDB).toHaveProperty('host');
+    expect(typeof config.falkorDB.url).toBe('string');
+    expect(Array.isArray(config.falkorDB.connections)).toBe(true);
+    expect(Array.isArray(config.falkorDB.replicas)).toBe(true);
+    expect(['primary', 'fail']).toContain(config.falkorDB.replicaFallback);
     expect(config.falkorDB).toHaveProperty('port');
     expect(config.falkorDB).toHaveProperty('username');
     expect(config.falkorDB).toHaveProperty('password');
+    expect(typeof config.falkorDB.mode).toBe('string');
+    expect(Array.isArray(config.falkorDB.sentinels)).toBe(true);
+    expect(typeof config.falkorDB.sentinelMaster).toBe('string');
+    expect(typeof config.falkorDB.sentinelPassword).toBe('string');
+    expect(Array.isArray(config.falkorDB.clusterNodes)).toBe(true);
     expect(config.falkorDB).toHaveProperty('defaultReadOnly');
     expect(typeof config.falkorDB.defaultReadOnly).toBe('boolean');
     expect(config.falkorDB).toHaveProperty('strictReadOnly');
     expect(typeof config.falkorDB.strictReadOnly).toBe('boolean');
+    expect(config.falkorDB).toHaveProperty('queryTimeout');
+    expect(typeof config.falkorDB.queryTimeout).toBe('number');
+    expect(Array.isArray(config.falkorDB.graphDenylist)).toBe(true);
+    expect(typeof config.falkorDB.graphPrefix).toBe('string');
+    expect(typeof config.falkorDB.maxConcurrentQueries).toBe('number');
+    expect(typeof config.falkorDB.healthCheckInterval).toBe('number');
+    expect(typeof config.falkorDB.pingTimeout).toBe('number');
+    expect(typeof config.falkorDB.stallTimeout).toBe('number');
+    expect(['queue', 'fail']).toContain(config.falkorDB.reconnectBehavior);
+    expect(typeof config.falkorDB.reconnectQueueTimeout).toBe('number');
+    expect(typeof config.falkorDB.tls.enabled).toBe('boolean');
+    expect(typeof config.falkorDB.tls.caFile).toBe('string');
+    expect(typeof config.falkorDB.tls.servername).toBe('string');
+    expect(typeof config.falkorDB.tls.rejectUnauthorized).toBe('boolean');
   });
 
   test('should have MCP configuration', () => {
     expect(config).toHaveProperty('mcp');
     expect(config.mcp).toHaveProperty('transport');
     expect(config.mcp).toHaveProperty('apiKey');
+    expect(Array.isArray(config.mcp.apiKeys)).toBe(true);
+    expect(typeof config.mcp.apiKeysFile).toBe('string');
+    expect(Array.isArray(config.mcp.clientCertRoles)).toBe(true);
     expect(['stdio', 'http']).toContain(config.mcp.transport);
+    expect(typeof config.mcp.maxResultRows).toBe('number');
+    expect(typeof config.mcp.maxResultBytes).toBe('number');
+    expect(typeof config.mcp.cursorTtl).toBe('number');
+    expect(typeof config.mcp.maxCursorsPerSession).toBe('number');
+    expect(typeof config.mcp.maxCursorRows).toBe('number');
+    expect(typeof config.mcp.maxCursorBytes).toBe('number');
+    expect(typeof config.mcp.cursorSweepInterval).toBe('number');
+    expect(['json', 'compact', 'markdown', 'csv']).toContain(config.mcp.resultFormat);
+    expect(typeof config.mcp.sessions.idleTtl).toBe('number');
+    expect(typeof config.mcp.sessions.maxSessions).toBe('number');
+    expect(typeof config.mcp.sessions.sweepInterval).toBe('number');
+    expect(typeof config.mcp.rateLimits.session.perMinute).toBe('number');
+    expect(typeof config.mcp.rateLimits.principal.burst).toBe('number');
+    expect(typeof config.mcp.audit.file).toBe('string');
+    expect(typeof config.mcp.audit.maxSize).toBe('number');
+    expect(typeof config.mcp.audit.maxFiles).toBe('number');
+    expect(Array.isArray(config.mcp.audit.redactParams)).toBe(true);
+    expect(typeof config.mcp.httpPath).toBe('string');
+    expect(typeof config.mcp.maxBodySize).toBe('number');
+    expect(Array.isArray(config.mcp.allowedOrigins)).toBe(true);
+    expect(typeof config.mcp.opsToken).toBe('string');
+    expect(['api-key', 'jwt']).toContain(config.mcp.authMode);
+    expect(typeof config.mcp.jwt.clockTolerance).toBe('number');
+    expect(typeof config.mcp.jwt.graphsClaim).toBe('string');
+    expect(Array.isArray(config.mcp.authorizationServers)).toBe(true);
+    for (const kind of ['tools', 'resources', 'prompts'] as const) {
+      expect(Array.isArray(config.mcp.surface[kind].disabled)).toBe(true);
+    }
   });
 });
\ No newline at end of file
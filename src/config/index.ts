@@ -1,25 +1,197 @@
 import dotenv from 'dotenv';
+import { RESULT_FORMATS, ResultFormat } from '../utils/result-formatter.js';
 
 // Load environment variables from .env file
 dotenv.config({
   quiet: true,
 });
 
+/**
+ * Parse a comma-separated list of names; undefined when the variable is unset or blank
+ */
+function parseNameList(value?: string): string[] | undefined {
+  const names = (value ?? '').split(',').map(name => name.trim()).filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * The FalkorDB connection string: the first command-line argument unless it is an option, such as
+ * falkordb://host:6379 or host:6379, else FALKORDB_URL. Later arguments are never taken, so the value of an
+ * option (--log-level debug) can't be mistaken for it. The argument is taken as-is, so a malformed one fails
+ * at startup instead of being ignored
+ */
+function falkorDBUrl(): string {
+  const [argument] = process.argv.slice(2);
+  return (argument && !argument.startsWith('-') ? argument : '') || process.env.FALKORDB_URL || '';
+}
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || process.env.MCP_PORT || '3000'),
     nodeEnv: process.env.NODE_ENV || 'development',
+    // Address the HTTP transport binds to; unset listens on all interfaces
+    host: process.env.MCP_HOST || '',
+    // HTTPS for the HTTP transport: enabled when both the certificate and key files are set.
+    // caFile verifies client certificates (mTLS); clientCert 'required' refuses connections without one
+    tls: {
+      certFile: process.env.MCP_TLS_CERT_FILE || '',
+      keyFile: process.env.MCP_TLS_KEY_FILE || '',
+      caFile: process.env.MCP_TLS_CA_FILE || '',
+      clientCert: (process.env.MCP_TLS_CLIENT_CERT === 'required' ? 'required' : 'optional') as 'optional' | 'required',
+    },
   },
   falkorDB: {
+    // Connection string; when set, its host, port and any credentials or options take precedence over the fields below
+    url: falkorDBUrl(),
+    // Additional named connections as comma-separated name=connection-string pairs, selectable per tool call
+    connections: parseNameList(process.env.FALKORDB_CONNECTIONS) ?? [],
+    // Replicas of the default connection as comma-separated connection strings; read-only queries are spread across them
+    replicas: parseNameList(process.env.FALKORDB_REPLICAS) ?? [],
+    // Reads when no replica is available: 'primary' falls back to the primary, 'fail' rejects them
+    replicaFallback: (process.env.FALKORDB_REPLICA_FALLBACK === 'fail' ? 'fail' : 'primary') as 'primary' | 'fail',
     host: process.env.FALKORDB_HOST || 'localhost',
     port: parseInt(process.env.FALKORDB_PORT || '6379'),
     username: process.env.FALKORDB_USERNAME || '',
     password: process.env.FALKORDB_PASSWORD || '',
+    // Deployment: 'standalone' (FALKORDB_HOST), 'sentinel' (the master FALKORDB_SENTINELS name) or 'cluster'.
+    // A connection string's +sentinel or +cluster scheme takes precedence
+    mode: process.env.FALKORDB_MODE || 'standalone',
+    // Sentinel mode: sentinel addresses as comma-separated host[:port] (default port 26379), and the master's name
+    sentinels: parseNameList(process.env.FALKORDB_SENTINELS) ?? [],
+    sentinelMaster: process.env.FALKORDB_SENTINEL_MASTER || '',
+    // Credentials of the sentinels themselves, when they require authentication
+    sentinelUsername: process.env.FALKORDB_SENTINEL_USERNAME || '',
+    sentinelPassword: process.env.FALKORDB_SENTINEL_PASSWORD || '',
+    // Cluster mode: seed nodes as comma-separated host[:port]; FALKORDB_HOST and FALKORDB_PORT when unset
+    clusterNodes: parseNameList(process.env.FALKORDB_CLUSTER_NODES) ?? [],
     defaultReadOnly: process.env.FALKORDB_DEFAULT_READONLY === 'true',
     strictReadOnly: process.env.FALKORDB_STRICT_READONLY === 'true',
+    // Default query timeout in milliseconds; 0 disables it
+    queryTimeout: parseInt(process.env.FALKORDB_QUERY_TIMEOUT || '0'),
+    // Graph access rules: names or glob patterns (* and ?) matched against the graph names callers see.
+    // An unset allowlist allows every graph; the denylist always wins
+    graphAllowlist: parseNameList(process.env.FALKORDB_GRAPH_ALLOWLIST),
+    graphDenylist: parseNameList(process.env.FALKORDB_GRAPH_DENYLIST) ?? [],
+    // Namespace prepended to graph names sent to FalkorDB and stripped from listed names
+    graphPrefix: process.env.FALKORDB_GRAPH_PREFIX || '',
+    // Cap on FalkorDB commands in flight at once across all sessions; 0 disables it
+    maxConcurrentQueries: parseInt(process.env.FALKORDB_MAX_CONCURRENT_QUERIES || '0'),
+    // Milliseconds between health-check PINGs after startup; a dead connection is re-established. 0 disables it
+    healthCheckInterval: parseInt(process.env.FALKORDB_HEALTH_CHECK_INTERVAL || '10000'),
+    // Milliseconds a health-check or readiness PING waits for its reply
+    pingTimeout: parseInt(process.env.FALKORDB_PING_TIMEOUT || '2000'),
+    // Milliseconds a connection with commands in flight may go without any reply before it counts as stalled;
+    // at least the ping timeout plus the query timeout
+    stallTimeout: parseInt(process.env.FALKORDB_STALL_TIMEOUT || '60000'),
+    // Calls made while reconnecting: 'queue' waits up to reconnectQueueTimeout milliseconds, 'fail' rejects at once
+    reconnectBehavior: (process.env.FALKORDB_RECONNECT_BEHAVIOR === 'fail' ? 'fail' : 'queue') as 'queue' | 'fail',
+    reconnectQueueTimeout: parseInt(process.env.FALKORDB_RECONNECT_QUEUE_TIMEOUT || '30000'),
+    // TLS to FalkorDB (required by FalkorDB Cloud). caFile verifies the server; certFile/keyFile are a client
+    // certificate for servers that require one. servername overrides the SNI and certificate host name
+    tls: {
+      enabled: process.env.FALKORDB_TLS === 'true',
+      caFile: process.env.FALKORDB_TLS_CA_FILE || '',
+      certFile: process.env.FALKORDB_TLS_CERT_FILE || '',
+      keyFile: process.env.FALKORDB_TLS_KEY_FILE || '',
+      servername: process.env.FALKORDB_TLS_SERVERNAME || '',
+      // Only disable certificate verification for testing; the connection is then open to interception
+      rejectUnauthorized: process.env.FALKORDB_TLS_REJECT_UNAUTHORIZED !== 'false',
+    },
   },
   mcp: {
     transport: (process.env.MCP_TRANSPORT || 'stdio') as 'stdio' | 'http',
+    // Legacy single API key for the HTTP transport; it has the admin role
     apiKey: process.env.MCP_API_KEY || '',
+    // Additional API keys as comma-separated role:key pairs, and a JSON file of { name, key, role } entries
+    apiKeys: parseNameList(process.env.MCP_API_KEYS) ?? [],
+    apiKeysFile: process.env.MCP_API_KEYS_FILE || '',
+    // Roles of verified client certificates as comma-separated role:CN pairs; CN '*' matches any verified certificate
+    clientCertRoles: parseNameList(process.env.MCP_TLS_CLIENT_ROLES) ?? [],
+    // HTTP authentication: 'api-key' (the keys above) or 'jwt' (bearer JWTs validated as below)
+    authMode: (process.env.MCP_AUTH_MODE === 'jwt' ? 'jwt' : 'api-key') as 'api-key' | 'jwt',
+    jwt: {
+      // Verification keys: a JWKS file and/or a PEM public key
+      jwksFile: process.env.MCP_JWT_JWKS_FILE || '',
+      publicKeyFile: process.env.MCP_JWT_PUBLIC_KEY_FILE || '',
+      // Expected iss and aud claims; unset skips the check
+      issuer: process.env.MCP_JWT_ISSUER || '',
+      audience: process.env.MCP_JWT_AUDIENCE || '',
+      // Allowed clock skew for exp/nbf, in seconds
+      clockTolerance: parseInt(process.env.MCP_JWT_CLOCK_TOLERANCE || '60'),
+      // Claim listing the graphs (names or glob patterns) the caller may use
+      graphsClaim: process.env.MCP_JWT_GRAPHS_CLAIM || 'graphs',
+    },
+    // Path the HTTP transport serves MCP on (e.g. /mcp); unset accepts any path
+    httpPath: process.env.MCP_HTTP_PATH || '',
+    // Largest accepted HTTP request body in bytes; 0 disables the limit
+    maxBodySize: parseInt(process.env.MCP_MAX_BODY_SIZE || '4194304'),
+    // Browser origins allowed to call the HTTP transport; unset allows loopback origins only, '*' allows all
+    allowedOrigins: parseNameList(process.env.MCP_ALLOWED_ORIGINS) ?? [],
+    // Bearer token for /healthz, /readyz and /metrics; unset leaves them open (e.g. for Kubernetes probes)
+    opsToken: process.env.MCP_OPS_TOKEN || '',
+    // OAuth protected resource metadata (/.well-known/oauth-protected-resource) for JWT mode
+    resourceUrl: process.env.MCP_RESOURCE_URL || '',
+    authorizationServers: parseNameList(process.env.MCP_AUTH_SERVERS) ?? [],
+    // Caps on rows and serialized bytes returned by the query tools; 0 disables a cap
+    maxResultRows: parseInt(process.env.MCP_MAX_RESULT_ROWS || '1000'),
+    maxResultBytes: parseInt(process.env.MCP_MAX_RESULT_BYTES || '1048576'),
+    // Paginated query results are kept per session until unused for this long (ms)
+    cursorTtl: parseInt(process.env.MCP_CURSOR_TTL || '300000'),
+    maxCursorsPerSession: parseInt(process.env.MCP_MAX_CURSORS_PER_SESSION || '10'),
+    // Caps on the rows and serialized bytes a cursor keeps; rows beyond them are dropped. 0 disables a cap
+    maxCursorRows: parseInt(process.env.MCP_MAX_CURSOR_ROWS || '100000'),
+    maxCursorBytes: parseInt(process.env.MCP_MAX_CURSOR_BYTES || '16777216'),
+    // Expired cursors are dropped every cursorSweepInterval ms; 0 only drops them when the store is used
+    cursorSweepInterval: parseInt(process.env.MCP_CURSOR_SWEEP_INTERVAL || '60000'),
+    // Default serialization of query results: json, compact, markdown or csv
+    resultFormat: (RESULT_FORMATS as readonly string[]).includes(process.env.MCP_RESULT_FORMAT || '')
+      ? process.env.MCP_RESULT_FORMAT as ResultFormat
+      : 'json' as ResultFormat,
+    // HTTP sessions: closed after idleTtl ms without requests (checked every sweepInterval ms);
+    // at maxSessions the least recently used session is closed. 0 disables each
+    sessions: {
+      idleTtl: parseInt(process.env.MCP_SESSION_IDLE_TTL || '1800000'),
+      maxSessions: parseInt(process.env.MCP_MAX_SESSIONS || '100'),
+      sweepInterval: parseInt(process.env.MCP_SESSION_SWEEP_INTERVAL || '60000'),
+    },
+    // Token-bucket limits on tool calls per minute, per MCP session and per API key (or JWT subject).
+    // The burst is the bucket size and defaults to the per-minute rate; 0 disables a limit
+    rateLimits: {
+      session: {
+        perMinute: parseInt(process.env.MCP_RATE_LIMIT_PER_SESSION || '0'),
+        burst: parseInt(process.env.MCP_RATE_LIMIT_SESSION_BURST || process.env.MCP_RATE_LIMIT_PER_SESSION || '0'),
+      },
+      principal: {
+        perMinute: parseInt(process.env.MCP_RATE_LIMIT_PER_KEY || '0'),
+        burst: parseInt(process.env.MCP_RATE_LIMIT_KEY_BURST || process.env.MCP_RATE_LIMIT_PER_KEY || '0'),
+      },
+    },
+    // Audit log of tool calls, as JSONL; disabled when no file is set
+    audit: {
+      file: process.env.MCP_AUDIT_LOG_FILE || '',
+      // The file is rotated once it would grow past maxSize bytes; maxFiles rotated files are kept
+      maxSize: parseInt(process.env.MCP_AUDIT_MAX_SIZE || '10485760'),
+      maxFiles: parseInt(process.env.MCP_AUDIT_MAX_FILES || '5'),
+      // Query parameters whose values are replaced by [REDACTED]; '*' (the default) redacts every value
+      redactParams: process.env.MCP_AUDIT_REDACT_PARAMS === undefined
+        ? ['*']
+        : parseNameList(process.env.MCP_AUDIT_REDACT_PARAMS) ?? [],
+    },
+    // Tools, resources and prompts to expose, by name. `enabled` is an allowlist (unset = everything),
+    // `disabled` is a denylist applied on top of it
+    surface: {
+      tools: {
+        enabled: parseNameList(process.env.MCP_ENABLED_TOOLS),
+        disabled: parseNameList(process.env.MCP_DISABLED_TOOLS) ?? [],
+      },
+      resources: {
+        enabled: parseNameList(process.env.MCP_ENABLED_RESOURCES),
+        disabled: parseNameList(process.env.MCP_DISABLED_RESOURCES) ?? [],
+      },
+      prompts: {
+        enabled: parseNameList(process.env.MCP_ENABLED_PROMPTS),
+        disabled: parseNameList(process.env.MCP_DISABLED_PROMPTS) ?? [],
+      },
+    },
   },
 };
\ No newline at end of file
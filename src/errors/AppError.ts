@@ -5,11 +5,16 @@
 export class AppError extends Error {
   public readonly name: string;
   public readonly isOperational: boolean;
+  // Remediation hint for MCP clients; falls back to the generic hint for the error code
+  public readonly hint?: string;
+  // Machine-readable specifics, e.g. the line and column of a syntax error
+  public readonly details?: Record<string, unknown>;
 
   constructor(
     name: string,
     description: string,
-    isOperational: boolean = true
+    isOperational: boolean = true,
+    extra: { hint?: string; details?: Record<string, unknown> } = {}
   ) {
     super(description);
 
@@ -18,6 +23,8 @@ export class AppError extends Error {
 
     this.name = name;
     this.isOperational = isOperational;
+    this.hint = extra.hint;
+    this.details = extra.details;
 
     // Capture stack trace, excluding constructor call from it
     Error.captureStackTrace(this, this.constructor);
@@ -32,5 +39,37 @@ export const CommonErrors = {
   INVALID_INPUT: 'INVALID_INPUT',
   RESOURCE_NOT_FOUND: 'RESOURCE_NOT_FOUND',
   OPERATION_FAILED: 'OPERATION_FAILED',
-  INITIALIZATION_FAILED: 'INITIALIZATION_FAILED'
-} as const;
\ No newline at end of file
+  OPERATION_CANCELLED: 'OPERATION_CANCELLED',
+  INITIALIZATION_FAILED: 'INITIALIZATION_FAILED',
+  PERMISSION_DENIED: 'PERMISSION_DENIED',
+  AUTHENTICATION_FAILED: 'AUTHENTICATION_FAILED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+  // Query failures reported by FalkorDB, see utils/falkordb-errors.ts
+  QUERY_SYNTAX_ERROR: 'QUERY_SYNTAX_ERROR',
+  UNKNOWN_FUNCTION: 'UNKNOWN_FUNCTION',
+  TYPE_MISMATCH: 'TYPE_MISMATCH',
+  QUERY_TIMEOUT: 'QUERY_TIMEOUT',
+  READ_ONLY_VIOLATION: 'READ_ONLY_VIOLATION'
+} as const;
+
+/**
+ * Generic remediation hints for each error type, returned to MCP clients with tool errors
+ */
+export const ErrorHints: Record<string, string> = {
+  [CommonErrors.CONNECTION_FAILED]: 'The server cannot reach FalkorDB. Retry later; if the problem persists, check the FalkorDB connection settings.',
+  [CommonErrors.INVALID_INPUT]: 'Check the tool arguments and try again.',
+  [CommonErrors.RESOURCE_NOT_FOUND]: 'The requested resource does not exist. Use list_graphs to discover available graphs.',
+  [CommonErrors.OPERATION_FAILED]: 'The operation failed. Check the message for details before retrying.',
+  [CommonErrors.OPERATION_CANCELLED]: 'The request was cancelled by the client. Retry if the result is still needed.',
+  [CommonErrors.INITIALIZATION_FAILED]: 'The server failed to start correctly. Check the server logs.',
+  [CommonErrors.AUTHENTICATION_FAILED]: 'Send a valid credential in the Authorization header.',
+  [CommonErrors.PAYLOAD_TOO_LARGE]: 'The request is larger than the server accepts (MCP_MAX_BODY_SIZE). Send smaller queries or parameters.',
+  [CommonErrors.RATE_LIMITED]: 'Too many calls. Wait for retryAfterSeconds (in the error details) before retrying, and avoid issuing many queries in parallel.',
+  [CommonErrors.PERMISSION_DENIED]: 'This operation or graph is not available to you. Use list_graphs to see the graphs you can access.',
+  [CommonErrors.QUERY_SYNTAX_ERROR]: 'Fix the OpenCypher syntax near the reported position and run the query again.',
+  [CommonErrors.UNKNOWN_FUNCTION]: 'Check the function name for typos. FalkorDB supports its own set of OpenCypher functions; see the FalkorDB documentation for the list.',
+  [CommonErrors.TYPE_MISMATCH]: 'A value has the wrong type for the operation. Convert it explicitly (e.g. toInteger(), toString()) or check the parameter types.',
+  [CommonErrors.QUERY_TIMEOUT]: 'The query exceeded its timeout. Narrow it with LIMIT or WHERE filters, use indexed properties, check its plan with explain_query, or pass a larger timeout.',
+  [CommonErrors.READ_ONLY_VIOLATION]: 'The query writes to the graph but only read-only queries are allowed here. Remove CREATE, MERGE, SET, DELETE and REMOVE clauses, or use query_graph with readOnly: false if the server allows writes.',
+};
\ No newline at end of file
@@ -1,18 +1,38 @@
 #!/usr/bin/env node
 
 import { createRequire } from 'module';
-import { createServer, IncomingMessage, ServerResponse } from 'http';
-import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createServer as createHttpsServer, Server as HttpsServer } from 'https';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
 import { falkorDBService } from './services/falkordb.service.js';
+import { falkorDBConnections } from './services/falkordb-connections.service.js';
+import { sessionManager } from './services/session.service.js';
+import { cursorStore } from './services/cursor.service.js';
+import { metricsService } from './services/metrics.service.js';
+import { apiKeyService } from './services/api-key.service.js';
+import { JWT_SCOPE_ROLES, jwtService } from './services/jwt.service.js';
+import { tlsService } from './services/tls.service.js';
+import { auditService } from './services/audit.service.js';
+import { AppError, CommonErrors } from './errors/AppError.js';
+import { AccessContext } from './models/access.types.js';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { errorHandler } from './errors/ErrorHandler.js';
 import { logger } from './services/logger.service.js';
 import { config } from './config/index.js';
-import registerAllTools from './mcp/tools.js';
-import registerAllResources from './mcp/resources.js';
-import registerAllPrompts from './mcp/prompts.js';
+import registerAllTools, { TOOL_NAMES } from './mcp/tools.js';
+import registerAllResources, { RESOURCE_NAMES } from './mcp/resources.js';
+import registerAllPrompts, { PROMPT_NAMES } from './mcp/prompts.js';
+import { validateSurfaceConfig } from './mcp/surface.js';
+import {
+  isOriginAllowed,
+  JSON_RPC_INTERNAL_ERROR,
+  JSON_RPC_INVALID_REQUEST,
+  JSON_RPC_PARSE_ERROR,
+  jsonRpcError,
+  readRequestBody,
+} from './utils/http-request.js';
 
 const require = createRequire(import.meta.url);
 const { version } = require('../package.json');
@@ -36,7 +56,7 @@ process.on('unhandledRejection', (reason: unknown) => {
 });
 
 // Graceful shutdown handler
-let httpServer: ReturnType<typeof createServer> | null = null;
+let httpServer: Server | HttpsServer | null = null;
 
 const gracefulShutdown = async (signal: string) => {
   await logger.info(`Received ${signal}, shutting down gracefully`);
@@ -47,7 +67,10 @@ const gracefulShutdown = async (signal: string) => {
         httpServer!.close((err) => err ? reject(err) : resolve());
       });
     }
+    await falkorDBConnections.close();
     await falkorDBService.close();
+    // Write out the audit records of the last calls before exiting
+    await auditService.flush();
     await logger.info('All services closed successfully');
     process.exit(0);
   } catch (error) {
@@ -84,17 +107,36 @@ const server = new McpServer({
 // Configure logger to send notifications to MCP clients
 logger.setMcpServer(server);
 
+// Reject unknown names in the tool, resource and prompt allowlists/denylists before registering anything
+try {
+  validateSurfaceConfig({ tools: TOOL_NAMES, resources: RESOURCE_NAMES, prompts: PROMPT_NAMES });
+} catch (error) {
+  logger.errorSync('Invalid MCP surface configuration', error instanceof Error ? error : new Error(String(error)));
+  process.exit(1);
+}
+
 // Register all tools and resources
-registerAllTools(server);
-registerAllResources(server);
-registerAllPrompts(server);
+const surface = {
+  tools: registerAllTools(server),
+  resources: registerAllResources(server),
+  prompts: registerAllPrompts(server),
+};
+// Fire-and-forget: informational log, not critical
+logger.info('Effective MCP surface', surface);
 
 // Initialize services before starting server
 async function initializeServices(): Promise<void> {
   await logger.info('Initializing FalkorDB MCP server...');
 
   try {
+    falkorDBConnections.initialize();
     await falkorDBService.initialize();
+    // Named connections and replicas connect in the background; one that is down doesn't keep the server from starting
+    void falkorDBConnections.connect();
+    // From here on, lost connections are detected and re-established in the background
+    falkorDBConnections.startHealthMonitors();
+    // Paged results are kept for every transport, stdio included
+    cursorStore.startSweeping();
     await logger.info('All services initialized successfully');
   } catch (error) {
     await logger.error('Failed to initialize services', error instanceof Error ? error : new Error(String(error)));
@@ -125,90 +167,192 @@ async function startStdioServer(): Promise<void> {
 }
 
 async function startHTTPServer(): Promise<void> {
-  const port = config.server.port;
-  const apiKey = config.mcp.apiKey;
-
-  // Map session IDs to their transports for session management
-  const sessions = new Map<string, StreamableHTTPServerTransport>();
-
-  httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
-    // API key authentication for HTTP transport
-    if (apiKey) {
-      const authHeader = req.headers['authorization'];
-      if (!authHeader || authHeader !== `Bearer ${apiKey}`) {
-        res.writeHead(401, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Unauthorized' }));
-        return;
+  const { port, host } = config.server;
+  if (config.mcp.authMode === 'jwt') {
+    jwtService.initialize();
+  } else {
+    apiKeyService.initialize();
+  }
+
+  tlsService.initialize();
+
+  sessionManager.startSweeping();
+
+  metricsService.registerGauge('falkordb_mcp_active_sessions', 'Open MCP sessions on the HTTP transport', () => sessionManager.size);
+  metricsService.registerGauge('falkordb_mcp_falkordb_connected', '1 when every FalkorDB connection and replica is connected, 0 otherwise', () => falkorDBConnections.allConnected ? 1 : 0);
+  metricsService.registerGauge('falkordb_mcp_falkordb_tls', '1 when the FalkorDB connection is configured for TLS, 0 otherwise', () => falkorDBService.tlsEnabled ? 1 : 0);
+  metricsService.registerGauge('falkordb_mcp_queries_in_flight', 'FalkorDB commands currently in flight across all connections', () => falkorDBConnections.inFlightQueries);
+
+  const requestListener = (req: IncomingMessage, res: ServerResponse) => {
+    handleHttpRequest(req, res).catch((error) => {
+      // Fire-and-forget: the failure is answered below; the process must keep serving other requests
+      logger.error('HTTP request handling failed', error instanceof Error ? error : new Error(String(error)));
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(jsonRpcError(JSON_RPC_INTERNAL_ERROR, 'Internal server error')));
+      } else {
+        res.end();
       }
+    });
+  };
+
+  if (tlsService.enabled) {
+    const httpsServer = createHttpsServer(tlsService.serverOptions(), requestListener);
+    // SIGHUP reloads the certificate, key and client CA; open connections and sessions are kept
+    process.on('SIGHUP', () => reloadTlsCertificates(httpsServer));
+    httpServer = httpsServer;
+  } else {
+    httpServer = createServer(requestListener);
+  }
+
+  const onListening = () => {
+    // Fire-and-forget: non-critical startup log
+    logger.info(`MCP server started successfully (${tlsService.enabled ? 'HTTPS' : 'HTTP'} transport on ${host || '*'}:${port}${config.mcp.httpPath})`);
+  };
+  if (host) {
+    httpServer.listen(port, host, onListening);
+  } else {
+    httpServer.listen(port, onListening);
+  }
+}
+
+/**
+ * Swap in freshly read TLS certificates; new connections use them, existing ones are unaffected
+ * A failed reload is logged and the previous certificates stay in use
+ */
+function reloadTlsCertificates(httpsServer: HttpsServer): void {
+  try {
+    httpsServer.setSecureContext(tlsService.secureContextOptions());
+    // Fire-and-forget: informational log, not critical
+    logger.info('TLS certificates reloaded');
+  } catch (error) {
+    // Fire-and-forget: the server keeps serving with the previous certificates
+    logger.error('Failed to reload TLS certificates', error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Route a request of the Streamable HTTP transport: probes and metadata, then authenticated MCP traffic
+ */
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  // Probes and metrics bypass MCP authentication and sessions; MCP_OPS_TOKEN protects them separately
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method === 'GET' && OPS_PATHS.has(path)) {
+    await handleOpsRequest(path, req, res);
+    return;
+  }
+
+  // OAuth clients discover the authorization server here before they hold a token
+  if (config.mcp.authMode === 'jwt' && req.method === 'GET' && req.url?.startsWith(PROTECTED_RESOURCE_METADATA_PATH)) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(protectedResourceMetadata(req)));
+    return;
+  }
+
+  // MCP traffic is only served on MCP_HTTP_PATH when it is set
+  if (config.mcp.httpPath && path !== config.mcp.httpPath) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not Found' }));
+    return;
+  }
+
+  // Browsers always send Origin; refusing unknown origins blocks DNS rebinding attacks from web pages
+  if (!isOriginAllowed(req.headers['origin'], config.mcp.allowedOrigins)) {
+    // Fire-and-forget: rejected requests are logged for diagnosis only
+    logger.warn('Rejected request from disallowed origin', { origin: req.headers['origin'] });
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Forbidden: Origin not allowed' }));
+    return;
+  }
+
+  // Client certificate, API key or JWT authentication for HTTP transport
+  const access = authenticate(req, res);
+  if (!access) {
+    return;
+  }
+
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const session = sessionId ? sessionManager.get(sessionId) : undefined;
+
+  // A session keeps the role it was opened with, so it may only be used by the same principal
+  if (session && session.access.principal !== access.principal) {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Forbidden: Session belongs to a different principal' }));
+    return;
+  }
+  if (session) {
+    sessionManager.touch(sessionId!);
+  }
+
+  if (req.method === 'POST') {
+    // Read and parse the request body; failures are answered as JSON-RPC errors
+    let parsedBody: unknown;
+    try {
+      parsedBody = JSON.parse(await readRequestBody(req, config.mcp.maxBodySize));
+    } catch (error) {
+      const tooLarge = error instanceof AppError && error.name === CommonErrors.PAYLOAD_TOO_LARGE;
+      res.writeHead(tooLarge ? 413 : 400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(tooLarge
+        ? jsonRpcError(JSON_RPC_INVALID_REQUEST, error.message)
+        : jsonRpcError(JSON_RPC_PARSE_ERROR, `Parse error: ${error instanceof Error ? error.message : String(error)}`)));
+      return;
     }
 
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-
-    if (req.method === 'POST') {
-      // Read the request body
-      const body = await readRequestBody(req);
-      const parsedBody = JSON.parse(body);
-
-      if (sessionId && sessions.has(sessionId)) {
-        // Existing session — route to its transport
-        const transport = sessions.get(sessionId)!;
-        await transport.handleRequest(req, res, parsedBody);
-      } else if (!sessionId && isInitializeRequest(parsedBody)) {
-        // New session initialization
-        const transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-        });
-
-        transport.onclose = () => {
-          const sid = transport.sessionId;
-          if (sid) sessions.delete(sid);
-        };
-
-        // Connect a fresh McpServer for this session
-        const sessionServer = createSessionServer();
-        await sessionServer.connect(transport);
-        await transport.handleRequest(req, res, parsedBody);
-
-        // Store session after handling (sessionId is set after init)
-        if (transport.sessionId) {
-          sessions.set(transport.sessionId, transport);
+    if (session) {
+      // Existing session — route to its transport
+      await session.transport.handleRequest(req, res, parsedBody);
+    } else if (!sessionId && isInitializeRequest(parsedBody)) {
+      // New session initialization
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+      });
+
+      transport.onclose = () => {
+        const sid = transport.sessionId;
+        if (sid) {
+          sessionManager.remove(sid, 'closed');
         }
-      } else {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Bad Request: No valid session or initialization' }));
-      }
-    } else if (req.method === 'GET') {
-      // SSE stream for server-initiated messages
-      if (sessionId && sessions.has(sessionId)) {
-        const transport = sessions.get(sessionId)!;
-        await transport.handleRequest(req, res);
-      } else {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Bad Request: Invalid or missing session ID' }));
-      }
-    } else if (req.method === 'DELETE') {
-      // Session termination
-      if (sessionId && sessions.has(sessionId)) {
-        const transport = sessions.get(sessionId)!;
-        await transport.handleRequest(req, res);
-        sessions.delete(sessionId);
-      } else {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Bad Request: Invalid or missing session ID' }));
+      };
+
+      // Connect a fresh McpServer for this session
+      const sessionServer = createSessionServer(access);
+      await sessionServer.connect(transport);
+      await transport.handleRequest(req, res, parsedBody);
+
+      // Store session after handling (sessionId is set after init)
+      if (transport.sessionId) {
+        sessionManager.add(transport.sessionId, transport, access);
+        // Fire-and-forget: informational log, not critical
+        logger.info('MCP session opened', { sessionId: transport.sessionId, role: access.role, principal: access.principal });
       }
     } else {
-      res.writeHead(405, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Method Not Allowed' }));
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Bad Request: No valid session or initialization' }));
     }
-  });
-
-  httpServer.listen(port, () => {
-    // Fire-and-forget: non-critical startup log
-    logger.info(`MCP server started successfully (HTTP transport on port ${port})`);
-  });
+  } else if (req.method === 'GET') {
+    // SSE stream for server-initiated messages
+    if (session) {
+      await session.transport.handleRequest(req, res);
+    } else {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Bad Request: Invalid or missing session ID' }));
+    }
+  } else if (req.method === 'DELETE') {
+    // Session termination
+    if (session) {
+      await session.transport.handleRequest(req, res);
+      sessionManager.remove(sessionId!, 'closed');
+    } else {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Bad Request: Invalid or missing session ID' }));
+    }
+  } else {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Method Not Allowed' }));
+  }
 }
 
-function createSessionServer(): McpServer {
+function createSessionServer(access: AccessContext): McpServer {
   const sessionServer = new McpServer({
     name: "falkordb",
     version: version,
@@ -221,19 +365,108 @@ function createSessionServer(): McpServer {
     },
   });
   logger.setMcpServer(sessionServer);
-  registerAllTools(sessionServer);
-  registerAllResources(sessionServer);
+  registerAllTools(sessionServer, access);
+  registerAllResources(sessionServer, access);
   registerAllPrompts(sessionServer);
   return sessionServer;
 }
 
-function readRequestBody(req: IncomingMessage): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let body = '';
-    req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
-    req.on('end', () => resolve(body));
-    req.on('error', reject);
-  });
+const OPS_PATHS = new Set(['/healthz', '/readyz', '/metrics']);
+
+function tokenMatches(authorizationHeader: string | undefined, token: string): boolean {
+  // Compare digests so the comparison is constant-time regardless of length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(authorizationHeader ?? ''), digest(`Bearer ${token}`));
+}
+
+/**
+ * Serve the liveness (/healthz), readiness (/readyz) and Prometheus metrics (/metrics) endpoints
+ * Readiness requires FalkorDB to answer a PING; one queued behind running queries counts as an answer
+ */
+async function handleOpsRequest(path: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (config.mcp.opsToken && !tokenMatches(req.headers['authorization'], config.mcp.opsToken)) {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return;
+  }
+
+  if (path === '/metrics') {
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(metricsService.render());
+    return;
+  }
+
+  if (path === '/readyz') {
+    try {
+      await falkorDBService.ping();
+    } catch (error) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'unavailable', error: error instanceof Error ? error.message : String(error) }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ready', falkordbTls: falkorDBService.tlsEnabled }));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ status: 'ok' }));
+}
+
+const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+function resourceUrl(req: IncomingMessage): string {
+  return config.mcp.resourceUrl || `${tlsService.enabled ? 'https' : 'http'}://${req.headers.host ?? `localhost:${config.server.port}`}`;
+}
+
+/**
+ * OAuth 2.0 Protected Resource Metadata (RFC 9728) advertised in JWT mode
+ */
+function protectedResourceMetadata(req: IncomingMessage): Record<string, unknown> {
+  const { issuer } = config.mcp.jwt;
+  return {
+    resource: resourceUrl(req),
+    authorization_servers: config.mcp.authorizationServers.length > 0
+      ? config.mcp.authorizationServers
+      : (issuer ? [issuer] : []),
+    scopes_supported: Object.keys(JWT_SCOPE_ROLES),
+    bearer_methods_supported: ['header'],
+  };
+}
+
+/**
+ * Authenticate a request by its verified client certificate, else with the configured auth mode
+ * On failure the 401/403 response has already been sent and null is returned
+ */
+function authenticate(req: IncomingMessage, res: ServerResponse): AccessContext | null {
+  const certificateAccess = tlsService.authenticate(req.socket);
+  if (certificateAccess) {
+    return certificateAccess;
+  }
+
+  if (config.mcp.authMode !== 'jwt') {
+    const access = apiKeyService.authenticate(req.headers['authorization']);
+    if (!access) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+    }
+    return access;
+  }
+
+  try {
+    return jwtService.authenticate(req.headers['authorization']);
+  } catch (error) {
+    const denied = error instanceof AppError && error.name === CommonErrors.PERMISSION_DENIED;
+    const metadataUrl = `${resourceUrl(req).replace(/\/$/, '')}${PROTECTED_RESOURCE_METADATA_PATH}`;
+    const challenge = denied
+      ? `Bearer error="insufficient_scope", scope="${Object.keys(JWT_SCOPE_ROLES).join(' ')}", resource_metadata="${metadataUrl}"`
+      : `Bearer error="invalid_token", resource_metadata="${metadataUrl}"`;
+    // Fire-and-forget: rejected requests are logged for diagnosis only
+    logger.warn('Rejected bearer token', { reason: error instanceof Error ? error.message : String(error) });
+    res.writeHead(denied ? 403 : 401, { 'Content-Type': 'application/json', 'WWW-Authenticate': challenge });
+    res.end(JSON.stringify({ error: denied ? 'Forbidden' : 'Unauthorized' }));
+    return null;
+  }
 }
 
 function isInitializeRequest(body: unknown): boolean {
@@ -1,5 +1,6 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { isSurfaceEnabled } from "./surface.js";
 
 // Define schemas as simple objects first to avoid TS2589 deep recursion
 const userSetupArgsSchema = {
@@ -243,8 +244,26 @@ Begin with analyzing the current graph structure and proceed with the reorganiza
   )
 }
 
-export default function registerAllPrompts(server: McpServer): void {
-  registerUserSetupPrompt(server);
-  registerMemoryQueryPrompt(server);
-  registerGraphReorganizationPrompt(server);
+// Every prompt in registration order
+const PROMPT_REGISTRATIONS: Array<[string, (server: McpServer) => void]> = [
+  ["user_setup", registerUserSetupPrompt],
+  ["memory_query", registerMemoryQueryPrompt],
+  ["graph_reorganization", registerGraphReorganizationPrompt],
+];
+
+export const PROMPT_NAMES = PROMPT_REGISTRATIONS.map(([name]) => name);
+
+/**
+ * Register the prompts exposed by this deployment
+ * @returns The names of the registered prompts
+ */
+export default function registerAllPrompts(server: McpServer): string[] {
+  const registered: string[] = [];
+  for (const [name, register] of PROMPT_REGISTRATIONS) {
+    if (isSurfaceEnabled('prompts', name)) {
+      register(server);
+      registered.push(name);
+    }
+  }
+  return registered;
 }
\ No newline at end of file
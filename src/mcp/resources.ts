@@ -1,9 +1,14 @@
 import { falkorDBService } from '../services/falkordb.service.js';
+import { falkorDBConnections } from '../services/falkordb-connections.service.js';
+import { rateLimitService } from '../services/rate-limit.service.js';
+import { DEFAULT_SESSION_KEY } from '../services/cursor.service.js';
+import { config } from '../config/index.js';
 import { logger } from '../services/logger.service.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { isSurfaceEnabled } from './surface.js';
+import { AccessContext, canAccessGraph, FULL_ACCESS } from '../models/access.types.js';
 
-export default function registerAllResources(server: McpServer): void {
-  // Register graph_list resource
+function registerGraphListResource(server: McpServer, access: AccessContext): void {
   server.registerResource(
    "graph_list",
    "graph://listing",
@@ -14,7 +19,7 @@ export default function registerAllResources(server: McpServer): void {
    },
    async (uri) => {
     try {
-      const graphNames = await falkorDBService.listGraphs();
+      const graphNames = (await falkorDBService.listGraphs()).filter(name => canAccessGraph(access, name));
       const markdownList = graphNames.map(name => `- ${name}`).join('\n');
       await logger.debug('Graph list resource accessed', { count: graphNames.length });
       return {
@@ -29,4 +34,59 @@ export default function registerAllResources(server: McpServer): void {
     }
    }
  );
-}
\ No newline at end of file
+}
+
+function registerUsageStatusResource(server: McpServer, access: AccessContext): void {
+  server.registerResource(
+    "usage_status",
+    "status://usage",
+    {
+      title: "Usage Status",
+      description: "Your remaining rate limit allowance (per session and per API key) and the number of queries in flight on the server, across all FalkorDB connections",
+      mimeType: "application/json",
+    },
+    async (uri, extra) => {
+      const status = {
+        role: access.role,
+        rateLimits: rateLimitService.usage(access, extra?.sessionId ?? DEFAULT_SESSION_KEY),
+        queries: {
+          inFlight: falkorDBConnections.inFlightQueries,
+          maxConcurrent: config.falkorDB.maxConcurrentQueries,
+        },
+      };
+      await logger.debug('Usage status resource accessed', { inFlight: status.queries.inFlight });
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(status, null, 2),
+        }]
+      };
+    }
+  );
+}
+
+// Every resource in registration order
+const RESOURCE_REGISTRATIONS: Array<[string, (server: McpServer, access: AccessContext) => void]> = [
+  ["graph_list", registerGraphListResource],
+  ["usage_status", registerUsageStatusResource],
+];
+
+export const RESOURCE_NAMES = RESOURCE_REGISTRATIONS.map(([name]) => name);
+
+/**
+ * Register the resources exposed by this deployment to a session
+ * @param server - The session's MCP server
+ * @param access - The session's access; resources only show graphs it may use
+ * @returns The names of the registered resources
+ */
+export default function registerAllResources(server: McpServer, access: AccessContext = FULL_ACCESS): string[] {
+  const registered: string[] = [];
+  for (const [name, register] of RESOURCE_REGISTRATIONS) {
+    if (isSurfaceEnabled('resources', name)) {
+      register(server, access);
+      registered.push(name);
+    }
+  }
+  return registered;
+}
@@ -0,0 +1,79 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { isSurfaceEnabled, validateSurfaceConfig } from './surface.js';
+
+describe('MCP surface configuration', () => {
+  const known = {
+    tools: ['query_graph', 'list_graphs', 'get_graph_schema'],
+    resources: ['graph_list'],
+    prompts: ['user_setup', 'memory_query'],
+  };
+
+  beforeEach(() => {
+    mockConfig = createMockConfig();
+  });
+
+  describe('isSurfaceEnabled', () => {
+    it('should enable everything by default', () => {
+      expect(isSurfaceEnabled('tools', 'query_graph')).toBe(true);
+      expect(isSurfaceEnabled('resources', 'graph_list')).toBe(true);
+      expect(isSurfaceEnabled('prompts', 'user_setup')).toBe(true);
+    });
+
+    it('should enable only allowlisted names when an allowlist is set', () => {
+      mockConfig.mcp.surface.tools.enabled = ['list_graphs'];
+
+      expect(isSurfaceEnabled('tools', 'list_graphs')).toBe(true);
+      expect(isSurfaceEnabled('tools', 'query_graph')).toBe(false);
+      expect(isSurfaceEnabled('prompts', 'user_setup')).toBe(true);
+    });
+
+    it('should apply the denylist on top of the allowlist', () => {
+      mockConfig.mcp.surface.tools.enabled = ['list_graphs', 'query_graph'];
+      mockConfig.mcp.surface.tools.disabled = ['query_graph'];
+      mockConfig.mcp.surface.prompts.disabled = ['memory_query'];
+
+      expect(isSurfaceEnabled('tools', 'list_graphs')).toBe(true);
+      expect(isSurfaceEnabled('tools', 'query_graph')).toBe(false);
+      expect(isSurfaceEnabled('prompts', 'memory_query')).toBe(false);
+      expect(isSurfaceEnabled('prompts', 'user_setup')).toBe(true);
+    });
+  });
+
+  describe('validateSurfaceConfig', () => {
+    it('should accept known names', () => {
+      mockConfig.mcp.surface.tools.enabled = ['list_graphs'];
+      mockConfig.mcp.surface.resources.disabled = ['graph_list'];
+
+      expect(() => validateSurfaceConfig(known)).not.toThrow();
+    });
+
+    it('should reject unknown names and report the variable they came from', () => {
+      // Arrange
+      mockConfig.mcp.surface.tools.enabled = ['list_graph'];
+      mockConfig.mcp.surface.prompts.disabled = ['setup'];
+
+      // Act & Assert
+      try {
+        validateSurfaceConfig(known);
+        fail('Expected validateSurfaceConfig to throw AppError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).name).toBe(CommonErrors.INVALID_INPUT);
+        expect((error as AppError).message).toContain('MCP_ENABLED_TOOLS contains unknown tools list_graph');
+        expect((error as AppError).message).toContain('MCP_DISABLED_PROMPTS contains unknown prompts setup');
+      }
+    });
+  });
+});
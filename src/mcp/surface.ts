@@ -0,0 +1,50 @@
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+export type SurfaceKind = 'tools' | 'resources' | 'prompts';
+
+// Environment variables holding the allowlist and denylist of each kind, for error messages
+const SURFACE_ENV: Record<SurfaceKind, [string, string]> = {
+  tools: ['MCP_ENABLED_TOOLS', 'MCP_DISABLED_TOOLS'],
+  resources: ['MCP_ENABLED_RESOURCES', 'MCP_DISABLED_RESOURCES'],
+  prompts: ['MCP_ENABLED_PROMPTS', 'MCP_DISABLED_PROMPTS'],
+};
+
+/**
+ * Check whether a tool, resource or prompt is exposed by the deployment's surface configuration
+ * @param kind - Whether the name refers to a tool, resource or prompt
+ * @param name - The registered name, e.g. "query_graph"
+ */
+export function isSurfaceEnabled(kind: SurfaceKind, name: string): boolean {
+  const { enabled, disabled } = config.mcp.surface[kind];
+  return (enabled === undefined || enabled.includes(name)) && !disabled.includes(name);
+}
+
+/**
+ * Reject allowlist or denylist entries that don't name a known tool, resource or prompt
+ * A typo would otherwise silently expose (or hide) more than intended
+ * @param known - Every name the server can register, by kind
+ */
+export function validateSurfaceConfig(known: Record<SurfaceKind, readonly string[]>): void {
+  const problems: string[] = [];
+
+  for (const kind of Object.keys(SURFACE_ENV) as SurfaceKind[]) {
+    const { enabled, disabled } = config.mcp.surface[kind];
+    const [enabledEnv, disabledEnv] = SURFACE_ENV[kind];
+
+    for (const [envName, names] of [[enabledEnv, enabled ?? []], [disabledEnv, disabled]] as const) {
+      const unknown = names.filter(name => !known[kind].includes(name));
+      if (unknown.length > 0) {
+        problems.push(`${envName} contains unknown ${kind} ${unknown.join(', ')} (known: ${known[kind].join(', ')})`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new AppError(
+      CommonErrors.INVALID_INPUT,
+      `Invalid MCP surface configuration: ${problems.join('; ')}`,
+      true
+    );
+  }
+}
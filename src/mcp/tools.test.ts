@@ -1,3 +1,4 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
 import { AppError, CommonErrors } from '../errors/AppError.js';
 
 // Mock the logger service
@@ -15,18 +16,47 @@ jest.mock('../services/falkordb.service.js', () => ({
   falkorDBService: {
     executeQuery: jest.fn(),
     executeReadOnlyQuery: jest.fn(),
+    explainQuery: jest.fn(),
+    profileQuery: jest.fn(),
     listGraphs: jest.fn(),
     deleteGraph: jest.fn(),
   }
 }));
 
-// Mock config with different scenarios
-let mockConfig = {
-  falkorDB: {
-    defaultReadOnly: false,
-    strictReadOnly: false,
+// Mock the connection registry; every connection resolves to the mocked FalkorDB service
+jest.mock('../services/falkordb-connections.service.js', () => {
+  const { falkorDBService } = jest.requireMock('../services/falkordb.service.js');
+  return {
+    falkorDBConnections: {
+      get: jest.fn(() => falkorDBService),
+      list: jest.fn().mockReturnValue([]),
+    }
+  };
+});
+
+// Mock the audit log
+jest.mock('../services/audit.service.js', () => ({
+  auditService: {
+    record: jest.fn(),
   }
-};
+}));
+
+// Mock the rate limits
+jest.mock('../services/rate-limit.service.js', () => ({
+  rateLimitService: {
+    consume: jest.fn(),
+  }
+}));
+
+// Mock the HTTP session registry
+jest.mock('../services/session.service.js', () => ({
+  sessionManager: {
+    list: jest.fn().mockReturnValue([]),
+  }
+}));
+
+// Mock config with different scenarios; each describe block starts from a fresh copy
+let mockConfig = createMockConfig();
 
 jest.mock('../config/index.js', () => ({
   get config() {
@@ -34,10 +64,29 @@ jest.mock('../config/index.js', () => ({
   }
 }));
 
+// Assert that a handler returned an isError result with the given code and (optionally) message
+const expectToolError = async (resultPromise: Promise<any>, code: string, message?: string) => {
+  const result = await resultPromise;
+  expect(result.isError).toBe(true);
+  const { error } = JSON.parse(result.content[0].text);
+  expect(error.code).toBe(code);
+  expect(typeof error.hint).toBe('string');
+  if (message) {
+    expect(error.message).toContain(message);
+  }
+  return error;
+};
+
 // Import after mocks are set up
+import { z } from 'zod';
 import registerAllTools from './tools.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { falkorDBService } from '../services/falkordb.service.js';
+import { falkorDBConnections } from '../services/falkordb-connections.service.js';
+import { auditService } from '../services/audit.service.js';
+import { rateLimitService } from '../services/rate-limit.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { sessionManager } from '../services/session.service.js';
 
 describe('MCP Tools - Strict Read-Only Mode', () => {
   let server: McpServer;
@@ -47,12 +96,7 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
     jest.clearAllMocks();
 
     // Reset mock config
-    mockConfig = {
-      falkorDB: {
-        defaultReadOnly: false,
-        strictReadOnly: false,
-      }
-    };
+    mockConfig = createMockConfig();
 
     // Create a minimal mock server that captures tool handlers
     server = {
@@ -84,7 +128,8 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
         'test',
         'CREATE (n:Test) RETURN n',
         undefined,
-        false
+        false,
+        {}
       );
     });
 
@@ -102,7 +147,8 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
         'test',
         'MATCH (n) RETURN n',
         undefined,
-        true
+        true,
+        {}
       );
     });
 
@@ -119,7 +165,8 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
         'test',
         'MATCH (n) RETURN n',
         undefined,
-        false
+        false,
+        {}
       );
     });
   });
@@ -131,21 +178,23 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
     });
 
     it('should reject readOnly=false when strictReadOnly is enabled', async () => {
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: 'test',
           query: 'CREATE (n:Test) RETURN n',
           readOnly: false,
-        })
-      ).rejects.toThrow(AppError);
+        }),
+        CommonErrors.READ_ONLY_VIOLATION
+      );
 
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: 'test',
           query: 'CREATE (n:Test) RETURN n',
           readOnly: false,
-        })
-      ).rejects.toThrow('strict read-only mode');
+        }),
+        CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode'
+      );
 
       expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
     });
@@ -164,7 +213,8 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
         'test',
         'MATCH (n) RETURN n',
         undefined,
-        true
+        true,
+        {}
       );
     });
 
@@ -181,42 +231,43 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
         'test',
         'MATCH (n) RETURN n',
         undefined,
-        true
+        true,
+        {}
       );
     });
 
     it('should include proper error information when rejecting write queries', async () => {
-      try {
-        await queryGraphHandler({
+      const error = await expectToolError(
+        queryGraphHandler({
           graphName: 'test',
           query: 'CREATE (n:Test) RETURN n',
           readOnly: false,
-        });
-        fail('Expected error to be thrown');
-      } catch (error) {
-        expect(error).toBeInstanceOf(AppError);
-        expect((error as AppError).name).toBe(CommonErrors.INVALID_INPUT);
-        expect((error as AppError).message).toContain('FALKORDB_STRICT_READONLY=true');
-      }
+        }),
+        CommonErrors.READ_ONLY_VIOLATION, 'FALKORDB_STRICT_READONLY=true'
+      );
+
+      expect(error.hint).toContain('read-only');
     });
 
     it('should reject write queries when strictReadOnly is enabled and defaultReadOnly=false and readOnly is not specified', async () => {
       // Override defaultReadOnly for this specific test case
       mockConfig.falkorDB.defaultReadOnly = false;
 
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: 'test',
           query: 'CREATE (n:Test) RETURN n',
-        })
-      ).rejects.toThrow(AppError);
+        }),
+        CommonErrors.READ_ONLY_VIOLATION
+      );
 
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: 'test',
           query: 'CREATE (n:Test) RETURN n',
-        })
-      ).rejects.toThrow('strict read-only mode');
+        }),
+        CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode'
+      );
 
       expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
     });
@@ -224,21 +275,23 @@ describe('MCP Tools - Strict Read-Only Mode', () => {
 
   describe('query_graph tool input validation', () => {
     it('should reject empty graph name', async () => {
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: '',
           query: 'MATCH (n) RETURN n',
-        })
-      ).rejects.toThrow('Graph name is required and cannot be empty');
+        }),
+        CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty'
+      );
     });
 
     it('should reject empty query', async () => {
-      await expect(
+      await expectToolError(
         queryGraphHandler({
           graphName: 'test',
           query: '',
-        })
-      ).rejects.toThrow('Query is required and cannot be empty');
+        }),
+        CommonErrors.INVALID_INPUT, 'Query is required and cannot be empty'
+      );
     });
   });
 });
@@ -254,12 +307,7 @@ describe('MCP Schema Tools', () => {
 
     // Reset shared mock config so these tests don't depend on state left by
     // earlier describe blocks (prevents order-dependent flakes).
-    mockConfig = {
-      falkorDB: {
-        defaultReadOnly: false,
-        strictReadOnly: false,
-      }
-    };
+    mockConfig = createMockConfig();
 
     server = {
       registerTool: jest.fn((name, _schema, handler) => {
@@ -296,11 +344,23 @@ describe('MCP Schema Tools', () => {
 
       await getGraphSchemaHandler({ graphName: 'myGraph' });
 
-      expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith('myGraph', 'CALL db.labels()');
-      expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith('myGraph', 'CALL db.relationshipTypes()');
+      expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith('myGraph', 'CALL db.labels()', undefined, {});
+      expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith('myGraph', 'CALL db.relationshipTypes()', undefined, {});
       expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
     });
 
+    it('should forward the request abort signal to every query', async () => {
+      (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ data: [] });
+      const controller = new AbortController();
+
+      await getGraphSchemaHandler({ graphName: 'myGraph' }, { signal: controller.signal });
+
+      expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledTimes(3);
+      for (const call of (falkorDBService.executeReadOnlyQuery as jest.Mock).mock.calls) {
+        expect(call[3]).toEqual({ signal: controller.signal });
+      }
+    });
+
     it('should bound the connection topology scan and honor a custom connectionSampleSize', async () => {
       (falkorDBService.executeReadOnlyQuery as jest.Mock)
         .mockResolvedValueOnce({ data: [{ label: 'Person' }] })
@@ -312,7 +372,9 @@ describe('MCP Schema Tools', () => {
 
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH (a)-[r]->(b) WITH a, r, b LIMIT 250 RETURN DISTINCT labels(a) AS source, type(r) AS relationship, labels(b) AS target'
+        'MATCH (a)-[r]->(b) WITH a, r, b LIMIT 250 RETURN DISTINCT labels(a) AS source, type(r) AS relationship, labels(b) AS target',
+        undefined,
+        {}
       );
       expect(parsed.connectionSampleSize).toBe(250);
     });
@@ -331,7 +393,9 @@ describe('MCP Schema Tools', () => {
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledTimes(2);
       expect(falkorDBService.executeReadOnlyQuery).not.toHaveBeenCalledWith(
         'myGraph',
-        expect.stringContaining('MATCH (a)-[r]->(b)')
+        expect.stringContaining('MATCH (a)-[r]->(b)'),
+        undefined,
+        {}
       );
     });
 
@@ -351,8 +415,8 @@ describe('MCP Schema Tools', () => {
     });
 
     it('should reject empty graph name', async () => {
-      await expect(getGraphSchemaHandler({ graphName: '' }))
-        .rejects.toThrow('Graph name is required and cannot be empty');
+      await expectToolError(getGraphSchemaHandler({ graphName: '' }),
+        CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
     });
   });
 
@@ -373,11 +437,15 @@ describe('MCP Schema Tools', () => {
 
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH (n:Person) WITH n LIMIT 100 UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC'
+        'MATCH (n:Person) WITH n LIMIT 100 UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH (n:Person) WITH n LIMIT 100 RETURN count(n) AS sampledCount'
+        'MATCH (n:Person) WITH n LIMIT 100 RETURN count(n) AS sampledCount',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
       expect(parsed.label).toBe('Person');
@@ -433,11 +501,15 @@ describe('MCP Schema Tools', () => {
 
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH (n:Person) WITH n LIMIT 500 UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC'
+        'MATCH (n:Person) WITH n LIMIT 500 UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH (n:Person) WITH n LIMIT 500 RETURN count(n) AS sampledCount'
+        'MATCH (n:Person) WITH n LIMIT 500 RETURN count(n) AS sampledCount',
+        undefined,
+        {}
       );
     });
 
@@ -447,8 +519,8 @@ describe('MCP Schema Tools', () => {
     });
 
     it('should reject empty graph name', async () => {
-      await expect(getNodeSchemaHandler({ graphName: '', label: 'Person' }))
-        .rejects.toThrow('Graph name is required and cannot be empty');
+      await expectToolError(getNodeSchemaHandler({ graphName: '', label: 'Person' }),
+        CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
     });
   });
 
@@ -468,11 +540,15 @@ describe('MCP Schema Tools', () => {
 
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 100 UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC'
+        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 100 UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 100 RETURN count(r) AS sampledCount'
+        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 100 RETURN count(r) AS sampledCount',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
       expect(parsed.relationshipType).toBe('ACTED_IN');
@@ -490,11 +566,15 @@ describe('MCP Schema Tools', () => {
 
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 250 UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC'
+        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 250 UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC',
+        undefined,
+        {}
       );
       expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
         'myGraph',
-        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 250 RETURN count(r) AS sampledCount'
+        'MATCH ()-[r:ACTED_IN]->() WITH r LIMIT 250 RETURN count(r) AS sampledCount',
+        undefined,
+        {}
       );
     });
 
@@ -504,8 +584,8 @@ describe('MCP Schema Tools', () => {
     });
 
     it('should reject empty graph name', async () => {
-      await expect(getRelationshipSchemaHandler({ graphName: '', relationshipType: 'ACTED_IN' }))
-        .rejects.toThrow('Graph name is required and cannot be empty');
+      await expectToolError(getRelationshipSchemaHandler({ graphName: '', relationshipType: 'ACTED_IN' }),
+        CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
     });
   });
 });
@@ -516,7 +596,7 @@ describe('MCP Tools - query_graph params handling', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockConfig = { falkorDB: { defaultReadOnly: false, strictReadOnly: false } };
+    mockConfig = createMockConfig();
 
     server = {
       registerTool: jest.fn((name, _schema, handler) => {
@@ -540,7 +620,8 @@ describe('MCP Tools - query_graph params handling', () => {
       'test',
       'MATCH (n:Person {name: $name}) RETURN n',
       { name: 'Alice' },
-      false
+      false,
+      {}
     );
   });
 
@@ -553,7 +634,8 @@ describe('MCP Tools - query_graph params handling', () => {
       'test',
       'MATCH (n) RETURN n',
       undefined,
-      false
+      false,
+      {}
     );
   });
 
@@ -570,7 +652,8 @@ describe('MCP Tools - query_graph params handling', () => {
       'test',
       'MATCH (n:Person) WHERE n.age > $minAge AND n.active = $active RETURN n',
       { minAge: 21, active: true },
-      false
+      false,
+      {}
     );
   });
 
@@ -588,10 +671,79 @@ describe('MCP Tools - query_graph params handling', () => {
       'test',
       'MATCH (n:Person {name: $name}) RETURN n',
       { name: 'Alice' },
-      true
+      true,
+      {}
     );
   });
 
+  it('should forward the timeout and the request abort signal', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ data: [] });
+    const controller = new AbortController();
+
+    await queryGraphHandler(
+      { graphName: 'test', query: 'MATCH (n) RETURN n', timeout: 5000 },
+      { signal: controller.signal }
+    );
+
+    expect(falkorDBService.executeQuery).toHaveBeenCalledWith(
+      'test',
+      'MATCH (n) RETURN n',
+      undefined,
+      false,
+      { timeout: 5000, signal: controller.signal }
+    );
+  });
+
+  it('should truncate results over the configured row limit', async () => {
+    mockConfig.mcp.maxResultRows = 2;
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({
+      headers: ['n'],
+      data: [{ n: 1 }, { n: 2 }, { n: 3 }],
+      metadata: [],
+    });
+
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.data).toHaveLength(2);
+    expect(parsed.truncation).toEqual(expect.objectContaining({
+      truncated: true,
+      totalRows: 3,
+      returnedRows: 2,
+      hint: expect.any(String),
+    }));
+  });
+
+  it('should let maxResults override the configured row limit', async () => {
+    mockConfig.mcp.maxResultRows = 2;
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({
+      data: [{ n: 1 }, { n: 2 }, { n: 3 }],
+      metadata: [],
+    });
+
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n', maxResults: 1 });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.data).toEqual([{ n: 1 }]);
+    expect(parsed.truncation.totalRows).toBe(3);
+  });
+
+  it('should not add a truncation section when the result fits', async () => {
+    mockConfig.mcp.maxResultRows = 10;
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ data: [{ n: 1 }], metadata: [] });
+
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n' });
+
+    expect(JSON.parse(result.content[0].text).truncation).toBeUndefined();
+  });
+
+  it('should reject a non-positive timeout', async () => {
+    await expect(queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n', timeout: 0 }))
+      .rejects.toThrow();
+
+    expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
+  });
+
   it('should reject invalid param names (injection attempt via key)', async () => {
     await expect(queryGraphHandler({
       graphName: 'test',
@@ -625,7 +777,8 @@ describe('MCP Tools - query_graph params handling', () => {
       'test',
       'MATCH (n:Person) WHERE n.age > $filter.minAge RETURN n',
       { filter: { minAge: 18, tags: ['a', 'b'] } },
-      false
+      false,
+      {}
     );
   });
 });
@@ -636,7 +789,7 @@ describe('MCP Tools - query_graph_readonly', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockConfig = { falkorDB: { defaultReadOnly: false, strictReadOnly: false } };
+    mockConfig = createMockConfig();
 
     server = {
       registerTool: jest.fn((name, _schema, handler) => {
@@ -659,7 +812,8 @@ describe('MCP Tools - query_graph_readonly', () => {
     expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
       'myGraph',
       'MATCH (n:Person) RETURN n',
-      undefined
+      undefined,
+      {}
     );
     expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
     const parsed = JSON.parse(result.content[0].text);
@@ -678,10 +832,42 @@ describe('MCP Tools - query_graph_readonly', () => {
     expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
       'myGraph',
       'MATCH (n:Person {name: $name}) RETURN n',
-      { name: 'Alice' }
+      { name: 'Alice' },
+      {}
+    );
+  });
+
+  it('should forward the timeout and the request abort signal', async () => {
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+    const controller = new AbortController();
+
+    await queryGraphReadonlyHandler(
+      { graphName: 'myGraph', query: 'MATCH (n) RETURN n', timeout: 250 },
+      { signal: controller.signal }
+    );
+
+    expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalledWith(
+      'myGraph',
+      'MATCH (n) RETURN n',
+      undefined,
+      { timeout: 250, signal: controller.signal }
     );
   });
 
+  it('should truncate results over the configured byte limit', async () => {
+    mockConfig.mcp.maxResultBytes = 20;
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({
+      data: [{ name: 'Alice' }, { name: 'Bob' }, { name: 'Carol' }],
+      metadata: [],
+    });
+
+    const result = await queryGraphReadonlyHandler({ graphName: 'myGraph', query: 'MATCH (n) RETURN n.name AS name' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.data).toEqual([{ name: 'Alice' }]);
+    expect(parsed.truncation).toEqual(expect.objectContaining({ reason: 'maxBytes', totalRows: 3, returnedRows: 1 }));
+  });
+
   it('should reject invalid param names (injection attempt via key)', async () => {
     await expect(queryGraphReadonlyHandler({
       graphName: 'myGraph',
@@ -693,27 +879,27 @@ describe('MCP Tools - query_graph_readonly', () => {
   });
 
   it('should reject empty graph name', async () => {
-    await expect(queryGraphReadonlyHandler({ graphName: '', query: 'MATCH (n) RETURN n' }))
-      .rejects.toThrow('Graph name is required and cannot be empty');
+    await expectToolError(queryGraphReadonlyHandler({ graphName: '', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
   });
 
   it('should reject empty query', async () => {
-    await expect(queryGraphReadonlyHandler({ graphName: 'myGraph', query: '' }))
-      .rejects.toThrow('Query is required and cannot be empty');
+    await expectToolError(queryGraphReadonlyHandler({ graphName: 'myGraph', query: '' }),
+      CommonErrors.INVALID_INPUT, 'Query is required and cannot be empty');
   });
 
   it('should reject whitespace-only graph name', async () => {
-    await expect(queryGraphReadonlyHandler({ graphName: '   ', query: 'MATCH (n) RETURN n' }))
-      .rejects.toThrow('Graph name is required and cannot be empty');
+    await expectToolError(queryGraphReadonlyHandler({ graphName: '   ', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
   });
 
-  it('should propagate service errors', async () => {
+  it('should return service errors as error results', async () => {
     (falkorDBService.executeReadOnlyQuery as jest.Mock).mockRejectedValue(
       new Error('Connection lost')
     );
 
-    await expect(queryGraphReadonlyHandler({ graphName: 'myGraph', query: 'MATCH (n) RETURN n' }))
-      .rejects.toThrow('Connection lost');
+    await expectToolError(queryGraphReadonlyHandler({ graphName: 'myGraph', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.CONNECTION_FAILED, 'Connection lost');
   });
 });
 
@@ -723,7 +909,7 @@ describe('MCP Tools - list_graphs', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockConfig = { falkorDB: { defaultReadOnly: false, strictReadOnly: false } };
+    mockConfig = createMockConfig();
 
     server = {
       registerTool: jest.fn((name, _schema, handler) => {
@@ -734,27 +920,29 @@ describe('MCP Tools - list_graphs', () => {
     registerAllTools(server);
   });
 
-  it('should return newline-separated graph names', async () => {
+  it('should return graph names as an array', async () => {
     (falkorDBService.listGraphs as jest.Mock).mockResolvedValue(['graphA', 'graphB', 'graphC']);
 
     const result = await listGraphsHandler({});
 
     expect(falkorDBService.listGraphs).toHaveBeenCalled();
-    expect(result.content[0].text).toBe('graphA\ngraphB\ngraphC');
+    expect(JSON.parse(result.content[0].text)).toEqual(['graphA', 'graphB', 'graphC']);
+    expect(result.structuredContent).toEqual({ graphs: ['graphA', 'graphB', 'graphC'] });
   });
 
-  it('should return empty string when no graphs exist', async () => {
+  it('should return an empty array when no graphs exist', async () => {
     (falkorDBService.listGraphs as jest.Mock).mockResolvedValue([]);
 
     const result = await listGraphsHandler({});
 
-    expect(result.content[0].text).toBe('');
+    expect(JSON.parse(result.content[0].text)).toEqual([]);
+    expect(result.structuredContent).toEqual({ graphs: [] });
   });
 
-  it('should propagate service errors', async () => {
+  it('should return service errors as error results', async () => {
     (falkorDBService.listGraphs as jest.Mock).mockRejectedValue(new Error('DB unavailable'));
 
-    await expect(listGraphsHandler({})).rejects.toThrow('DB unavailable');
+    await expectToolError(listGraphsHandler({}), CommonErrors.OPERATION_FAILED, 'DB unavailable');
   });
 });
 
@@ -764,7 +952,7 @@ describe('MCP Tools - delete_graph', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockConfig = { falkorDB: { defaultReadOnly: false, strictReadOnly: false } };
+    mockConfig = createMockConfig();
 
     server = {
       registerTool: jest.fn((name, _schema, handler) => {
@@ -785,30 +973,1025 @@ describe('MCP Tools - delete_graph', () => {
   });
 
   it('should reject empty graph name', async () => {
-    await expect(deleteGraphHandler({ graphName: '', confirmDelete: true }))
-      .rejects.toThrow('Graph name is required and cannot be empty');
+    await expectToolError(deleteGraphHandler({ graphName: '', confirmDelete: true }),
+      CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
 
     expect(falkorDBService.deleteGraph).not.toHaveBeenCalled();
   });
 
   it('should reject whitespace-only graph name', async () => {
-    await expect(deleteGraphHandler({ graphName: '   ', confirmDelete: true }))
-      .rejects.toThrow('Graph name is required and cannot be empty');
+    await expectToolError(deleteGraphHandler({ graphName: '   ', confirmDelete: true }),
+      CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
   });
 
   it('should reject deletion in strict read-only mode', async () => {
     mockConfig.falkorDB.strictReadOnly = true;
 
-    await expect(deleteGraphHandler({ graphName: 'myGraph', confirmDelete: true }))
-      .rejects.toThrow('strict read-only mode');
+    await expectToolError(deleteGraphHandler({ graphName: 'myGraph', confirmDelete: true }),
+      CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode');
 
     expect(falkorDBService.deleteGraph).not.toHaveBeenCalled();
   });
 
-  it('should propagate service errors', async () => {
+  it('should return service errors as error results', async () => {
     (falkorDBService.deleteGraph as jest.Mock).mockRejectedValue(new Error('Graph not found'));
 
-    await expect(deleteGraphHandler({ graphName: 'missing', confirmDelete: true }))
-      .rejects.toThrow('Graph not found');
+    await expectToolError(deleteGraphHandler({ graphName: 'missing', confirmDelete: true }),
+      CommonErrors.OPERATION_FAILED, 'Graph not found');
+  });
+});
+
+describe('MCP Tools - explain_query', () => {
+  let server: McpServer;
+  let explainQueryHandler: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, _schema, handler) => {
+        if (name === 'explain_query') explainQueryHandler = handler;
+      }),
+    } as any;
+
+    registerAllTools(server);
+  });
+
+  it('should return the plan tree with warnings for scans and cartesian products', async () => {
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue({
+      operation: 'Results',
+      arguments: [],
+      children: [{
+        operation: 'Cartesian Product',
+        arguments: [],
+        children: [
+          { operation: 'All Node Scan', arguments: ['(a)'], children: [] },
+          { operation: 'Node By Label Scan', arguments: ['(b:Person)'], children: [] },
+        ],
+      }],
+    });
+
+    const result = await explainQueryHandler({ graphName: 'myGraph', query: 'MATCH (a), (b:Person) RETURN a, b' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(falkorDBService.explainQuery).toHaveBeenCalledWith('myGraph', 'MATCH (a), (b:Person) RETURN a, b', undefined, {});
+    expect(parsed.plan.operation).toBe('Results');
+    expect(parsed.warnings.map((w: any) => w.type)).toEqual(['CARTESIAN_PRODUCT', 'ALL_NODES_SCAN', 'LABEL_SCAN']);
+  });
+
+  it('should pass params through to the service', async () => {
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue(null);
+
+    const result = await explainQueryHandler({
+      graphName: 'myGraph',
+      query: 'MATCH (p:Person {name: $name}) RETURN p',
+      params: { name: 'Alice' },
+    });
+
+    expect(falkorDBService.explainQuery).toHaveBeenCalledWith('myGraph', 'MATCH (p:Person {name: $name}) RETURN p', { name: 'Alice' }, {});
+    expect(JSON.parse(result.content[0].text).warnings).toEqual([]);
+  });
+
+  it('should reject empty graph name', async () => {
+    await expectToolError(explainQueryHandler({ graphName: '', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty');
+
+    expect(falkorDBService.explainQuery).not.toHaveBeenCalled();
+  });
+
+  it('should reject empty query', async () => {
+    await expectToolError(explainQueryHandler({ graphName: 'myGraph', query: '  ' }),
+      CommonErrors.INVALID_INPUT, 'Query is required and cannot be empty');
+  });
+
+  it('should return service errors as error results', async () => {
+    (falkorDBService.explainQuery as jest.Mock).mockRejectedValue(new Error('Invalid input'));
+
+    await expectToolError(explainQueryHandler({ graphName: 'myGraph', query: 'MATCH (n RETURN n' }),
+      CommonErrors.QUERY_SYNTAX_ERROR, 'Invalid input');
+  });
+});
+
+describe('MCP Tools - profile_query', () => {
+  let server: McpServer;
+  let profileQueryHandler: any;
+
+  const profiledPlan = {
+    operation: 'Results',
+    arguments: [],
+    recordsProduced: 2,
+    executionTimeMs: 0.001,
+    children: [{
+      operation: 'Node By Label Scan',
+      arguments: ['(n:Person)'],
+      recordsProduced: 2,
+      executionTimeMs: 0.02,
+      children: [],
+    }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, _schema, handler) => {
+        if (name === 'profile_query') profileQueryHandler = handler;
+      }),
+    } as any;
+
+    registerAllTools(server);
+  });
+
+  it('should return per-operator records produced and execution time', async () => {
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue(profiledPlan);
+
+    const result = await profileQueryHandler({ graphName: 'myGraph', query: 'MATCH (n:Person) RETURN n' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(falkorDBService.profileQuery).toHaveBeenCalledWith('myGraph', 'MATCH (n:Person) RETURN n', undefined, {});
+    expect(parsed.operators).toEqual([
+      { operation: 'Results', arguments: [], depth: 0, recordsProduced: 2, executionTimeMs: 0.001 },
+      { operation: 'Node By Label Scan', arguments: ['(n:Person)'], depth: 1, recordsProduced: 2, executionTimeMs: 0.02 },
+    ]);
+    expect(parsed.plan.operation).toBe('Results');
+  });
+
+  it('should forward the timeout and the request abort signal', async () => {
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue(profiledPlan);
+    const controller = new AbortController();
+
+    await profileQueryHandler(
+      { graphName: 'myGraph', query: 'MATCH p=()-[*]->() RETURN p', timeout: 250 },
+      { signal: controller.signal }
+    );
+
+    expect(falkorDBService.profileQuery).toHaveBeenCalledWith(
+      'myGraph',
+      'MATCH p=()-[*]->() RETURN p',
+      undefined,
+      { timeout: 250, signal: controller.signal }
+    );
+  });
+
+  it('should not explain the query first when strict read-only mode is off', async () => {
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue(profiledPlan);
+
+    await profileQueryHandler({ graphName: 'myGraph', query: 'CREATE (n:Person) RETURN n' });
+
+    expect(falkorDBService.explainQuery).not.toHaveBeenCalled();
+    expect(falkorDBService.profileQuery).toHaveBeenCalled();
+  });
+
+  it('should refuse to profile write queries in strict read-only mode', async () => {
+    mockConfig.falkorDB.strictReadOnly = true;
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue({
+      operation: 'Create',
+      arguments: [],
+      children: [],
+    });
+
+    await expectToolError(profileQueryHandler({ graphName: 'myGraph', query: 'CREATE (n:Person)' }),
+      CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode');
+
+    expect(falkorDBService.profileQuery).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to profile procedure calls not known to be read-only in strict read-only mode', async () => {
+    mockConfig.falkorDB.strictReadOnly = true;
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue({
+      operation: 'ProcedureCall',
+      arguments: ['db.idx.fulltext.createNodeIndex'],
+      children: [],
+    });
+
+    await expectToolError(profileQueryHandler({ graphName: 'myGraph', query: "CALL db.idx.fulltext.createNodeIndex('Person', 'name')" }),
+      CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode');
+
+    expect(falkorDBService.profileQuery).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to profile a query whose plan is empty in strict read-only mode', async () => {
+    mockConfig.falkorDB.strictReadOnly = true;
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue(null);
+
+    await expectToolError(profileQueryHandler({ graphName: 'myGraph', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.READ_ONLY_VIOLATION, 'strict read-only mode');
+
+    expect(falkorDBService.profileQuery).not.toHaveBeenCalled();
+  });
+
+  it('should profile read queries in strict read-only mode', async () => {
+    mockConfig.falkorDB.strictReadOnly = true;
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue({
+      operation: 'Results',
+      arguments: [],
+      children: [{ operation: 'Node By Label Scan', arguments: ['(n:Person)'], children: [] }],
+    });
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue(profiledPlan);
+
+    await profileQueryHandler({ graphName: 'myGraph', query: 'MATCH (n:Person) RETURN n' });
+
+    expect(falkorDBService.explainQuery).toHaveBeenCalledWith('myGraph', 'MATCH (n:Person) RETURN n', undefined, {});
+    expect(falkorDBService.profileQuery).toHaveBeenCalled();
+  });
+
+  it('should reject empty query', async () => {
+    await expectToolError(profileQueryHandler({ graphName: 'myGraph', query: '' }),
+      CommonErrors.INVALID_INPUT, 'Query is required and cannot be empty');
+  });
+});
+
+describe('MCP Tools - pagination', () => {
+  let server: McpServer;
+  let queryGraphHandler: any;
+  let queryGraphReadonlyHandler: any;
+  let fetchNextPageHandler: any;
+
+  const fiveRows = { headers: ['n'], data: [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }, { n: 5 }], metadata: [] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, _schema, handler) => {
+        if (name === 'query_graph') queryGraphHandler = handler;
+        if (name === 'query_graph_readonly') queryGraphReadonlyHandler = handler;
+        if (name === 'fetch_next_page') fetchNextPageHandler = handler;
+      }),
+    } as any;
+
+    registerAllTools(server);
+  });
+
+  it('should return the first page and a cursor that walks the remaining rows', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue(fiveRows);
+    const extra = { sessionId: 'session-a' };
+
+    const first = JSON.parse((await queryGraphHandler(
+      { graphName: 'test', query: 'MATCH (n) RETURN n', paginate: true, maxResults: 2 },
+      extra
+    )).content[0].text);
+    const second = JSON.parse((await fetchNextPageHandler({ cursor: first.pagination.cursor }, extra)).content[0].text);
+    const third = JSON.parse((await fetchNextPageHandler({ cursor: second.pagination.cursor }, extra)).content[0].text);
+
+    expect(first.data).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(first.pagination).toEqual(expect.objectContaining({ hasMore: true, totalRows: 5, returnedRows: 2 }));
+    expect(second.data).toEqual([{ n: 3 }, { n: 4 }]);
+    expect(third.data).toEqual([{ n: 5 }]);
+    expect(third.pagination.hasMore).toBe(false);
+    expect(third.pagination.cursor).toBeUndefined();
+  });
+
+  it('should use the configured row limit as the page size', async () => {
+    mockConfig.mcp.maxResultRows = 3;
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue(fiveRows);
+
+    const result = await queryGraphReadonlyHandler({ graphName: 'test', query: 'MATCH (n) RETURN n', paginate: true });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.data).toHaveLength(3);
+    expect(parsed.truncation).toBeUndefined();
+    expect(parsed.pagination.hasMore).toBe(true);
+  });
+
+  it('should not let another session use the cursor', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue(fiveRows);
+
+    const first = JSON.parse((await queryGraphHandler(
+      { graphName: 'test', query: 'MATCH (n) RETURN n', paginate: true, maxResults: 2 },
+      { sessionId: 'session-a' }
+    )).content[0].text);
+
+    await expectToolError(fetchNextPageHandler({ cursor: first.pagination.cursor }, { sessionId: 'session-b' }),
+      CommonErrors.RESOURCE_NOT_FOUND, 'Cursor not found or expired');
+  });
+
+  it('should reject unknown cursors', async () => {
+    await expectToolError(fetchNextPageHandler({ cursor: 'does-not-exist' }),
+      CommonErrors.RESOURCE_NOT_FOUND, 'Cursor not found or expired');
+  });
+});
+
+describe('MCP Tools - result formats', () => {
+  let server: McpServer;
+  let queryGraphHandler: any;
+
+  const nodeReply = {
+    metadata: ['Nodes created: 0', 'Query internal execution time: 0.25 milliseconds'],
+    data: [{
+      p: { id: 1, labels: ['Person'], properties: { name: 'Alice' } },
+      r: { id: 7, relationshipType: 'KNOWS', sourceId: 1, destinationId: 2, properties: {} },
+    }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, _schema, handler) => {
+        if (name === 'query_graph') queryGraphHandler = handler;
+      }),
+    } as any;
+
+    registerAllTools(server);
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue(nodeReply);
+  });
+
+  it('should default to json with a separate statistics section', async () => {
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (p)-[r]->() RETURN p, r' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.data).toEqual(nodeReply.data);
+    expect(parsed.statistics).toEqual({ nodesCreated: 0, executionTimeMs: 0.25 });
+  });
+
+  it('should return compact columns and rows', async () => {
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (p)-[r]->() RETURN p, r', format: 'compact' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.columns).toEqual(['p', 'r']);
+    expect(parsed.rows).toEqual([[
+      { id: 1, labels: ['Person'], props: { name: 'Alice' } },
+      { id: 7, type: 'KNOWS', src: 1, dst: 2, props: {} },
+    ]]);
+    expect(parsed.statistics.executionTimeMs).toBe(0.25);
+  });
+
+  it('should use the configured default format', async () => {
+    (mockConfig.mcp as any).resultFormat = 'csv';
+
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (p)-[r]->() RETURN p, r' });
+
+    expect(result.content[0].text.split('\n')[0]).toBe('p,r');
+  });
+
+  it('should reject unknown formats', async () => {
+    await expect(queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n', format: 'xml' }))
+      .rejects.toThrow();
+  });
+});
+
+describe('MCP Tools - structured output', () => {
+  let server: McpServer;
+  const tools: Record<string, { outputSchema: any; handler: any }> = {};
+
+  // Validate structuredContent the same way the SDK does before sending it to the client
+  const expectMatchesOutputSchema = (name: string, structuredContent: unknown) => {
+    expect(() => z.object(tools[name].outputSchema).strict().parse(structuredContent)).not.toThrow();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, definition, handler) => {
+        tools[name] = { outputSchema: definition.outputSchema, handler };
+      }),
+    } as any;
+
+    registerAllTools(server);
+  });
+
+  it('should declare an output schema for every tool', () => {
+    for (const [name, tool] of Object.entries(tools)) {
+      expect({ name, hasOutputSchema: tool.outputSchema !== undefined }).toEqual({ name, hasOutputSchema: true });
+    }
+  });
+
+  it('should return query rows, metadata and statistics for query_graph', async () => {
+    // Arrange
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({
+      metadata: ['Nodes created: 1', 'Query internal execution time: 0.3 milliseconds'],
+      data: [{ name: 'Alice' }],
+    });
+
+    // Act
+    const result = await tools['query_graph'].handler({ graphName: 'test', query: 'CREATE (n {name: "Alice"}) RETURN n.name AS name' });
+
+    // Assert
+    expect(result.structuredContent).toEqual({
+      data: [{ name: 'Alice' }],
+      metadata: ['Nodes created: 1', 'Query internal execution time: 0.3 milliseconds'],
+      statistics: { nodesCreated: 1, executionTimeMs: 0.3 },
+    });
+    expectMatchesOutputSchema('query_graph', result.structuredContent);
+  });
+
+  it('should return an empty row list for queries without RETURN', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ metadata: ['Nodes deleted: 2'] });
+
+    const result = await tools['query_graph'].handler({ graphName: 'test', query: 'MATCH (n) DELETE n' });
+
+    expect(result.structuredContent.data).toEqual([]);
+    expectMatchesOutputSchema('query_graph', result.structuredContent);
+  });
+
+  it('should keep structured rows uncompacted regardless of the text format', async () => {
+    const node = { id: 1, labels: ['Person'], properties: { name: 'Alice' } };
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ metadata: [], data: [{ n: node }] });
+
+    const result = await tools['query_graph_readonly'].handler({ graphName: 'test', query: 'MATCH (n) RETURN n', format: 'csv' });
+
+    expect(result.structuredContent.data).toEqual([{ n: node }]);
+    expectMatchesOutputSchema('query_graph_readonly', result.structuredContent);
+  });
+
+  it('should include truncation and pagination sections in the structured result', async () => {
+    // Arrange
+    mockConfig.mcp.maxResultRows = 1;
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ metadata: [], data: [{ x: 1 }, { x: 2 }] });
+
+    // Act
+    const truncated = await tools['query_graph'].handler({ graphName: 'test', query: 'UNWIND [1, 2] AS x RETURN x' });
+    const paged = await tools['query_graph'].handler({ graphName: 'test', query: 'UNWIND [1, 2] AS x RETURN x', paginate: true });
+    const next = await tools['fetch_next_page'].handler({ cursor: paged.structuredContent.pagination.cursor });
+
+    // Assert
+    expect(truncated.structuredContent.truncation).toMatchObject({ reason: 'maxRows', totalRows: 2, returnedRows: 1 });
+    expectMatchesOutputSchema('query_graph', truncated.structuredContent);
+    expect(paged.structuredContent.pagination).toMatchObject({ hasMore: true, totalRows: 2 });
+    expectMatchesOutputSchema('query_graph', paged.structuredContent);
+    expect(next.structuredContent.data).toEqual([{ x: 2 }]);
+    expectMatchesOutputSchema('fetch_next_page', next.structuredContent);
+  });
+
+  it('should return the graph schema as structured content', async () => {
+    // Arrange
+    (falkorDBService.executeReadOnlyQuery as jest.Mock)
+      .mockResolvedValueOnce({ data: [{ label: 'Person' }] })
+      .mockResolvedValueOnce({ data: [{ relationshipType: 'KNOWS' }] })
+      .mockResolvedValueOnce({ data: [{ source: ['Person'], relationship: 'KNOWS', target: ['Person'] }] });
+
+    // Act
+    const result = await tools['get_graph_schema'].handler({ graphName: 'test' });
+
+    // Assert
+    expect(result.structuredContent).toEqual(JSON.parse(result.content[0].text));
+    expect(result.structuredContent.nodeLabels).toEqual(['Person']);
+    expectMatchesOutputSchema('get_graph_schema', result.structuredContent);
+  });
+
+  it('should return node and relationship property frequencies as structured content', async () => {
+    // Arrange
+    (falkorDBService.executeReadOnlyQuery as jest.Mock)
+      .mockResolvedValueOnce({ data: [{ property: 'name', frequency: 3 }] })
+      .mockResolvedValueOnce({ data: [{ sampledCount: 3 }] })
+      .mockResolvedValueOnce({ data: [{ property: 'since', frequency: 2 }] })
+      .mockResolvedValueOnce({ data: [{ sampledCount: 2 }] });
+
+    // Act
+    const nodes = await tools['get_node_schema'].handler({ graphName: 'test', label: 'Person' });
+    const relationships = await tools['get_relationship_schema'].handler({ graphName: 'test', relationshipType: 'KNOWS' });
+
+    // Assert
+    expect(nodes.structuredContent).toEqual({ label: 'Person', requestedSampleSize: 100, sampledCount: 3, properties: [{ property: 'name', frequency: 3 }] });
+    expectMatchesOutputSchema('get_node_schema', nodes.structuredContent);
+    expect(relationships.structuredContent.sampledCount).toBe(2);
+    expectMatchesOutputSchema('get_relationship_schema', relationships.structuredContent);
+  });
+
+  it('should return plans and deletions as structured content', async () => {
+    // Arrange
+    const plan = { operation: 'Results', arguments: [], children: [] };
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue(plan);
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue({ ...plan, recordsProduced: 1, executionTimeMs: 0.1 });
+    (falkorDBService.deleteGraph as jest.Mock).mockResolvedValue(undefined);
+
+    // Act
+    const explained = await tools['explain_query'].handler({ graphName: 'test', query: 'MATCH (n) RETURN n' });
+    const profiled = await tools['profile_query'].handler({ graphName: 'test', query: 'MATCH (n) RETURN n' });
+    const deleted = await tools['delete_graph'].handler({ graphName: 'test', confirmDelete: true });
+
+    // Assert
+    expect(explained.structuredContent).toEqual({ plan, warnings: [] });
+    expectMatchesOutputSchema('explain_query', explained.structuredContent);
+    expect(profiled.structuredContent.operators).toHaveLength(1);
+    expectMatchesOutputSchema('profile_query', profiled.structuredContent);
+    expect(deleted.structuredContent).toEqual({ graphName: 'test', deleted: true });
+    expectMatchesOutputSchema('delete_graph', deleted.structuredContent);
+  });
+});
+
+describe('MCP Tools - error results', () => {
+  let server: McpServer;
+  let queryGraphHandler: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+
+    server = {
+      registerTool: jest.fn((name, _schema, handler) => {
+        if (name === 'query_graph') queryGraphHandler = handler;
+      }),
+    } as any;
+
+    registerAllTools(server);
+  });
+
+  it('should return the code, message, hint and details of service errors', async () => {
+    // Arrange
+    (falkorDBService.executeQuery as jest.Mock).mockRejectedValue(new AppError(
+      CommonErrors.QUERY_SYNTAX_ERROR,
+      "Failed to execute query on graph 'test': errMsg: Invalid input line: 1, column: 10, offset: 9",
+      true,
+      { hint: 'Fix the OpenCypher syntax at line 1, column 10 and run the query again.', details: { line: 1, column: 10, offset: 9 } }
+    ));
+
+    // Act
+    const error = await expectToolError(
+      queryGraphHandler({ graphName: 'test', query: 'MATCH (n RETURN n' }),
+      CommonErrors.QUERY_SYNTAX_ERROR, 'Invalid input'
+    );
+
+    // Assert
+    expect(error.hint).toContain('line 1, column 10');
+    expect(error.details).toEqual({ line: 1, column: 10, offset: 9 });
+  });
+
+  it('should fall back to the generic hint for the error code', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockRejectedValue(new AppError(CommonErrors.QUERY_TIMEOUT, 'Query timed out', true));
+
+    const error = await expectToolError(
+      queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.QUERY_TIMEOUT
+    );
+
+    expect(error.hint).toContain('timeout');
+    expect(error.details).toBeUndefined();
+  });
+
+  it('should categorize raw FalkorDB errors', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockRejectedValue(new Error("Unknown function 'foo'"));
+
+    const error = await expectToolError(
+      queryGraphHandler({ graphName: 'test', query: 'RETURN foo(1)' }),
+      CommonErrors.UNKNOWN_FUNCTION
+    );
+
+    expect(error.details).toEqual({ function: 'foo' });
+  });
+
+  it('should not return structured content for errors', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockRejectedValue(new Error('boom'));
+
+    const result = await queryGraphHandler({ graphName: 'test', query: 'MATCH (n) RETURN n' });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+describe('MCP Tools - annotations and strict read-only registration', () => {
+  const registerTools = () => {
+    const definitions: Record<string, any> = {};
+    const server = {
+      registerTool: jest.fn((name, definition) => {
+        definitions[name] = definition;
+      }),
+    } as any;
+    registerAllTools(server);
+    return definitions;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+  });
+
+  it('should annotate every tool with read-only, destructive and idempotent hints', () => {
+    const definitions = registerTools();
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      expect({ name, hints: Object.keys(definition.annotations ?? {}).sort() })
+        .toEqual({ name, hints: ['destructiveHint', 'idempotentHint', 'readOnlyHint'] });
+    }
+  });
+
+  it('should mark write-capable tools as destructive and read tools as read-only', () => {
+    const definitions = registerTools();
+
+    expect(definitions['query_graph'].annotations).toEqual({ readOnlyHint: false, destructiveHint: true, idempotentHint: false });
+    expect(definitions['delete_graph'].annotations).toEqual({ readOnlyHint: false, destructiveHint: true, idempotentHint: true });
+    expect(definitions['profile_query'].annotations.readOnlyHint).toBe(false);
+    for (const name of ['query_graph_readonly', 'explain_query', 'list_graphs', 'get_graph_schema', 'get_node_schema', 'get_relationship_schema', 'list_sessions', 'list_connections']) {
+      expect(definitions[name].annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true });
+    }
+    expect(definitions['fetch_next_page'].annotations.readOnlyHint).toBe(true);
+  });
+
+  it('should register every tool when strict read-only mode is off', () => {
+    const definitions = registerTools();
+
+    expect(Object.keys(definitions)).toEqual(expect.arrayContaining(['query_graph', 'delete_graph']));
+  });
+
+  it('should register only allowlisted tools', () => {
+    // Arrange
+    mockConfig.mcp.surface.tools.enabled = ['list_graphs', 'get_graph_schema', 'get_node_schema'];
+
+    // Act
+    const definitions = registerTools();
+
+    // Assert
+    expect(Object.keys(definitions)).toEqual(['list_graphs', 'get_graph_schema', 'get_node_schema']);
+  });
+
+  it('should skip denylisted tools and return the registered names', () => {
+    // Arrange
+    mockConfig.mcp.surface.tools.disabled = ['query_graph', 'delete_graph', 'profile_query'];
+    const server = { registerTool: jest.fn() } as any;
+
+    // Act
+    const registered = registerAllTools(server);
+
+    // Assert
+    expect(registered).not.toEqual(expect.arrayContaining(['query_graph']));
+    expect(registered).toContain('query_graph_readonly');
+    expect(registered).toHaveLength(9);
+    expect(server.registerTool).toHaveBeenCalledTimes(9);
+  });
+
+  it('should hide write tools from read-only roles and delete_graph from read-write roles', () => {
+    // Arrange
+    const register = (role: 'read-only' | 'read-write' | 'admin') => {
+      const names: string[] = [];
+      registerAllTools({ registerTool: jest.fn((name) => { names.push(name); }) } as any, { role });
+      return names;
+    };
+
+    // Act
+    const readOnly = register('read-only');
+    const readWrite = register('read-write');
+    const admin = register('admin');
+
+    // Assert
+    expect(readOnly).not.toContain('query_graph');
+    expect(readOnly).not.toContain('delete_graph');
+    expect(readOnly).toContain('query_graph_readonly');
+    expect(readWrite).toContain('query_graph');
+    expect(readWrite).not.toContain('delete_graph');
+    expect(readWrite).not.toContain('list_sessions');
+    expect(admin).toEqual(expect.arrayContaining(['query_graph', 'delete_graph', 'list_sessions']));
+  });
+
+  it('should refuse to profile write queries for read-only roles', async () => {
+    // Arrange
+    let profileHandler: any;
+    const definitions: Record<string, any> = {};
+    registerAllTools({
+      registerTool: jest.fn((name, definition, handler) => {
+        definitions[name] = definition;
+        if (name === 'profile_query') profileHandler = handler;
+      }),
+    } as any, { role: 'read-only', principal: 'analytics' });
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue({
+      operation: 'Create', arguments: [], children: [],
+    });
+
+    // Act
+    await expectToolError(
+      profileHandler({ graphName: 'test', query: 'CREATE (n)' }),
+      CommonErrors.READ_ONLY_VIOLATION, 'your role (read-only) does not allow writes'
+    );
+
+    // Assert
+    expect(falkorDBService.profileQuery).not.toHaveBeenCalled();
+    expect(definitions['profile_query'].annotations.readOnlyHint).toBe(true);
+  });
+
+  it('should not register write-capable tools in strict read-only mode', () => {
+    // Arrange
+    mockConfig.falkorDB.strictReadOnly = true;
+
+    // Act
+    const definitions = registerTools();
+
+    // Assert
+    expect(definitions['query_graph']).toBeUndefined();
+    expect(definitions['delete_graph']).toBeUndefined();
+    expect(definitions['query_graph_readonly']).toBeDefined();
+    expect(definitions['profile_query'].annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true });
+  });
+});
+
+describe('MCP Tools - caller graph limits', () => {
+  let handlers: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    handlers = {};
+
+    registerAllTools({
+      registerTool: jest.fn((name, _definition, handler) => {
+        handlers[name] = handler;
+      }),
+    } as any, { role: 'admin', principal: 'jwt:alice', graphs: ['team_a_*', 'shared'] });
+  });
+
+  it('should only list the graphs the caller may use', async () => {
+    (falkorDBService.listGraphs as jest.Mock).mockResolvedValue(['team_a_movies', 'team_b_movies', 'shared']);
+
+    const result = await handlers['list_graphs']({});
+
+    expect(result.structuredContent).toEqual({ graphs: ['team_a_movies', 'shared'] });
+  });
+
+  it('should refuse queries against other graphs', async () => {
+    await expectToolError(
+      handlers['query_graph']({ graphName: 'team_b_movies', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.PERMISSION_DENIED, "Access to graph 'team_b_movies' is not allowed"
+    );
+
+    expect(falkorDBService.executeQuery).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to delete other graphs', async () => {
+    await expectToolError(handlers['delete_graph']({ graphName: 'team_b_movies', confirmDelete: true }), CommonErrors.PERMISSION_DENIED);
+
+    expect(falkorDBService.deleteGraph).not.toHaveBeenCalled();
+  });
+
+  it('should run queries against allowed graphs', async () => {
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+
+    const result = await handlers['query_graph_readonly']({ graphName: 'team_a_movies', query: 'MATCH (n) RETURN n' });
+
+    expect(result.isError).toBeUndefined();
+    expect(falkorDBService.executeReadOnlyQuery).toHaveBeenCalled();
+  });
+});
+
+describe('MCP Tools - audit log', () => {
+  let handlers: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    handlers = {};
+
+    registerAllTools({
+      registerTool: jest.fn((name, _definition, handler) => {
+        handlers[name] = handler;
+      }),
+    } as any, { role: 'read-write', principal: 'etl' });
+  });
+
+  it('should record successful write queries with the caller and full query', async () => {
+    // Arrange
+    const query = `CREATE (n:Person {name: $name}) ${'SET n.note = "x" '.repeat(20)}RETURN n`;
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+
+    // Act
+    await handlers['query_graph']({ graphName: 'people', query, params: { name: 'Alice' } }, { sessionId: 'session-1' });
+
+    // Assert
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      sessionId: 'session-1',
+      principal: 'etl',
+      role: 'read-write',
+      tool: 'query_graph',
+      graph: 'people',
+      query,
+      params: { name: 'Alice' },
+      operation: 'write',
+      outcome: 'success',
+      durationMs: expect.any(Number),
+    }));
+  });
+
+  it('should count calls in the tool call metrics', async () => {
+    (falkorDBService.listGraphs as jest.Mock).mockResolvedValue([]);
+
+    await handlers['list_graphs']({});
+
+    expect(metricsService.render()).toMatch(/falkordb_mcp_tool_calls_total\{tool="list_graphs",outcome="success"\} [1-9]/);
+  });
+
+  it('should classify read-only query_graph calls as reads', async () => {
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+
+    await handlers['query_graph']({ graphName: 'people', query: 'MATCH (n) RETURN n', readOnly: true });
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ operation: 'read' }));
+  });
+
+  it('should classify profiled queries by their plan', async () => {
+    // Arrange
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue({
+      operation: 'Create', arguments: [], children: [], recordsProduced: 1, executionTimeMs: 0.1,
+    });
+
+    // Act
+    await handlers['profile_query']({ graphName: 'people', query: 'CREATE (n)' });
+
+    // Assert
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ tool: 'profile_query', operation: 'write' }));
+  });
+
+  it('should record failed calls with their error code', async () => {
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockRejectedValue(new Error('Query timed out'));
+
+    await handlers['query_graph_readonly']({ graphName: 'people', query: 'MATCH (n) RETURN n' });
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      tool: 'query_graph_readonly',
+      operation: 'read',
+      outcome: 'error',
+      errorCode: CommonErrors.QUERY_TIMEOUT,
+    }));
+  });
+
+  it('should record calls rejected by input validation', async () => {
+    await expect(handlers['query_graph']({ graphName: 'people' })).rejects.toThrow();
+
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      tool: 'query_graph',
+      outcome: 'error',
+      errorCode: CommonErrors.INVALID_INPUT,
+    }));
+  });
+});
+
+describe('MCP Tools - rate limits', () => {
+  let handlers: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    handlers = {};
+
+    registerAllTools({
+      registerTool: jest.fn((name, _definition, handler) => {
+        handlers[name] = handler;
+      }),
+    } as any, { role: 'read-only', principal: 'analytics' });
+  });
+
+  it('should count each call against the caller session and key', async () => {
+    (falkorDBService.listGraphs as jest.Mock).mockResolvedValue([]);
+
+    await handlers['list_graphs']({}, { sessionId: 'session-1' });
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith({ role: 'read-only', principal: 'analytics' }, 'session-1');
+  });
+
+  it('should return a retry-after error without running the tool when a limit is exhausted', async () => {
+    // Arrange
+    (rateLimitService.consume as jest.Mock).mockImplementationOnce(() => {
+      throw new AppError(CommonErrors.RATE_LIMITED, 'Rate limit exceeded for this session', true, {
+        details: { limit: 'session', retryAfterSeconds: 3 },
+      });
+    });
+
+    // Act
+    const error = await expectToolError(
+      handlers['query_graph_readonly']({ graphName: 'people', query: 'MATCH (n) RETURN n' }),
+      CommonErrors.RATE_LIMITED, 'Rate limit exceeded'
+    );
+
+    // Assert
+    expect(error.details).toEqual({ limit: 'session', retryAfterSeconds: 3 });
+    expect(falkorDBService.executeReadOnlyQuery).not.toHaveBeenCalled();
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'error', errorCode: CommonErrors.RATE_LIMITED }));
+  });
+});
+
+describe('MCP Tools - list_sessions', () => {
+  it('should return the open sessions to admins', async () => {
+    // Arrange
+    let listSessionsHandler: any;
+    registerAllTools({
+      registerTool: jest.fn((name, _definition, handler) => {
+        if (name === 'list_sessions') listSessionsHandler = handler;
+      }),
+    } as any, { role: 'admin', principal: 'ops' });
+    const sessions = [{
+      sessionId: 'session-1',
+      principal: 'etl',
+      role: 'read-write',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      lastActivityAt: '2025-01-01T00:05:00.000Z',
+      idleMs: 1000,
+    }];
+    (sessionManager.list as jest.Mock).mockReturnValue(sessions);
+
+    // Act
+    const result = await listSessionsHandler({});
+
+    // Assert
+    expect(result.structuredContent).toEqual({ sessions });
+    expect(JSON.parse(result.content[0].text)).toEqual(sessions);
+  });
+});
+
+describe('MCP Tools - named connections', () => {
+  let handlers: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    handlers = {};
+
+    registerAllTools({
+      registerTool: jest.fn((name, _definition, handler) => {
+        handlers[name] = handler;
+      }),
+    } as any, { role: 'admin', principal: 'ops' });
+  });
+
+  it('should use the default connection when none is given', async () => {
+    // Arrange
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+
+    // Act
+    await handlers['query_graph_readonly']({ graphName: 'people', query: 'MATCH (n) RETURN n' });
+
+    // Assert
+    expect(falkorDBConnections.get).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should run every FalkorDB tool against the selected connection', async () => {
+    // Arrange
+    (falkorDBService.executeQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+    (falkorDBService.executeReadOnlyQuery as jest.Mock).mockResolvedValue({ data: [], metadata: [] });
+    (falkorDBService.explainQuery as jest.Mock).mockResolvedValue(null);
+    (falkorDBService.profileQuery as jest.Mock).mockResolvedValue(null);
+    (falkorDBService.listGraphs as jest.Mock).mockResolvedValue([]);
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ['query_graph', { graphName: 'people', query: 'MATCH (n) RETURN n' }],
+      ['query_graph_readonly', { graphName: 'people', query: 'MATCH (n) RETURN n' }],
+      ['explain_query', { graphName: 'people', query: 'MATCH (n) RETURN n' }],
+      ['profile_query', { graphName: 'people', query: 'MATCH (n) RETURN n' }],
+      ['list_graphs', {}],
+      ['delete_graph', { graphName: 'people', confirmDelete: true }],
+      ['get_graph_schema', { graphName: 'people' }],
+      ['get_node_schema', { graphName: 'people', label: 'Person' }],
+      ['get_relationship_schema', { graphName: 'people', relationshipType: 'KNOWS' }],
+    ];
+
+    for (const [tool, args] of calls) {
+      // Act
+      (falkorDBConnections.get as jest.Mock).mockClear();
+      const result = await handlers[tool]({ ...args, connection: 'staging' });
+
+      // Assert
+      expect({ tool, isError: result.isError }).toEqual({ tool, isError: undefined });
+      expect(falkorDBConnections.get).toHaveBeenCalledWith('staging');
+    }
+  });
+
+  it('should report unknown connections as tool errors', async () => {
+    // Arrange
+    (falkorDBConnections.get as jest.Mock).mockImplementationOnce((name: string) => {
+      throw new AppError(CommonErrors.RESOURCE_NOT_FOUND, `Unknown connection '${name}'. Available connections: default, staging`, true);
+    });
+
+    // Act & Assert
+    await expectToolError(
+      handlers['query_graph_readonly']({ graphName: 'people', query: 'MATCH (n) RETURN n', connection: 'prod' }),
+      CommonErrors.RESOURCE_NOT_FOUND, "Unknown connection 'prod'"
+    );
+    expect(falkorDBService.executeReadOnlyQuery).not.toHaveBeenCalled();
+  });
+
+  it('should record the selected connection in the audit log', async () => {
+    // Arrange
+    (falkorDBService.listGraphs as jest.Mock).mockResolvedValue([]);
+
+    // Act
+    await handlers['list_graphs']({ connection: 'staging' });
+
+    // Assert
+    expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({ tool: 'list_graphs', connection: 'staging' }));
+  });
+
+  it('should list the connections with their status', async () => {
+    // Arrange
+    const connections = [
+      { name: 'default', default: true, host: 'localhost', port: 6379, tls: false, status: 'connected' },
+      { name: 'staging', default: false, host: 'staging.internal', port: 6380, tls: true, status: 'disconnected', lastError: 'ECONNREFUSED' },
+    ];
+    (falkorDBConnections.list as jest.Mock).mockReturnValue(connections);
+
+    // Act
+    const result = await handlers['list_connections']({});
+
+    // Assert
+    expect(result.structuredContent).toEqual({ connections });
+    expect(JSON.parse(result.content[0].text)).toEqual(connections);
+  });
+
+  it('should offer list_connections to read-only roles', () => {
+    const names: string[] = [];
+    registerAllTools({ registerTool: jest.fn((name) => { names.push(name); }) } as any, { role: 'read-only' });
+
+    expect(names).toContain('list_connections');
   });
 });
@@ -1,9 +1,21 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { z } from 'zod';
-import { falkorDBService } from '../services/falkordb.service.js';
+import { falkorDBConnections } from '../services/falkordb-connections.service.js';
 import { logger } from '../services/logger.service.js';
-import { AppError, CommonErrors } from '../errors/AppError.js';
+import { AppError, CommonErrors, ErrorHints } from '../errors/AppError.js';
 import { config } from '../config/index.js';
+import { findPlanWarnings, flattenProfile, isWritePlan } from '../utils/execution-plan.js';
+import { limitQueryResult } from '../utils/result-limits.js';
+import { cursorStore, DEFAULT_SESSION_KEY } from '../services/cursor.service.js';
+import { AuditOperation, auditService } from '../services/audit.service.js';
+import { rateLimitService } from '../services/rate-limit.service.js';
+import { metricsService } from '../services/metrics.service.js';
+import { sessionManager } from '../services/session.service.js';
+import { formatQueryResult, RESULT_FORMATS, toStructuredQueryResult } from '../utils/result-formatter.js';
+import { classifyFalkorDBError } from '../utils/falkordb-errors.js';
+import { isSurfaceEnabled } from './surface.js';
+import { AccessContext, canAccessGraph, FULL_ACCESS, Role, roleAllows } from '../models/access.types.js';
 
 // FalkorDB query parameter values: JSON-like primitives, arrays, and maps.
 // Parameter names — and nested map keys — must be valid identifiers because the
@@ -34,6 +46,24 @@ const queryParamValueSchema: z.ZodType<QueryParamValue> = z.lazy(() =>
   ])
 );
 
+// The parts of the SDK's per-request context the tool handlers use
+type ToolExtra = Partial<Pick<RequestHandlerExtra<any, any>, 'signal' | 'sessionId'>>;
+
+const queryTimeoutSchema = z.number().int().min(1).optional()
+  .describe("Query timeout in milliseconds, enforced by FalkorDB. Defaults to FALKORDB_QUERY_TIMEOUT (no timeout when unset). If the client cancels the request, the tool stops waiting and returns a cancellation error.");
+
+const maxResultsSchema = z.number().int().min(1).optional()
+  .describe("Maximum number of rows to return for this call. Defaults to MCP_MAX_RESULT_ROWS. The server byte limit (MCP_MAX_RESULT_BYTES) still applies. When rows are dropped, the response includes a 'truncation' section with totalRows, returnedRows and a hint.");
+
+const paginateSchema = z.boolean().optional()
+  .describe("If true, return the result page by page instead of truncating it. Each page holds up to maxResults rows (default MCP_MAX_RESULT_ROWS); when more rows remain, the response's 'pagination' section contains a cursor for fetch_next_page.");
+
+const resultFormatSchema = z.enum(RESULT_FORMATS).optional()
+  .describe("How to serialize the result. 'json': the FalkorDB reply as-is; 'compact': {columns, rows} with nodes as {id, labels, props}, edges as {id, type, src, dst, props} and paths as {nodes, edges}; 'markdown': a markdown table; 'csv': CSV. Query statistics (nodes created, properties set, execution time, ...) are returned in a separate 'statistics' section. Defaults to MCP_RESULT_FORMAT (json).");
+
+const connectionSchema = z.string().min(1).optional()
+  .describe("Name of the FalkorDB connection to run against, as listed by list_connections. Defaults to the default connection.");
+
 const queryParamsSchema = z.record(paramIdentifierKey, queryParamValueSchema).optional()
   .describe("Optional query parameters, referenced in the query as $name. Parameter names (including nested map keys) must be valid identifiers. Note: FalkorDB does not allow parameters in LIMIT/SKIP clauses.");
 
@@ -43,50 +73,264 @@ const queryGraphSchema = {
   query: z.string().describe("The OpenCypher query to run"),
   params: queryParamsSchema,
   readOnly: z.boolean().optional().describe("If true, executes as a read-only query (GRAPH.RO_QUERY). Useful for replica instances or to prevent accidental writes. Defaults to FALKORDB_DEFAULT_READONLY environment variable."),
+  timeout: queryTimeoutSchema,
+  maxResults: maxResultsSchema,
+  paginate: paginateSchema,
+  format: resultFormatSchema,
+  connection: connectionSchema,
 };
 
 const queryGraphReadOnlySchema = {
   graphName: z.string().describe("The name of the graph to query"),
   query: z.string().describe("The read-only OpenCypher query to run (write operations will fail)"),
   params: queryParamsSchema,
+  timeout: queryTimeoutSchema,
+  maxResults: maxResultsSchema,
+  paginate: paginateSchema,
+  format: resultFormatSchema,
+  connection: connectionSchema,
+};
+
+const explainQuerySchema = {
+  graphName: z.string().describe("The name of the graph to plan the query against"),
+  query: z.string().describe("The OpenCypher query to explain. The query is planned but not executed."),
+  params: queryParamsSchema,
+  connection: connectionSchema,
+};
+
+const profileQuerySchema = {
+  graphName: z.string().describe("The name of the graph to profile the query against"),
+  query: z.string().describe("The OpenCypher query to profile. The query IS executed, so write queries will modify the graph."),
+  params: queryParamsSchema,
+  timeout: queryTimeoutSchema,
+  connection: connectionSchema,
+};
+
+const listGraphsSchema = {
+  connection: connectionSchema,
+};
+
+const fetchNextPageSchema = {
+  cursor: z.string().min(1).describe("The cursor returned in the 'pagination' section of the previous page"),
+  format: resultFormatSchema,
 };
 
 const deleteGraphSchema = {
   graphName: z.string().describe("The name of the graph to delete"),
   confirmDelete: z.literal(true).describe("Must be set to true to confirm deletion. This is a safety measure to prevent accidental data loss."),
+  connection: connectionSchema,
 };
 
 const getGraphSchemaSchema = {
   graphName: z.string().describe("Name of the graph. Use the list_graphs tool to discover available graphs."),
   includeConnections: z.boolean().optional().describe("If true (default), include the relationship connection topology. Each connection is { source, relationship, target } where source and target are arrays of node labels (a node may have multiple labels) and relationship is the relationship type. Derived from a bounded sample of relationships; set to false to skip it entirely on very large graphs to reduce cost and response size."),
   connectionSampleSize: z.number().int().min(1).max(100000).optional().describe("Maximum number of relationships to scan when deriving connection topology (default: 10000). Bounds query cost on large graphs; topology derived from the sample may be incomplete if the graph has more relationships than this."),
+  connection: connectionSchema,
 };
 
 const getNodeSchemaSchema = {
   graphName: z.string().describe("Name of the graph. Use the list_graphs tool to discover available graphs."),
   label: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe("Node label to inspect"),
   sampleSize: z.number().int().min(1).max(10000).optional().describe("Number of nodes to sample (default: 100). Larger values improve property coverage at the cost of query time."),
+  connection: connectionSchema,
 };
 
 const getRelationshipSchemaSchema = {
   graphName: z.string().describe("Name of the graph. Use the list_graphs tool to discover available graphs."),
   relationshipType: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe("Relationship type to inspect"),
   sampleSize: z.number().int().min(1).max(10000).optional().describe("Number of relationships to sample (default: 100). Larger values improve property coverage at the cost of query time."),
+  connection: connectionSchema,
+};
+
+// Output schemas describe each tool's structuredContent; the text content carries the same data serialized
+const queryResultOutputSchema = {
+  data: z.array(z.record(z.string(), z.unknown())).describe("Result rows, one object per row keyed by the RETURN column names. Empty for queries without RETURN."),
+  metadata: z.array(z.string()).describe("Raw statistics lines reported by FalkorDB"),
+  statistics: z.record(z.string(), z.union([z.number(), z.string()])).describe("Parsed query statistics, e.g. nodesCreated, propertiesSet, executionTimeMs"),
+  truncation: z.object({
+    truncated: z.literal(true),
+    reason: z.enum(['maxRows', 'maxBytes']),
+    totalRows: z.number().int(),
+    returnedRows: z.number().int(),
+    hint: z.string(),
+  }).optional().describe("Present when rows were dropped to fit the result limits"),
+  pagination: z.object({
+    cursor: z.string().optional(),
+    hasMore: z.boolean(),
+    totalRows: z.number().int(),
+    offset: z.number().int(),
+    returnedRows: z.number().int(),
+  }).optional().describe("Present for paginated results; pass cursor to fetch_next_page while hasMore is true"),
+};
+
+const planOutputSchema = z.record(z.string(), z.unknown()).nullable()
+  .describe("Root of the execution plan tree: { operation, arguments, children }, or null for an empty plan");
+
+const explainQueryOutputSchema = {
+  plan: planOutputSchema,
+  warnings: z.array(z.object({
+    type: z.enum(['ALL_NODES_SCAN', 'LABEL_SCAN', 'CARTESIAN_PRODUCT']),
+    operation: z.string(),
+    arguments: z.array(z.string()),
+    message: z.string(),
+  })),
+};
+
+const profileQueryOutputSchema = {
+  operators: z.array(z.object({
+    operation: z.string(),
+    arguments: z.array(z.string()),
+    depth: z.number().int(),
+    recordsProduced: z.number(),
+    executionTimeMs: z.number(),
+  })),
+  plan: planOutputSchema,
+};
+
+const listGraphsOutputSchema = {
+  graphs: z.array(z.string()).describe("Names of the graphs available to query"),
+};
+
+const listSessionsOutputSchema = {
+  sessions: z.array(z.object({
+    sessionId: z.string(),
+    principal: z.string().optional(),
+    role: z.enum(['read-only', 'read-write', 'admin']),
+    createdAt: z.string(),
+    lastActivityAt: z.string(),
+    idleMs: z.number().int(),
+  })).describe("Open HTTP sessions, most recently used first"),
 };
 
-function registerQueryGraphTool(server: McpServer): void {
+const connectionInfoSchema = z.object({
+  name: z.string(),
+  default: z.boolean(),
+  mode: z.enum(['sentinel', 'cluster']).optional(),
+  host: z.string(),
+  port: z.number().int(),
+  database: z.number().int().optional(),
+  tls: z.boolean(),
+  status: z.enum(['connected', 'connecting', 'disconnected']),
+  lastError: z.string().optional(),
+});
+
+const listConnectionsOutputSchema = {
+  connections: z.array(connectionInfoSchema.extend({
+    replicas: z.array(connectionInfoSchema).optional().describe("Replicas serving the connection's read-only queries"),
+  })).describe("The configured FalkorDB connections, default first"),
+};
+
+const deleteGraphOutputSchema = {
+  graphName: z.string(),
+  deleted: z.literal(true),
+};
+
+const getGraphSchemaOutputSchema = {
+  nodeLabels: z.array(z.string()),
+  relationshipTypes: z.array(z.string()),
+  connections: z.array(z.object({
+    source: z.array(z.string()),
+    relationship: z.string(),
+    target: z.array(z.string()),
+  })),
+  connectionSampleSize: z.number().int().optional(),
+};
+
+const propertyFrequencyOutputSchema = z.array(z.object({
+  property: z.string(),
+  frequency: z.number().int(),
+}));
+
+const getNodeSchemaOutputSchema = {
+  label: z.string(),
+  requestedSampleSize: z.number().int(),
+  sampledCount: z.number().int(),
+  properties: propertyFrequencyOutputSchema,
+};
+
+const getRelationshipSchemaOutputSchema = {
+  relationshipType: z.string(),
+  requestedSampleSize: z.number().int(),
+  sampledCount: z.number().int(),
+  properties: propertyFrequencyOutputSchema,
+};
+
+/**
+ * Reject graphs outside the caller's own graph limits (e.g. a JWT graphs claim)
+ * The deployment-wide graph access rules are enforced separately by FalkorDBService
+ */
+function assertGraphAccess(access: AccessContext, graphName: string): void {
+  if (!canAccessGraph(access, graphName)) {
+    throw new AppError(
+      CommonErrors.PERMISSION_DENIED,
+      `Access to graph '${graphName}' is not allowed for this caller`,
+      true
+    );
+  }
+}
+
+/**
+ * Turn an error into an isError tool result so the model can tell what went wrong and how to fix it
+ * The text content is `{ error: { code, message, hint, details? } }` with code taken from CommonErrors
+ */
+function toolErrorResult(error: unknown) {
+  const appError = classifyFalkorDBError(error);
+  const body = {
+    code: appError.name,
+    message: appError.message,
+    hint: appError.hint ?? ErrorHints[appError.name] ?? ErrorHints[CommonErrors.OPERATION_FAILED],
+    ...(appError.details && { details: appError.details }),
+  };
+
+  return {
+    isError: true,
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ error: body }, null, 2)
+    }]
+  };
+}
+
+/**
+ * Shape a query result for the response: either the first page plus a cursor, or the result
+ * capped by rows and bytes with truncation details attached when rows were dropped
+ */
+function buildQueryResponse(
+  result: unknown,
+  graphName: string,
+  options: { maxResults?: number; paginate?: boolean },
+  extra?: ToolExtra
+): unknown {
+  const maxRows = options.maxResults ?? config.mcp.maxResultRows;
+
+  if (options.paginate) {
+    return cursorStore.createPage(extra?.sessionId ?? DEFAULT_SESSION_KEY, graphName, result, maxRows);
+  }
+
+  const { result: limited, truncation } = limitQueryResult(result, {
+    maxRows,
+    maxBytes: config.mcp.maxResultBytes,
+  });
+  return truncation ? { ...(limited as object), truncation } : limited;
+}
+
+function registerQueryGraphTool(server: McpServer, access: AccessContext): void {
   server.registerTool(
     "query_graph",
     {
       title: "Query Graph",
       description: "Run an OpenCypher query on a graph. Supports both read-write and read-only queries.",
       inputSchema: queryGraphSchema as any, // Cast to any to prevent TS2589 (deep recursion) during type inference
+      outputSchema: queryResultOutputSchema as any,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
     },
-    async (args: unknown) => {
+    async (args: unknown, extra?: ToolExtra) => {
       // Manual validation since we're using raw shape for registration
-      const {graphName, query, params, readOnly} = z.object(queryGraphSchema).parse(args);
+      const {graphName, query, params, readOnly, timeout, maxResults, paginate, format, connection} = z.object(queryGraphSchema).parse(args);
       
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(
             CommonErrors.INVALID_INPUT,
@@ -95,6 +339,8 @@ function registerQueryGraphTool(server: McpServer): void {
           );
         }
 
+        assertGraphAccess(access, graphName);
+
         if (!query?.trim()) {
           throw new AppError(
             CommonErrors.INVALID_INPUT,
@@ -109,40 +355,46 @@ function registerQueryGraphTool(server: McpServer): void {
         // Enforce strict read-only mode if enabled
         if (config.falkorDB.strictReadOnly && !isReadOnly) {
           throw new AppError(
-            CommonErrors.INVALID_INPUT,
+            CommonErrors.READ_ONLY_VIOLATION,
             'Cannot execute write queries: server is in strict read-only mode (FALKORDB_STRICT_READONLY=true)',
             true
           );
         }
 
-        const result = await falkorDBService.executeQuery(graphName, query, params, isReadOnly);
+        const result = await db.executeQuery(graphName, query, params, isReadOnly, { timeout, signal: extra?.signal });
         await logger.debug('Query tool executed successfully', { graphName, readOnly: isReadOnly });
 
+        const response = buildQueryResponse(result, graphName, { maxResults, paginate }, extra);
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }]
+            text: formatQueryResult(response, format ?? config.mcp.resultFormat)
+          }],
+          structuredContent: toStructuredQueryResult(response),
         };
       } catch (error) {
         await logger.error('Query tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, query: query.substring(0, 100) + (query.length > 100 ? '...' : '') });
-        throw error;
+        return toolErrorResult(error);
       }
     }
   )
 }
 
-function registerQueryGraphReadOnlyTool(server: McpServer): void {
+function registerQueryGraphReadOnlyTool(server: McpServer, access: AccessContext): void {
   server.registerTool(
     "query_graph_readonly",
     {
       title: "Query Graph (Read-Only)",
       description: "Run a read-only OpenCypher query on a graph using GRAPH.RO_QUERY. This ensures no write operations are performed and is ideal for replica instances.",
       inputSchema: queryGraphReadOnlySchema as any,
+      outputSchema: queryResultOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
-    async (args: unknown) => {
-      const {graphName, query, params} = z.object(queryGraphReadOnlySchema).parse(args);
+    async (args: unknown, extra?: ToolExtra) => {
+      const {graphName, query, params, timeout, maxResults, paginate, format, connection} = z.object(queryGraphReadOnlySchema).parse(args);
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(
             CommonErrors.INVALID_INPUT,
@@ -150,6 +402,8 @@ function registerQueryGraphReadOnlyTool(server: McpServer): void {
             true
           );
         }
+
+        assertGraphAccess(access, graphName);
         
         if (!query?.trim()) {
           throw new AppError(
@@ -159,52 +413,217 @@ function registerQueryGraphReadOnlyTool(server: McpServer): void {
           );
         }
         
-        const result = await falkorDBService.executeReadOnlyQuery(graphName, query, params);
+        const result = await db.executeReadOnlyQuery(graphName, query, params, { timeout, signal: extra?.signal });
         await logger.debug('Read-only query tool executed successfully', { graphName });
         
+        const response = buildQueryResponse(result, graphName, { maxResults, paginate }, extra);
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }]
+            text: formatQueryResult(response, format ?? config.mcp.resultFormat)
+          }],
+          structuredContent: toStructuredQueryResult(response),
         };
       } catch (error) {
         await logger.error('Read-only query tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, query: query.substring(0, 100) + (query.length > 100 ? '...' : '') });
-        throw error;
+        return toolErrorResult(error);
+      }
+    }
+  )
+}
+
+function registerFetchNextPageTool(server: McpServer): void {
+  server.registerTool(
+    "fetch_next_page",
+    {
+      title: "Fetch Next Page",
+      description: "Fetch the next page of a paginated query result. Pass the cursor from the 'pagination' section of the previous page; the response contains the following rows and, while more rows remain, a new cursor. Cursors belong to the current session and expire after a period of inactivity.",
+      inputSchema: fetchNextPageSchema as any,
+      outputSchema: queryResultOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: false },
+    },
+    async (args: unknown, extra?: ToolExtra) => {
+      const {cursor, format} = z.object(fetchNextPageSchema).parse(args);
+      try {
+        const page = cursorStore.fetchNextPage(extra?.sessionId ?? DEFAULT_SESSION_KEY, cursor);
+        await logger.debug('Fetch next page tool executed successfully', { returnedRows: page.pagination.returnedRows, hasMore: page.pagination.hasMore });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatQueryResult(page, format ?? config.mcp.resultFormat)
+          }],
+          structuredContent: toStructuredQueryResult(page),
+        };
+      } catch (error) {
+        await logger.error('Fetch next page tool execution failed', error instanceof Error ? error : new Error(String(error)));
+        return toolErrorResult(error);
+      }
+    }
+  )
+}
+
+function registerExplainQueryTool(server: McpServer, access: AccessContext): void {
+  server.registerTool(
+    "explain_query",
+    {
+      title: "Explain Query",
+      description: "Show the execution plan FalkorDB would use for an OpenCypher query (GRAPH.EXPLAIN) without running it. Returns the plan as a tree of { operation, arguments, children } plus warnings for full node scans, label scans and cartesian products, so the query can be rewritten before it is executed.",
+      inputSchema: explainQuerySchema as any,
+      outputSchema: explainQueryOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async (args: unknown, extra?: ToolExtra) => {
+      const {graphName, query, params, connection} = z.object(explainQuerySchema).parse(args);
+      try {
+        const db = falkorDBConnections.get(connection);
+
+        if (!graphName?.trim()) {
+          throw new AppError(
+            CommonErrors.INVALID_INPUT,
+            'Graph name is required and cannot be empty',
+            true
+          );
+        }
+
+        assertGraphAccess(access, graphName);
+
+        if (!query?.trim()) {
+          throw new AppError(
+            CommonErrors.INVALID_INPUT,
+            'Query is required and cannot be empty',
+            true
+          );
+        }
+
+        const plan = await db.explainQuery(graphName, query, params, { signal: extra?.signal });
+        const warnings = findPlanWarnings(plan);
+        await logger.debug('Explain query tool executed successfully', { graphName, warnings: warnings.length });
+
+        const response = { plan, warnings };
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(response, null, 2)
+          }],
+          structuredContent: response,
+        };
+      } catch (error) {
+        await logger.error('Explain query tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, query: query.substring(0, 100) + (query.length > 100 ? '...' : '') });
+        return toolErrorResult(error);
       }
     }
   )
 }
 
-function registerListGraphsTool(server: McpServer): void {
+function registerProfileQueryTool(server: McpServer, access: AccessContext): void {
+  const roleCanWrite = roleAllows(access.role, 'read-write');
+  const readOnly = config.falkorDB.strictReadOnly || !roleCanWrite;
+
+  server.registerTool(
+    "profile_query",
+    {
+      title: "Profile Query",
+      description: "Execute an OpenCypher query with GRAPH.PROFILE and report, for each operator in the execution plan, the number of records it produced and its execution time in milliseconds. Use this to find the slow part of a query. The query is actually executed; write queries are refused when the server is in strict read-only mode or the caller's role is read-only.",
+      inputSchema: profileQuerySchema as any,
+      outputSchema: profileQueryOutputSchema as any,
+      // Profiling executes the query; when write queries are refused it cannot modify the graph
+      annotations: {
+        readOnlyHint: readOnly,
+        destructiveHint: !readOnly,
+        idempotentHint: readOnly,
+      },
+    },
+    async (args: unknown, extra?: ToolExtra) => {
+      const {graphName, query, params, timeout, connection} = z.object(profileQuerySchema).parse(args);
+      try {
+        const db = falkorDBConnections.get(connection);
+
+        if (!graphName?.trim()) {
+          throw new AppError(
+            CommonErrors.INVALID_INPUT,
+            'Graph name is required and cannot be empty',
+            true
+          );
+        }
+
+        assertGraphAccess(access, graphName);
+
+        if (!query?.trim()) {
+          throw new AppError(
+            CommonErrors.INVALID_INPUT,
+            'Query is required and cannot be empty',
+            true
+          );
+        }
+
+        // GRAPH.PROFILE has no read-only variant, so check the plan for writes before running it
+        if (config.falkorDB.strictReadOnly || !roleCanWrite) {
+          const plan = await db.explainQuery(graphName, query, params, { signal: extra?.signal });
+          if (isWritePlan(plan)) {
+            throw new AppError(
+              CommonErrors.READ_ONLY_VIOLATION,
+              config.falkorDB.strictReadOnly
+                ? 'Cannot profile write queries: server is in strict read-only mode (FALKORDB_STRICT_READONLY=true)'
+                : `Cannot profile write queries: your role (${access.role}) does not allow writes`,
+              true
+            );
+          }
+        }
+
+        const plan = await db.profileQuery(graphName, query, params, { timeout, signal: extra?.signal });
+        const operators = flattenProfile(plan);
+        const response = { operators, plan };
+        await logger.debug('Profile query tool executed successfully', { graphName, operators: operators.length });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(response, null, 2)
+          }],
+          structuredContent: response,
+        };
+      } catch (error) {
+        await logger.error('Profile query tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, query: query.substring(0, 100) + (query.length > 100 ? '...' : '') });
+        return toolErrorResult(error);
+      }
+    }
+  )
+}
+
+function registerListGraphsTool(server: McpServer, access: AccessContext): void {
   // Register list_graphs tool
   server.registerTool(
     "list_graphs",
     {
       title: "List Graphs",
-      description: "List all graphs available to query",
-      inputSchema: {},
+      description: "List all graphs available to query on a connection",
+      inputSchema: listGraphsSchema as any,
+      outputSchema: listGraphsOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
-    async () => {
+    async (args: unknown) => {
+      const {connection} = z.object(listGraphsSchema).parse(args);
       try {
-        const result = await falkorDBService.listGraphs();
+        const result = (await falkorDBConnections.get(connection).listGraphs()).filter(name => canAccessGraph(access, name));
         await logger.debug('List graphs tool executed', { count: result.length });
         
         return {
           content: [{
             type: "text" as const,
-            text: result.join("\n"),
-          }]
+            text: JSON.stringify(result, null, 2),
+          }],
+          structuredContent: { graphs: result },
         };
       } catch (error) {
         await logger.error('List graphs tool execution failed', error instanceof Error ? error : new Error(String(error)));
-        throw error;
+        return toolErrorResult(error);
       }
     }
   );
 }
 
-function registerDeleteGraphTool(server: McpServer): void {
+function registerDeleteGraphTool(server: McpServer, access: AccessContext): void {
   // Register delete_graph tool
   server.registerTool(
     "delete_graph",
@@ -212,10 +631,14 @@ function registerDeleteGraphTool(server: McpServer): void {
       title: "Delete Graph",
       description: "Permanently delete a graph from the database. WARNING: This action is irreversible. You must set confirmDelete to true to proceed.",
       inputSchema: deleteGraphSchema as any,
+      outputSchema: deleteGraphOutputSchema as any,
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
     },
     async (args: unknown) => {
-      const {graphName} = z.object(deleteGraphSchema).parse(args);
+      const {graphName, connection} = z.object(deleteGraphSchema).parse(args);
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(
             CommonErrors.INVALID_INPUT,
@@ -224,52 +647,61 @@ function registerDeleteGraphTool(server: McpServer): void {
           );
         }
 
+        assertGraphAccess(access, graphName);
+
         // Enforce strict read-only mode if enabled
         if (config.falkorDB.strictReadOnly) {
           throw new AppError(
-            CommonErrors.INVALID_INPUT,
+            CommonErrors.READ_ONLY_VIOLATION,
             'Cannot delete graphs: server is in strict read-only mode (FALKORDB_STRICT_READONLY=true)',
             true
           );
         }
 
-        await falkorDBService.deleteGraph(graphName);
+        await db.deleteGraph(graphName);
         await logger.info('Delete graph tool executed successfully', { graphName });
         
         return {
           content: [{
             type: "text" as const,
             text: `Graph ${graphName} deleted`
-          }]
+          }],
+          structuredContent: { graphName, deleted: true },
         };
       } catch (error) {
         await logger.error('Delete graph tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName });
-        throw error;
+        return toolErrorResult(error);
       }
     }
   );
 }
 
 
-function registerGetGraphSchemaTool(server: McpServer): void {
+function registerGetGraphSchemaTool(server: McpServer, access: AccessContext): void {
   server.registerTool(
     "get_graph_schema",
     {
       title: "Get Graph Schema",
       description: "Get the schema of a graph including node labels, relationship types, and (optionally) the connection topology between them, to understand the graph structure before executing a query. Connection topology is derived from a bounded sample of relationships and can be disabled via includeConnections on very large graphs.",
       inputSchema: getGraphSchemaSchema as any,
+      outputSchema: getGraphSchemaOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
-    async (args: unknown) => {
-      const { graphName, includeConnections = true, connectionSampleSize = 10000 } = z.object(getGraphSchemaSchema).parse(args);
+    async (args: unknown, extra?: ToolExtra) => {
+      const { graphName, includeConnections = true, connectionSampleSize = 10000, connection } = z.object(getGraphSchemaSchema).parse(args);
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty', true);
         }
 
-        const labelsResult = await falkorDBService.executeReadOnlyQuery(graphName, "CALL db.labels()") as any;
+        assertGraphAccess(access, graphName);
+
+        const labelsResult = await db.executeReadOnlyQuery(graphName, "CALL db.labels()", undefined, { signal: extra?.signal }) as any;
         const labels = (labelsResult.data ?? []).map((r: any) => r['label']);
 
-        const typesResult = await falkorDBService.executeReadOnlyQuery(graphName, "CALL db.relationshipTypes()") as any;
+        const typesResult = await db.executeReadOnlyQuery(graphName, "CALL db.relationshipTypes()", undefined, { signal: extra?.signal }) as any;
         const relationshipTypes = (typesResult.data ?? []).map((r: any) => r['relationshipType']);
 
         const schema: {
@@ -284,9 +716,11 @@ function registerGetGraphSchemaTool(server: McpServer): void {
         };
 
         if (includeConnections) {
-          const schemaResult = await falkorDBService.executeReadOnlyQuery(
+          const schemaResult = await db.executeReadOnlyQuery(
             graphName,
-            `MATCH (a)-[r]->(b) WITH a, r, b LIMIT ${connectionSampleSize} RETURN DISTINCT labels(a) AS source, type(r) AS relationship, labels(b) AS target`
+            `MATCH (a)-[r]->(b) WITH a, r, b LIMIT ${connectionSampleSize} RETURN DISTINCT labels(a) AS source, type(r) AS relationship, labels(b) AS target`,
+            undefined,
+            { signal: extra?.signal }
           ) as any;
           schema.connections = schemaResult.data ?? [];
           schema.connectionSampleSize = connectionSampleSize;
@@ -298,39 +732,50 @@ function registerGetGraphSchemaTool(server: McpServer): void {
           content: [{
             type: "text" as const,
             text: JSON.stringify(schema, null, 2)
-          }]
+          }],
+          structuredContent: schema,
         };
       } catch (error) {
         await logger.error('Get graph schema tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName });
-        throw error;
+        return toolErrorResult(error);
       }
     }
   );
 }
 
-function registerGetNodeSchemaTool(server: McpServer): void {
+function registerGetNodeSchemaTool(server: McpServer, access: AccessContext): void {
   server.registerTool(
     "get_node_schema",
     {
       title: "Get Node Schema",
       description: "Sample up to N nodes of a given label and aggregate their property keys by how many nodes carry each one (descending). Interpret each property's frequency relative to the returned sampledCount (the actual number of nodes sampled, which may be less than requestedSampleSize) to detect naming drift — e.g. a property present on only a few of many sampled nodes likely duplicates another under a slightly different name. Especially valuable in schemaless graphs where property naming can drift across subsets of nodes.",
       inputSchema: getNodeSchemaSchema as any,
+      outputSchema: getNodeSchemaOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
-    async (args: unknown) => {
-      const { graphName, label, sampleSize = 100 } = z.object(getNodeSchemaSchema).parse(args);
+    async (args: unknown, extra?: ToolExtra) => {
+      const { graphName, label, sampleSize = 100, connection } = z.object(getNodeSchemaSchema).parse(args);
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty', true);
         }
 
-        const result = await falkorDBService.executeReadOnlyQuery(
+        assertGraphAccess(access, graphName);
+
+        const result = await db.executeReadOnlyQuery(
           graphName,
-          `MATCH (n:${label}) WITH n LIMIT ${sampleSize} UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC`
+          `MATCH (n:${label}) WITH n LIMIT ${sampleSize} UNWIND keys(n) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC`,
+          undefined,
+          { signal: extra?.signal }
         ) as any;
 
-        const countResult = await falkorDBService.executeReadOnlyQuery(
+        const countResult = await db.executeReadOnlyQuery(
           graphName,
-          `MATCH (n:${label}) WITH n LIMIT ${sampleSize} RETURN count(n) AS sampledCount`
+          `MATCH (n:${label}) WITH n LIMIT ${sampleSize} RETURN count(n) AS sampledCount`,
+          undefined,
+          { signal: extra?.signal }
         ) as any;
         const sampledCount = countResult.data?.[0]?.sampledCount ?? 0;
 
@@ -347,39 +792,50 @@ function registerGetNodeSchemaTool(server: McpServer): void {
           content: [{
             type: "text" as const,
             text: JSON.stringify(response, null, 2)
-          }]
+          }],
+          structuredContent: response,
         };
       } catch (error) {
         await logger.error('Get node schema tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, label });
-        throw error;
+        return toolErrorResult(error);
       }
     }
   );
 }
 
-function registerGetRelationshipSchemaTool(server: McpServer): void {
+function registerGetRelationshipSchemaTool(server: McpServer, access: AccessContext): void {
   server.registerTool(
     "get_relationship_schema",
     {
       title: "Get Relationship Schema",
       description: "Sample up to N relationships of a given type and aggregate their property keys by how many relationships carry each one (descending). Interpret each property's frequency relative to the returned sampledCount (the actual number of relationships sampled, which may be less than requestedSampleSize) to detect naming drift — e.g. a property present on only a few of many sampled relationships likely duplicates another under a slightly different name. Especially valuable in schemaless graphs where property naming can drift across subsets of relationships.",
       inputSchema: getRelationshipSchemaSchema as any,
+      outputSchema: getRelationshipSchemaOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
     },
-    async (args: unknown) => {
-      const { graphName, relationshipType, sampleSize = 100 } = z.object(getRelationshipSchemaSchema).parse(args);
+    async (args: unknown, extra?: ToolExtra) => {
+      const { graphName, relationshipType, sampleSize = 100, connection } = z.object(getRelationshipSchemaSchema).parse(args);
       try {
+        const db = falkorDBConnections.get(connection);
+
         if (!graphName?.trim()) {
           throw new AppError(CommonErrors.INVALID_INPUT, 'Graph name is required and cannot be empty', true);
         }
 
-        const result = await falkorDBService.executeReadOnlyQuery(
+        assertGraphAccess(access, graphName);
+
+        const result = await db.executeReadOnlyQuery(
           graphName,
-          `MATCH ()-[r:${relationshipType}]->() WITH r LIMIT ${sampleSize} UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC`
+          `MATCH ()-[r:${relationshipType}]->() WITH r LIMIT ${sampleSize} UNWIND keys(r) AS property RETURN property, count(*) AS frequency ORDER BY frequency DESC`,
+          undefined,
+          { signal: extra?.signal }
         ) as any;
 
-        const countResult = await falkorDBService.executeReadOnlyQuery(
+        const countResult = await db.executeReadOnlyQuery(
           graphName,
-          `MATCH ()-[r:${relationshipType}]->() WITH r LIMIT ${sampleSize} RETURN count(r) AS sampledCount`
+          `MATCH ()-[r:${relationshipType}]->() WITH r LIMIT ${sampleSize} RETURN count(r) AS sampledCount`,
+          undefined,
+          { signal: extra?.signal }
         ) as any;
         const sampledCount = countResult.data?.[0]?.sampledCount ?? 0;
 
@@ -396,23 +852,189 @@ function registerGetRelationshipSchemaTool(server: McpServer): void {
           content: [{
             type: "text" as const,
             text: JSON.stringify(response, null, 2)
-          }]
+          }],
+          structuredContent: response,
         };
       } catch (error) {
         await logger.error('Get relationship schema tool execution failed', error instanceof Error ? error : new Error(String(error)), { graphName, relationshipType });
-        throw error;
+        return toolErrorResult(error);
       }
     }
   );
 }
 
-export default function registerAllTools(server: McpServer): void {
-  // Register query_graph tools
-  registerQueryGraphTool(server);
-  registerQueryGraphReadOnlyTool(server);
-  registerListGraphsTool(server);
-  registerDeleteGraphTool(server);
-  registerGetGraphSchemaTool(server);
-  registerGetNodeSchemaTool(server);
-  registerGetRelationshipSchemaTool(server);
-}
\ No newline at end of file
+function registerListSessionsTool(server: McpServer): void {
+  server.registerTool(
+    "list_sessions",
+    {
+      title: "List Sessions",
+      description: "List the open MCP sessions of the HTTP transport with their principal, role and last activity. Idle sessions are closed after MCP_SESSION_IDLE_TTL. Empty on the stdio transport.",
+      inputSchema: {},
+      outputSchema: listSessionsOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async () => {
+      const sessions = sessionManager.list();
+      await logger.debug('List sessions tool executed', { count: sessions.length });
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(sessions, null, 2),
+        }],
+        structuredContent: { sessions },
+      };
+    }
+  );
+}
+
+function registerListConnectionsTool(server: McpServer): void {
+  server.registerTool(
+    "list_connections",
+    {
+      title: "List Connections",
+      description: "List the FalkorDB connections this server can use, with their host, port and status (connected, connecting or disconnected, with the last error). A connection with replicas lists them too; its read-only queries are spread across them. Pass a connection's name as the 'connection' argument of the other tools to run them against it; without it they use the default connection.",
+      inputSchema: {},
+      outputSchema: listConnectionsOutputSchema as any,
+      annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+    },
+    async () => {
+      try {
+        const connections = falkorDBConnections.list();
+        await logger.debug('List connections tool executed', { count: connections.length });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(connections, null, 2),
+          }],
+          structuredContent: { connections },
+        };
+      } catch (error) {
+        await logger.error('List connections tool execution failed', error instanceof Error ? error : new Error(String(error)));
+        return toolErrorResult(error);
+      }
+    }
+  );
+}
+
+// Every tool in registration order
+const TOOL_REGISTRATIONS: Array<[string, (server: McpServer, access: AccessContext) => void]> = [
+  ["query_graph", registerQueryGraphTool],
+  ["query_graph_readonly", registerQueryGraphReadOnlyTool],
+  ["fetch_next_page", registerFetchNextPageTool],
+  ["explain_query", registerExplainQueryTool],
+  ["profile_query", registerProfileQueryTool],
+  ["list_graphs", registerListGraphsTool],
+  ["delete_graph", registerDeleteGraphTool],
+  ["get_graph_schema", registerGetGraphSchemaTool],
+  ["get_node_schema", registerGetNodeSchemaTool],
+  ["get_relationship_schema", registerGetRelationshipSchemaTool],
+  ["list_sessions", registerListSessionsTool],
+  ["list_connections", registerListConnectionsTool],
+];
+
+// Tools that can modify the database
+const WRITE_TOOLS = new Set(["query_graph", "delete_graph"]);
+
+// Minimum role needed to use a tool; tools not listed are available to every role
+const TOOL_MIN_ROLES: Record<string, Role> = {
+  query_graph: 'read-write',
+  delete_graph: 'admin',
+  list_sessions: 'admin',
+};
+
+// How each tool call is classified in the audit log; tools not listed only read
+const TOOL_AUDIT_OPERATIONS: Record<string, (args: Record<string, unknown>, result: any) => AuditOperation> = {
+  query_graph: args => (args.readOnly ?? config.falkorDB.defaultReadOnly) ? 'read' : 'write',
+  // GRAPH.PROFILE executes the query, so the profiled plan tells whether it wrote; a failed call returns no plan
+  profile_query: (_args, result) => result?.structuredContent && isWritePlan(result.structuredContent.plan ?? null) ? 'write' : 'read',
+  delete_graph: () => 'write',
+};
+
+function errorCodeOf(result: any): string | undefined {
+  try {
+    return JSON.parse(result.content[0].text).error?.code;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wrap a session's server so every tool registered through it enforces the rate limits
+ * and records its calls in the audit log and the tool call metrics
+ */
+function withCallGuards(server: McpServer, access: AccessContext): McpServer {
+  const audited = Object.create(server) as McpServer;
+  audited.registerTool = ((name: string, definition: unknown, handler: (args: unknown, extra?: ToolExtra) => Promise<any>) =>
+    server.registerTool(name, definition as any, async (args: unknown, extra?: ToolExtra) => {
+      const input = (typeof args === 'object' && args !== null ? args : {}) as Record<string, unknown>;
+      const startTime = Date.now();
+      const finish = (result: any, errorCode?: string) => {
+        const outcome = errorCode ? 'error' : 'success';
+        const durationMs = Date.now() - startTime;
+        metricsService.recordToolCall(name, outcome, durationMs);
+        auditService.record({
+          sessionId: extra?.sessionId,
+          principal: access.principal,
+          role: access.role,
+          tool: name,
+          connection: typeof input.connection === 'string' ? input.connection : undefined,
+          graph: typeof input.graphName === 'string' ? input.graphName : undefined,
+          query: typeof input.query === 'string' ? input.query : undefined,
+          params: typeof input.params === 'object' && input.params !== null ? input.params as Record<string, unknown> : undefined,
+          operation: TOOL_AUDIT_OPERATIONS[name]?.(input, result) ?? 'read',
+          outcome,
+          errorCode,
+          durationMs,
+        });
+      };
+
+      try {
+        rateLimitService.consume(access, extra?.sessionId ?? DEFAULT_SESSION_KEY);
+      } catch (error) {
+        const result = toolErrorResult(error);
+        finish(result, errorCodeOf(result));
+        return result;
+      }
+
+      try {
+        const result = await handler(args, extra);
+        finish(result, result?.isError ? errorCodeOf(result) ?? CommonErrors.OPERATION_FAILED : undefined);
+        return result;
+      } catch (error) {
+        // Input validation errors are thrown to the SDK rather than returned as error results
+        finish(undefined, error instanceof z.ZodError ? CommonErrors.INVALID_INPUT : classifyFalkorDBError(error).name);
+        throw error;
+      }
+    })) as McpServer['registerTool'];
+  return audited;
+}
+
+export const TOOL_NAMES = TOOL_REGISTRATIONS.map(([name]) => name);
+
+/**
+ * Register the tools exposed by this deployment to a session
+ * @param server - The session's MCP server
+ * @param access - The session's role; tools it may not use are not registered
+ * @returns The names of the registered tools
+ */
+export default function registerAllTools(server: McpServer, access: AccessContext = FULL_ACCESS): string[] {
+  // Tools the caller may not use are not advertised, so the tool list matches what the server allows
+  const allowWrites = !config.falkorDB.strictReadOnly;
+  const guardedServer = withCallGuards(server, access);
+  const registered: string[] = [];
+
+  for (const [name, register] of TOOL_REGISTRATIONS) {
+    if ((WRITE_TOOLS.has(name) && !allowWrites) || !isSurfaceEnabled('tools', name)) {
+      continue;
+    }
+    if (TOOL_MIN_ROLES[name] && !roleAllows(access.role, TOOL_MIN_ROLES[name])) {
+      continue;
+    }
+    register(guardedServer, access);
+    registered.push(name);
+  }
+
+  return registered;
+}
@@ -0,0 +1,25 @@
+import { canAccessGraph, FULL_ACCESS, roleAllows } from './access.types';
+
+describe('Access Types', () => {
+  it('should order roles from read-only to admin', () => {
+    expect(roleAllows('admin', 'read-write')).toBe(true);
+    expect(roleAllows('read-write', 'read-write')).toBe(true);
+    expect(roleAllows('read-write', 'admin')).toBe(false);
+    expect(roleAllows('read-only', 'read-write')).toBe(false);
+    expect(roleAllows('read-only', 'read-only')).toBe(true);
+  });
+
+  it('should grant the admin role for unauthenticated transports', () => {
+    expect(FULL_ACCESS.role).toBe('admin');
+  });
+
+  it('should limit graphs only when the caller has graph limits', () => {
+    const limited = { role: 'read-only' as const, graphs: ['team_a_*', 'shared'] };
+
+    expect(canAccessGraph(FULL_ACCESS, 'anything')).toBe(true);
+    expect(canAccessGraph(limited, 'team_a_movies')).toBe(true);
+    expect(canAccessGraph(limited, 'shared')).toBe(true);
+    expect(canAccessGraph(limited, 'team_b_movies')).toBe(false);
+    expect(canAccessGraph({ role: 'admin', graphs: [] }, 'shared')).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Access control types for MCP sessions
+ */
+
+import { matchesGraphPattern } from '../utils/graph-access.js';
+
+export const ROLES = ['read-only', 'read-write', 'admin'] as const;
+
+/**
+ * What a caller may do: read-only callers can only read, read-write callers can also
+ * run write queries, and admins can additionally delete graphs
+ */
+export type Role = typeof ROLES[number];
+
+/**
+ * Check whether a configured value names a role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * The identity and permissions an MCP session runs with
+ */
+export interface AccessContext {
+  role: Role;
+  // Label of the credential that opened the session, for logs; never the secret itself
+  principal?: string;
+  // Graph names or glob patterns the caller is limited to (e.g. from a JWT claim); undefined = no extra limit
+  graphs?: string[];
+}
+
+/**
+ * Access for transports without authentication (stdio, or HTTP without API keys)
+ */
+export const FULL_ACCESS: AccessContext = { role: 'admin' };
+
+/**
+ * Check whether a role includes the permissions of another
+ */
+export function roleAllows(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Check a graph against the caller's own graph limits
+ */
+export function canAccessGraph(access: AccessContext, graphName: string): boolean {
+  return access.graphs === undefined || access.graphs.some(pattern => matchesGraphPattern(graphName, pattern));
+}
@@ -0,0 +1,123 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    info: jest.fn().mockResolvedValue(undefined),
+    warn: jest.fn().mockResolvedValue(undefined),
+    error: jest.fn().mockResolvedValue(undefined),
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { ApiKeyService } from './api-key.service.js';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    mockConfig = createMockConfig();
+    service = new ApiKeyService();
+    tempDir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeKeysFile = (content: unknown): string => {
+    const path = join(tempDir, 'keys.json');
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+    return path;
+  };
+
+  it('should grant full access without authentication when no keys are configured', () => {
+    // Act
+    service.initialize();
+
+    // Assert
+    expect(service.enabled).toBe(false);
+    expect(service.authenticate(undefined)).toEqual({ role: 'admin' });
+  });
+
+  it('should give the legacy MCP_API_KEY the admin role', () => {
+    mockConfig.mcp.apiKey = 'legacy-secret';
+
+    service.initialize();
+
+    expect(service.authenticate('Bearer legacy-secret')).toEqual({ role: 'admin', principal: 'MCP_API_KEY' });
+  });
+
+  it('should load keys with roles from the keys file and MCP_API_KEYS', () => {
+    // Arrange
+    mockConfig.mcp.apiKeysFile = writeKeysFile([
+      { name: 'analytics', key: 'ro-secret', role: 'read-only' },
+      { name: 'etl', key: 'rw-secret', role: 'read-write' },
+    ]);
+    mockConfig.mcp.apiKeys = ['admin:adm:in-secret'];
+
+    // Act
+    service.initialize();
+
+    // Assert
+    expect(service.authenticate('Bearer ro-secret')).toEqual({ role: 'read-only', principal: 'analytics' });
+    expect(service.authenticate('Bearer rw-secret')).toEqual({ role: 'read-write', principal: 'etl' });
+    expect(service.authenticate('Bearer adm:in-secret')).toEqual({ role: 'admin', principal: 'MCP_API_KEYS[0]' });
+  });
+
+  it('should reject missing, malformed and unknown keys once keys are configured', () => {
+    mockConfig.mcp.apiKeys = ['read-only:secret'];
+
+    service.initialize();
+
+    expect(service.authenticate(undefined)).toBeNull();
+    expect(service.authenticate('secret')).toBeNull();
+    expect(service.authenticate('Bearer wrong')).toBeNull();
+  });
+
+  it('should reject invalid roles', () => {
+    mockConfig.mcp.apiKeys = ['superuser:secret'];
+
+    expect(() => service.initialize()).toThrow("has invalid role 'superuser'");
+  });
+
+  it('should reject entries without a key and duplicate keys', () => {
+    mockConfig.mcp.apiKeys = ['read-only'];
+    expect(() => service.initialize()).toThrow('has no key');
+
+    mockConfig.mcp.apiKeys = ['read-only:same', 'admin:same'];
+    expect(() => service.initialize()).toThrow('duplicates another key');
+  });
+
+  it('should fail with INITIALIZATION_FAILED for unreadable or malformed keys files', () => {
+    // Arrange
+    mockConfig.mcp.apiKeysFile = join(tempDir, 'missing.json');
+
+    // Act & Assert
+    try {
+      service.initialize();
+      fail('Expected initialize to throw AppError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).name).toBe(CommonErrors.INITIALIZATION_FAILED);
+    }
+
+    mockConfig.mcp.apiKeysFile = writeKeysFile({ key: 'not-an-array' });
+    expect(() => service.initialize()).toThrow('must contain a JSON array');
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { AccessContext, FULL_ACCESS, isRole, Role, ROLES } from '../models/access.types.js';
+import { logger } from './logger.service.js';
+
+interface ApiKeyEntry {
+  name: string;
+  role: Role;
+  // SHA-256 of the key, so lookups compare fixed-length digests in constant time
+  digest: Buffer;
+}
+
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * API keys accepted by the HTTP transport, each carrying a role
+ * Keys come from MCP_API_KEYS_FILE, MCP_API_KEYS and the legacy MCP_API_KEY (admin)
+ */
+export class ApiKeyService {
+  private keys: ApiKeyEntry[] = [];
+
+  /**
+   * Load the configured keys
+   * @throws AppError (INITIALIZATION_FAILED) if the keys file or MCP_API_KEYS is malformed
+   */
+  initialize(): void {
+    const entries: Array<{ name: string; role: unknown; key: unknown }> = [];
+
+    if (config.mcp.apiKeysFile) {
+      entries.push(...this.readKeysFile(config.mcp.apiKeysFile));
+    }
+
+    // MCP_API_KEYS: comma-separated role:key pairs; the key may itself contain ':'
+    config.mcp.apiKeys.forEach((pair, index) => {
+      const separator = pair.indexOf(':');
+      entries.push({
+        name: `MCP_API_KEYS[${index}]`,
+        role: separator === -1 ? undefined : pair.slice(0, separator).trim(),
+        key: separator === -1 ? undefined : pair.slice(separator + 1).trim(),
+      });
+    });
+
+    if (config.mcp.apiKey) {
+      entries.push({ name: 'MCP_API_KEY', role: 'admin', key: config.mcp.apiKey });
+    }
+
+    const keys: ApiKeyEntry[] = [];
+    for (const entry of entries) {
+      if (typeof entry.key !== 'string' || entry.key.length === 0) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `API key '${entry.name}' has no key`, true);
+      }
+      if (!isRole(entry.role)) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          `API key '${entry.name}' has invalid role '${String(entry.role)}' (expected one of: ${ROLES.join(', ')})`,
+          true
+        );
+      }
+      const keyDigest = digest(entry.key);
+      if (keys.some(existing => existing.digest.equals(keyDigest))) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `API key '${entry.name}' duplicates another key`, true);
+      }
+      keys.push({ name: entry.name, role: entry.role, digest: keyDigest });
+    }
+
+    this.keys = keys;
+    // Fire-and-forget: informational log, not critical
+    logger.info('API keys loaded', {
+      count: keys.length,
+      roles: keys.map(({ name, role }) => ({ name, role })),
+    });
+  }
+
+  /**
+   * Whether the HTTP transport requires an API key
+   */
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * Resolve the Authorization header of a request to the caller's access
+   * @returns The key's access, full access when no keys are configured, or null if the key is missing or unknown
+   */
+  authenticate(authorizationHeader: string | undefined): AccessContext | null {
+    if (!this.enabled) {
+      return FULL_ACCESS;
+    }
+
+    const match = /^Bearer (.+)$/.exec(authorizationHeader ?? '');
+    if (!match) {
+      return null;
+    }
+
+    const presented = digest(match[1]);
+    // Compare against every key so the timing doesn't reveal which one matched
+    let found: ApiKeyEntry | undefined;
+    for (const entry of this.keys) {
+      if (timingSafeEqual(entry.digest, presented) && !found) {
+        found = entry;
+      }
+    }
+
+    return found ? { role: found.role, principal: found.name } : null;
+  }
+
+  private readKeysFile(path: string): Array<{ name: string; role: unknown; key: unknown }> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `Failed to read API keys file '${path}': ${error instanceof Error ? error.message : String(error)}`,
+        true
+      );
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `API keys file '${path}' must contain a JSON array of { "name", "key", "role" } objects`,
+        true
+      );
+    }
+
+    return parsed.map((entry, index) => ({
+      name: typeof entry?.name === 'string' && entry.name ? entry.name : `${path}[${index}]`,
+      role: entry?.role,
+      key: entry?.key,
+    }));
+  }
+}
+
+// Export a singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,155 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    info: jest.fn().mockResolvedValue(undefined),
+    warn: jest.fn().mockResolvedValue(undefined),
+    error: jest.fn().mockResolvedValue(undefined),
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { AuditEvent, AuditService, redactParams, REDACTED } from './audit.service.js';
+import { logger } from './logger.service.js';
+
+const createEvent = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  sessionId: 'session-1',
+  principal: 'etl',
+  role: 'read-write',
+  tool: 'query_graph',
+  graph: 'people',
+  query: 'CREATE (n:Person {name: $name, email: $email})',
+  params: { name: 'Alice', email: 'alice@example.com' },
+  operation: 'write',
+  outcome: 'success',
+  durationMs: 12,
+  ...overrides,
+});
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let tempDir: string;
+  let auditFile: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    service = new AuditService();
+    tempDir = mkdtempSync(join(tmpdir(), 'audit-'));
+    auditFile = join(tempDir, 'logs', 'audit.jsonl');
+    mockConfig.mcp.audit.file = auditFile;
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const readRecords = (path = auditFile) =>
+    readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  it('should write nothing until the queued write runs', async () => {
+    // Act
+    service.record(createEvent());
+
+    // Assert
+    expect(existsSync(auditFile)).toBe(false);
+    await service.flush();
+    expect(readRecords()).toHaveLength(1);
+  });
+
+  it('should do nothing when no audit file is configured', () => {
+    mockConfig.mcp.audit.file = '';
+
+    service.record(createEvent());
+
+    expect(service.enabled).toBe(false);
+    expect(existsSync(join(tempDir, 'logs'))).toBe(false);
+  });
+
+  it('should append one JSON line per event with parameter names and redacted values', async () => {
+    // Act
+    service.record(createEvent());
+    service.record(createEvent({ tool: 'list_graphs', graph: undefined, query: undefined, params: undefined, operation: 'read' }));
+    await service.flush();
+
+    // Assert
+    const [write, read] = readRecords();
+    expect(write).toEqual({
+      timestamp: expect.any(String),
+      sessionId: 'session-1',
+      principal: 'etl',
+      role: 'read-write',
+      tool: 'query_graph',
+      graph: 'people',
+      query: 'CREATE (n:Person {name: $name, email: $email})',
+      parameterNames: ['name', 'email'],
+      parameters: { name: REDACTED, email: REDACTED },
+      operation: 'write',
+      outcome: 'success',
+      durationMs: 12,
+    });
+    expect(read).toMatchObject({ tool: 'list_graphs', operation: 'read', parameterNames: [] });
+    expect(read).not.toHaveProperty('parameters');
+  });
+
+  it('should only redact the configured parameters', async () => {
+    mockConfig.mcp.audit.redactParams = ['email'];
+
+    service.record(createEvent());
+    await service.flush();
+
+    expect(readRecords()[0].parameters).toEqual({ name: 'Alice', email: REDACTED });
+  });
+
+  it('should rotate the file once it would exceed the maximum size', async () => {
+    // Arrange
+    service.record(createEvent({ durationMs: 0 }));
+    await service.flush();
+    mockConfig.mcp.audit.maxSize = statSync(auditFile).size * 2;
+    mockConfig.mcp.audit.maxFiles = 2;
+
+    // Act
+    for (let index = 1; index < 7; index++) {
+      service.record(createEvent({ durationMs: index }));
+    }
+    await service.flush();
+
+    // Assert
+    expect(readRecords().map(record => record.durationMs)).toEqual([6]);
+    expect(readRecords(`${auditFile}.1`).map(record => record.durationMs)).toEqual([4, 5]);
+    expect(readRecords(`${auditFile}.2`).map(record => record.durationMs)).toEqual([2, 3]);
+    expect(existsSync(`${auditFile}.3`)).toBe(false);
+  });
+
+  it('should log write failures without throwing', async () => {
+    mockConfig.mcp.audit.file = tempDir;
+
+    expect(() => service.record(createEvent())).not.toThrow();
+    await expect(service.flush()).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith('Failed to write audit record', expect.any(Error), { tool: 'query_graph' });
+  });
+});
+
+describe('redactParams', () => {
+  it('should keep values when nothing is redacted', () => {
+    expect(redactParams({ a: 1, b: 'x' }, [])).toEqual({ a: 1, b: 'x' });
+  });
+
+  it('should redact every value with *', () => {
+    expect(redactParams({ a: 1, b: { nested: true } }, ['*'])).toEqual({ a: REDACTED, b: REDACTED });
+  });
+});
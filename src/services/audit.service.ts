@@ -0,0 +1,151 @@
+import { appendFile, mkdir, rename, rm, stat } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config/index.js';
+import { Role } from '../models/access.types.js';
+import { logger } from './logger.service.js';
+
+export const REDACTED = '[REDACTED]';
+
+export type AuditOperation = 'read' | 'write';
+
+/**
+ * A tool call as reported by the tool layer
+ */
+export interface AuditEvent {
+  sessionId?: string;
+  principal?: string;
+  role: Role;
+  tool: string;
+  // Named FalkorDB connection the call selected; undefined for the default connection
+  connection?: string;
+  graph?: string;
+  query?: string;
+  params?: Record<string, unknown>;
+  operation: AuditOperation;
+  outcome: 'success' | 'error';
+  errorCode?: string;
+  durationMs: number;
+}
+
+/**
+ * A line of the audit log: the event with a timestamp, and its parameters reduced to
+ * their names plus the values that are not redacted
+ */
+export interface AuditRecord extends Omit<AuditEvent, 'params'> {
+  timestamp: string;
+  parameterNames: string[];
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Replace the values of the named parameters by [REDACTED]; '*' redacts every value
+ */
+export function redactParams(params: Record<string, unknown>, redact: string[]): Record<string, unknown> {
+  const redactAll = redact.includes('*');
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, redactAll || redact.includes(name) ? REDACTED : value])
+  );
+}
+
+/**
+ * Whether a file system error means the file does not exist
+ */
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Append-only JSONL audit log of tool calls (MCP_AUDIT_LOG_FILE)
+ * The file is rotated by size: falkordb-audit.jsonl becomes falkordb-audit.jsonl.1, .1 becomes .2, and so on.
+ * Records are written asynchronously, one at a time and in call order, so tool calls never wait on the disk
+ */
+export class AuditService {
+  // Size of the current file in bytes, read from disk on first write
+  private size?: number;
+  // The last queued write; each write starts once the previous one has finished
+  private pending: Promise<void> = Promise.resolve();
+
+  get enabled(): boolean {
+    return Boolean(config.mcp.audit.file);
+  }
+
+  /**
+   * Queue an event for the audit log
+   * Write failures are logged but never fail the audited call
+   */
+  record(event: AuditEvent): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const { params = {}, ...rest } = event;
+    const parameterNames = Object.keys(params);
+    const record: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      ...rest,
+      parameterNames,
+      ...(parameterNames.length > 0 && { parameters: redactParams(params, config.mcp.audit.redactParams) }),
+    };
+    const line = JSON.stringify(record) + '\n';
+
+    this.pending = this.pending
+      .then(() => this.write(line))
+      .catch((error) => {
+        // Fire-and-forget: the call itself already succeeded or failed on its own
+        logger.error('Failed to write audit record', error instanceof Error ? error : new Error(String(error)), { tool: event.tool });
+      });
+  }
+
+  /**
+   * Wait until every queued event has been written, or has failed to be; for shutdown
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private async write(line: string): Promise<void> {
+    const { file, maxSize } = config.mcp.audit;
+    if (this.size === undefined) {
+      await mkdir(dirname(file), { recursive: true });
+      this.size = await stat(file).then(stats => stats.size, (error) => {
+        if (isMissing(error)) {
+          return 0;
+        }
+        throw error;
+      });
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (maxSize > 0 && this.size > 0 && this.size + bytes > maxSize) {
+      await this.rotate(file);
+      this.size = 0;
+    }
+
+    await appendFile(file, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(file: string): Promise<void> {
+    const { maxFiles } = config.mcp.audit;
+    if (maxFiles < 1) {
+      await rm(file, { force: true });
+      return;
+    }
+
+    await rm(`${file}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      try {
+        await rename(`${file}.${index}`, `${file}.${index + 1}`);
+      } catch (error) {
+        // Fewer rotated files than maxFiles so far
+        if (!isMissing(error)) {
+          throw error;
+        }
+      }
+    }
+    await rename(file, `${file}.1`);
+  }
+}
+
+// Export a singleton instance
+export const auditService = new AuditService();
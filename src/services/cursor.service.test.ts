@@ -0,0 +1,222 @@
+import { CursorStore } from './cursor.service';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { config } from '../config/index.js';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock the config
+jest.mock('../config/index.js', () => ({
+  config: {
+    mcp: {
+      maxResultBytes: 0,
+      cursorTtl: 1000,
+      maxCursorsPerSession: 2,
+      maxCursorRows: 0,
+      maxCursorBytes: 0,
+      cursorSweepInterval: 500,
+    }
+  }
+}));
+
+describe('Cursor Store', () => {
+  let store: CursorStore;
+  const reply = {
+    headers: ['n'],
+    data: [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }, { n: 5 }],
+    metadata: ['Query internal execution time: 0.1 milliseconds'],
+  };
+
+  beforeEach(() => {
+    store = new CursorStore();
+  });
+
+  afterEach(() => {
+    store.stopSweeping();
+    jest.useRealTimers();
+    Object.assign(config.mcp, { maxCursorRows: 0, maxCursorBytes: 0 });
+  });
+
+  describe('createPage', () => {
+    it('should return the first page with a cursor when more rows remain', () => {
+      // Act
+      const page = store.createPage('session-1', 'myGraph', reply, 2);
+
+      // Assert
+      expect(page.data).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(page.headers).toEqual(['n']);
+      expect(page.metadata).toBe(reply.metadata);
+      expect(page.pagination).toEqual({
+        cursor: expect.any(String),
+        hasMore: true,
+        totalRows: 5,
+        offset: 0,
+        returnedRows: 2,
+      });
+      expect(store.count('session-1')).toBe(1);
+    });
+
+    it('should not keep a cursor when the whole result fits in one page', () => {
+      // Act
+      const page = store.createPage('session-1', 'myGraph', reply, 10);
+
+      // Assert
+      expect(page.data).toHaveLength(5);
+      expect(page.pagination.hasMore).toBe(false);
+      expect(page.pagination.cursor).toBeUndefined();
+      expect(store.count()).toBe(0);
+    });
+
+    it('should keep at most the cursor row cap and report the dropped rows on every page', () => {
+      // Arrange
+      config.mcp.maxCursorRows = 3;
+
+      // Act
+      const first = store.createPage('session-1', 'myGraph', reply, 2);
+      const second = store.fetchNextPage('session-1', first.pagination.cursor!);
+
+      // Assert
+      expect(first.pagination).toEqual(expect.objectContaining({ hasMore: true, totalRows: 3 }));
+      expect(second.data).toEqual([{ n: 3 }]);
+      expect(second.pagination.hasMore).toBe(false);
+      for (const page of [first, second]) {
+        expect(page.truncation).toEqual({
+          truncated: true,
+          reason: 'maxRows',
+          totalRows: 5,
+          returnedRows: 3,
+          hint: expect.stringContaining('MCP_MAX_CURSOR_ROWS'),
+        });
+      }
+    });
+
+    it('should keep only the rows that fit in the cursor byte cap', () => {
+      // Arrange - each row serializes to 7 bytes
+      config.mcp.maxCursorBytes = 20;
+
+      // Act
+      const page = store.createPage('session-1', 'myGraph', reply, 10);
+
+      // Assert
+      expect(page.data).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(page.truncation).toEqual(expect.objectContaining({ reason: 'maxBytes', totalRows: 5, returnedRows: 2 }));
+    });
+
+    it('should not report truncation when the result fits the cursor caps', () => {
+      // Arrange
+      config.mcp.maxCursorRows = 5;
+
+      // Act
+      const page = store.createPage('session-1', 'myGraph', reply, 2);
+
+      // Assert
+      expect(page.truncation).toBeUndefined();
+    });
+
+    it('should evict the oldest cursors of a session beyond the per-session limit', () => {
+      // Act
+      const first = store.createPage('session-1', 'myGraph', reply, 1);
+      store.createPage('session-1', 'myGraph', reply, 1);
+      store.createPage('session-1', 'myGraph', reply, 1);
+      store.createPage('session-2', 'myGraph', reply, 1);
+
+      // Assert
+      expect(store.count('session-1')).toBe(2);
+      expect(store.count('session-2')).toBe(1);
+      expect(() => store.fetchNextPage('session-1', first.pagination.cursor!)).toThrow('Cursor not found or expired');
+    });
+  });
+
+  describe('fetchNextPage', () => {
+    it('should walk every row and drop the cursor after the last page', () => {
+      // Arrange
+      const first = store.createPage('session-1', 'myGraph', reply, 2);
+
+      // Act
+      const second = store.fetchNextPage('session-1', first.pagination.cursor!);
+      const third = store.fetchNextPage('session-1', second.pagination.cursor!);
+
+      // Assert
+      expect(second.data).toEqual([{ n: 3 }, { n: 4 }]);
+      expect(second.pagination.offset).toBe(2);
+      expect(third.data).toEqual([{ n: 5 }]);
+      expect(third.pagination).toEqual({ hasMore: false, totalRows: 5, offset: 4, returnedRows: 1 });
+      expect(store.count()).toBe(0);
+    });
+
+    it('should reject cursors owned by another session', () => {
+      // Arrange
+      const first = store.createPage('session-1', 'myGraph', reply, 2);
+
+      // Act & Assert
+      try {
+        store.fetchNextPage('session-2', first.pagination.cursor!);
+        fail('Expected fetchNextPage to throw AppError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).name).toBe(CommonErrors.RESOURCE_NOT_FOUND);
+      }
+    });
+
+    it('should reject cursors after they expire', () => {
+      // Arrange
+      jest.useFakeTimers();
+      const first = store.createPage('session-1', 'myGraph', reply, 2);
+
+      // Act
+      jest.advanceTimersByTime(1001);
+
+      // Assert
+      expect(() => store.fetchNextPage('session-1', first.pagination.cursor!)).toThrow('Cursor not found or expired');
+    });
+
+    it('should extend the expiry on each page fetched', () => {
+      // Arrange
+      jest.useFakeTimers();
+      const first = store.createPage('session-1', 'myGraph', reply, 1);
+
+      // Act
+      jest.advanceTimersByTime(800);
+      const second = store.fetchNextPage('session-1', first.pagination.cursor!);
+      jest.advanceTimersByTime(800);
+
+      // Assert
+      expect(store.fetchNextPage('session-1', second.pagination.cursor!).data).toEqual([{ n: 3 }]);
+    });
+  });
+
+  describe('startSweeping', () => {
+    it('should drop expired cursors without waiting for the store to be used', () => {
+      // Arrange
+      jest.useFakeTimers();
+      store.createPage('session-1', 'myGraph', reply, 1);
+      const cursors = (store as any).cursors as Map<string, unknown>;
+      store.startSweeping();
+
+      // Act
+      jest.advanceTimersByTime(1500);
+
+      // Assert
+      expect(cursors.size).toBe(0);
+    });
+  });
+
+  describe('clearSession', () => {
+    it('should drop only the cursors of the given session', () => {
+      // Arrange
+      store.createPage('session-1', 'myGraph', reply, 1);
+      store.createPage('session-2', 'myGraph', reply, 1);
+
+      // Act
+      store.clearSession('session-1');
+
+      // Assert
+      expect(store.count('session-1')).toBe(0);
+      expect(store.count('session-2')).toBe(1);
+    });
+  });
+});
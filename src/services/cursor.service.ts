@@ -0,0 +1,212 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { limitQueryResult, TruncationInfo } from '../utils/result-limits.js';
+import { logger } from './logger.service.js';
+
+// Session key used for transports without session ids (stdio)
+export const DEFAULT_SESSION_KEY = 'default';
+
+const CURSOR_TRUNCATION_HINT =
+  'The result was too large to keep for paging (MCP_MAX_CURSOR_ROWS / MCP_MAX_CURSOR_BYTES), so only its first rows ' +
+  'can be fetched. Narrow the query with WHERE or a smaller RETURN, or page through it with ORDER BY, SKIP and LIMIT.';
+
+interface Cursor {
+  id: string;
+  sessionKey: string;
+  graphName: string;
+  headers?: unknown;
+  metadata?: unknown;
+  rows: unknown[];
+  // Set when rows beyond the cursor caps were dropped
+  truncation?: TruncationInfo;
+  offset: number;
+  pageSize: number;
+  expiresAt: number;
+}
+
+/**
+ * Pagination details attached to every paged response
+ */
+export interface PageInfo {
+  cursor?: string;
+  hasMore: boolean;
+  totalRows: number;
+  offset: number;
+  returnedRows: number;
+}
+
+export interface Page {
+  headers?: unknown;
+  data: unknown[];
+  metadata?: unknown;
+  truncation?: TruncationInfo;
+  pagination: PageInfo;
+}
+
+/**
+ * Server-side store for paging through query results
+ * Rows are held in memory per MCP session, up to MCP_MAX_CURSOR_ROWS / MCP_MAX_CURSOR_BYTES per cursor,
+ * and expire after MCP_CURSOR_TTL of inactivity
+ */
+export class CursorStore {
+  private cursors = new Map<string, Cursor>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  /**
+   * Split a query reply into pages, returning the first page and a cursor for the rest
+   * @param sessionKey - The MCP session that owns the cursor
+   * @param graphName - The graph the query ran against
+   * @param result - The full reply returned by FalkorDBService
+   * @param pageSize - Maximum rows per page
+   */
+  createPage(sessionKey: string, graphName: string, result: unknown, pageSize: number): Page {
+    this.sweep();
+
+    const reply = (result ?? {}) as { headers?: unknown; data?: unknown; metadata?: unknown };
+    const { result: kept, truncation } = limitQueryResult(
+      { data: Array.isArray(reply.data) ? reply.data : [] },
+      { maxRows: config.mcp.maxCursorRows, maxBytes: config.mcp.maxCursorBytes }
+    );
+    if (truncation) {
+      // Fire-and-forget: informational log, not critical
+      logger.debug('Dropped rows over the cursor limits', { graphName, totalRows: truncation.totalRows, keptRows: truncation.returnedRows });
+    }
+    const cursor: Cursor = {
+      id: randomBytes(16).toString('base64url'),
+      sessionKey,
+      graphName,
+      headers: reply.headers,
+      metadata: reply.metadata,
+      rows: kept.data,
+      ...(truncation && { truncation: { ...truncation, hint: CURSOR_TRUNCATION_HINT } }),
+      offset: 0,
+      pageSize,
+      expiresAt: 0,
+    };
+
+    const page = this.nextPage(cursor);
+    if (page.pagination.hasMore) {
+      this.store(cursor);
+    }
+    return page;
+  }
+
+  /**
+   * Fetch the page after the last one returned for a cursor
+   * @param sessionKey - The MCP session requesting the page; must own the cursor
+   * @param cursorId - The opaque cursor returned with the previous page
+   */
+  fetchNextPage(sessionKey: string, cursorId: string): Page {
+    this.sweep();
+
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor || cursor.sessionKey !== sessionKey) {
+      throw new AppError(
+        CommonErrors.RESOURCE_NOT_FOUND,
+        'Cursor not found or expired. Re-run the query with paginate: true to get a new cursor.',
+        true
+      );
+    }
+
+    const page = this.nextPage(cursor);
+    if (page.pagination.hasMore) {
+      cursor.expiresAt = Date.now() + config.mcp.cursorTtl;
+    } else {
+      this.cursors.delete(cursorId);
+    }
+    return page;
+  }
+
+  /**
+   * Drop every cursor owned by a session, e.g. when the session closes
+   */
+  clearSession(sessionKey: string): void {
+    for (const [id, cursor] of this.cursors) {
+      if (cursor.sessionKey === sessionKey) {
+        this.cursors.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Number of live cursors, optionally restricted to one session
+   */
+  count(sessionKey?: string): number {
+    this.sweep();
+    if (sessionKey === undefined) {
+      return this.cursors.size;
+    }
+    return [...this.cursors.values()].filter(cursor => cursor.sessionKey === sessionKey).length;
+  }
+
+  /**
+   * Drop expired cursors every MCP_CURSOR_SWEEP_INTERVAL, so their rows are freed even if the store goes unused
+   */
+  startSweeping(): void {
+    this.stopSweeping();
+    const interval = config.mcp.cursorSweepInterval;
+    if (interval > 0) {
+      this.sweepTimer = setInterval(() => this.sweep(), interval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  stopSweeping(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  private nextPage(cursor: Cursor): Page {
+    const remaining = { data: cursor.rows.slice(cursor.offset) };
+    const { result } = limitQueryResult(remaining, {
+      maxRows: cursor.pageSize,
+      maxBytes: config.mcp.maxResultBytes,
+    });
+
+    // Always return at least one row so paging makes progress even if a single row exceeds the byte cap
+    const data = result.data.length > 0 ? result.data : remaining.data.slice(0, 1);
+    const offset = cursor.offset;
+    cursor.offset += data.length;
+    const hasMore = cursor.offset < cursor.rows.length;
+
+    return {
+      ...(cursor.headers !== undefined && { headers: cursor.headers }),
+      data,
+      ...(cursor.metadata !== undefined && { metadata: cursor.metadata }),
+      ...(cursor.truncation && { truncation: cursor.truncation }),
+      pagination: {
+        ...(hasMore && { cursor: cursor.id }),
+        hasMore,
+        totalRows: cursor.rows.length,
+        offset,
+        returnedRows: data.length,
+      },
+    };
+  }
+
+  private store(cursor: Cursor): void {
+    cursor.expiresAt = Date.now() + config.mcp.cursorTtl;
+    this.cursors.set(cursor.id, cursor);
+
+    // Evict the oldest cursors of the session beyond the per-session cap (Map preserves insertion order)
+    const owned = [...this.cursors.values()].filter(c => c.sessionKey === cursor.sessionKey);
+    for (const stale of owned.slice(0, Math.max(0, owned.length - config.mcp.maxCursorsPerSession))) {
+      this.cursors.delete(stale.id);
+      // Fire-and-forget: informational log, not critical
+      logger.debug('Evicted query cursor over per-session limit', { graphName: stale.graphName });
+    }
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, cursor] of this.cursors) {
+      if (cursor.expiresAt <= now) {
+        this.cursors.delete(id);
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const cursorStore = new CursorStore();
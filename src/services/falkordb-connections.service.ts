@@ -0,0 +1,162 @@
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { parseFalkorDBConnectionString } from '../utils/connection-parser.js';
+import { ConnectionInfo, DEFAULT_CONNECTION, FalkorDBService, falkorDBService } from './falkordb.service.js';
+import { logger } from './logger.service.js';
+
+const CONNECTION_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Group FALKORDB_CONNECTIONS entries into name=connection-string pairs. The list is split on commas, so the
+ * extra hosts of a sentinel or cluster connection string arrive as separate entries; they don't start with
+ * name=, and belong to the pair before them
+ */
+function groupPairs(entries: string[]): string[] {
+  const pairs: string[] = [];
+  for (const entry of entries) {
+    if (pairs.length > 0 && !/^[A-Za-z0-9_-]+=/.test(entry)) {
+      pairs[pairs.length - 1] += `,${entry}`;
+    } else {
+      pairs.push(entry);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * The FalkorDB connections tools can select by name: the default connection (falkorDBService)
+ * plus the named connections from FALKORDB_CONNECTIONS, each with its own client
+ */
+export class FalkorDBConnections {
+  private named = new Map<string, FalkorDBService>();
+
+  /**
+   * Create a client for every named connection and every replica in FALKORDB_REPLICAS; none is connected yet
+   * @throws AppError (INITIALIZATION_FAILED) if FALKORDB_CONNECTIONS or FALKORDB_REPLICAS is malformed
+   */
+  initialize(): void {
+    const named = new Map<string, FalkorDBService>();
+
+    // FALKORDB_CONNECTIONS: comma-separated name=connection-string pairs
+    for (const pair of groupPairs(config.falkorDB.connections)) {
+      const separator = pair.indexOf('=');
+      const name = separator === -1 ? pair.trim() : pair.slice(0, separator).trim();
+      const url = separator === -1 ? '' : pair.slice(separator + 1).trim();
+
+      if (!CONNECTION_NAME.test(name)) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          `Connection name '${name}' is invalid (use letters, digits, '-' and '_')`,
+          true
+        );
+      }
+      if (name === DEFAULT_CONNECTION || named.has(name)) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `Connection '${name}' is defined more than once`, true);
+      }
+      if (!url) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `Connection '${name}' has no connection string`, true);
+      }
+      try {
+        parseFalkorDBConnectionString(url);
+      } catch (error) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          `Connection '${name}': ${error instanceof Error ? error.message : String(error)}`,
+          true
+        );
+      }
+
+      named.set(name, new FalkorDBService(name, url));
+    }
+
+    this.named = named;
+    falkorDBService.setReplicas(config.falkorDB.replicas);
+    if (named.size > 0) {
+      // Fire-and-forget: informational log, not critical
+      logger.info('Named FalkorDB connections configured', { connections: [...named.keys()] });
+    }
+  }
+
+  /**
+   * Connect the named connections and the default connection's replicas; one that can't be reached is
+   * reported by list_connections and fails the tool calls that select it, without affecting the others
+   */
+  async connect(): Promise<void> {
+    await Promise.all([
+      falkorDBService.connectReplicas(),
+      ...[...this.named.values()].map(service =>
+        service.initialize().catch(() => {
+          // Already logged by the service; the connection stays disconnected
+        })
+      ),
+    ]);
+  }
+
+  /**
+   * Start the health monitor of every connection, default and named, and of their replicas
+   */
+  startHealthMonitors(): void {
+    falkorDBService.startHealthMonitor();
+    this.named.forEach(service => service.startHealthMonitor());
+  }
+
+  /**
+   * The names callers can select, default first
+   */
+  get names(): string[] {
+    return [DEFAULT_CONNECTION, ...this.named.keys()];
+  }
+
+  /**
+   * The client of a connection
+   * @param name - The connection name; undefined selects the default connection
+   * @throws AppError (RESOURCE_NOT_FOUND) if no connection has that name
+   */
+  get(name?: string): FalkorDBService {
+    if (name === undefined || name === DEFAULT_CONNECTION) {
+      return falkorDBService;
+    }
+
+    const service = this.named.get(name);
+    if (!service) {
+      throw new AppError(
+        CommonErrors.RESOURCE_NOT_FOUND,
+        `Unknown connection '${name}'. Available connections: ${this.names.join(', ')}`,
+        true,
+        { hint: 'Use list_connections to see the configured connections, or omit connection to use the default one.' }
+      );
+    }
+    return service;
+  }
+
+  /**
+   * Whether every connection, default and named, and every replica is connected
+   */
+  get allConnected(): boolean {
+    return this.names.every(name => this.get(name).isFullyConnected);
+  }
+
+  /**
+   * Number of FalkorDB commands in flight across every connection and replica
+   */
+  get inFlightQueries(): number {
+    return FalkorDBService.totalInFlightQueries;
+  }
+
+  /**
+   * Every connection with its status, default first
+   */
+  list(): ConnectionInfo[] {
+    return this.names.map(name => this.get(name).describe());
+  }
+
+  /**
+   * Close the named connections; the default connection is closed by its owner
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.named.values()].map(service => service.close()));
+  }
+}
+
+// Export a singleton instance
+export const falkorDBConnections = new FalkorDBConnections();
@@ -1,5 +1,12 @@
-import { falkorDBService } from './falkordb.service';
+import { FalkorDBService, falkorDBService } from './falkordb.service';
 import { AppError, CommonErrors } from '../errors/AppError.js';
+import { config } from '../config/index.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventEmitter } from 'events';
+import { resolveSentinelMaster } from '../utils/sentinel.js';
+import { logger } from './logger.service.js';
 
 // Mock the logger service
 jest.mock('./logger.service.js', () => ({
@@ -15,15 +22,47 @@ jest.mock('./logger.service.js', () => ({
 jest.mock('../config/index.js', () => ({
   config: {
     falkorDB: {
+      url: '',
+      replicas: [] as string[],
+      replicaFallback: 'primary' as 'primary' | 'fail',
       host: 'localhost',
       port: 6379,
       username: 'testuser',
       password: 'testpass',
-      defaultReadOnly: false
+      mode: 'standalone',
+      sentinels: [] as string[],
+      sentinelMaster: '',
+      sentinelUsername: '',
+      sentinelPassword: '',
+      clusterNodes: [] as string[],
+      defaultReadOnly: false,
+      graphAllowlist: undefined,
+      graphDenylist: [],
+      graphPrefix: '',
+      maxConcurrentQueries: 0,
+      queryTimeout: 0,
+      healthCheckInterval: 10000,
+      pingTimeout: 2000,
+      stallTimeout: 60000,
+      reconnectBehavior: 'queue' as 'queue' | 'fail',
+      reconnectQueueTimeout: 30000,
+      tls: {
+        enabled: false,
+        caFile: '',
+        certFile: '',
+        keyFile: '',
+        servername: '',
+        rejectUnauthorized: true
+      }
     }
   }
 }));
 
+// Mock the sentinel lookup
+jest.mock('../utils/sentinel.js', () => ({
+  resolveSentinelMaster: jest.fn(),
+}));
+
 // Mock the FalkorDB library
 jest.mock('falkordb', () => {
   const mockSelectGraph = jest.fn();
@@ -33,6 +72,8 @@ jest.mock('falkordb', () => {
   const mockClose = jest.fn();
   const mockPing = jest.fn();
   const mockDelete = jest.fn();
+  const mockExplain = jest.fn();
+  const mockProfile = jest.fn();
   
   return {
     FalkorDB: {
@@ -43,10 +84,13 @@ jest.mock('falkordb', () => {
         selectGraph: mockSelectGraph.mockReturnValue({
           query: mockQuery,
           roQuery: mockRoQuery,
-          delete: mockDelete
+          delete: mockDelete,
+          explain: mockExplain,
+          profile: mockProfile
         }),
         list: mockList,
-        close: mockClose
+        close: mockClose,
+        on: jest.fn()
       })
     },
     mockSelectGraph,
@@ -55,7 +99,9 @@ jest.mock('falkordb', () => {
     mockList,
     mockClose,
     mockPing,
-    mockDelete
+    mockDelete,
+    mockExplain,
+    mockProfile
   };
 });
 
@@ -73,6 +119,9 @@ describe('FalkorDB Service', () => {
     (falkorDBService as any).client = null;
     (falkorDBService as any).retryCount = 0;
     (falkorDBService as any).initializingPromise = null;
+    // Earlier tests leave abandoned (never settled) queries behind
+    (falkorDBService as any).inFlight = 0;
+    (FalkorDBService as any).inFlightTotal = 0;
   });
 
   describe('initialize', () => {
@@ -84,7 +133,8 @@ describe('FalkorDB Service', () => {
         }),
         selectGraph: mockFalkorDB.mockSelectGraph,
         list: mockFalkorDB.mockList,
-        close: mockFalkorDB.mockClose
+        close: mockFalkorDB.mockClose,
+        on: jest.fn()
       });
 
       // Act
@@ -113,7 +163,8 @@ describe('FalkorDB Service', () => {
         }),
         selectGraph: mockFalkorDB.mockSelectGraph,
         list: mockFalkorDB.mockList,
-        close: mockFalkorDB.mockClose
+        close: mockFalkorDB.mockClose,
+        on: jest.fn()
       });
 
       // Act - start two initializations concurrently
@@ -139,7 +190,8 @@ describe('FalkorDB Service', () => {
           }),
           selectGraph: mockFalkorDB.mockSelectGraph,
           list: mockFalkorDB.mockList,
-          close: mockFalkorDB.mockClose
+          close: mockFalkorDB.mockClose,
+          on: jest.fn()
         });
 
       // Mock setTimeout to avoid actual delays
@@ -195,7 +247,8 @@ describe('FalkorDB Service', () => {
         }),
         selectGraph: mockFalkorDB.mockSelectGraph,
         list: mockFalkorDB.mockList,
-        close: mockFalkorDB.mockClose
+        close: mockFalkorDB.mockClose,
+        on: jest.fn()
       });
 
       // Mock setTimeout to avoid actual delays
@@ -212,6 +265,199 @@ describe('FalkorDB Service', () => {
     });
   });
   
+  describe('connection string', () => {
+    const connectedClient = () => ({
+      connection: Promise.resolve({
+        ping: mockFalkorDB.mockPing.mockResolvedValue('PONG')
+      }),
+      selectGraph: mockFalkorDB.mockSelectGraph,
+      list: mockFalkorDB.mockList,
+      close: mockFalkorDB.mockClose,
+      on: jest.fn()
+    });
+
+    afterEach(() => {
+      config.falkorDB.url = '';
+    });
+
+    it('should let the URL take precedence over the host, port and credential fields', async () => {
+      // Arrange
+      config.falkorDB.url = 'falkordb://svc:url%40pass@[::1]:6380/2?connectTimeout=5000&socketTimeout=30000';
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledWith({
+        socket: { host: '::1', port: 6380, connectTimeout: 5000, socketTimeout: 30000 },
+        username: 'svc',
+        password: 'url@pass',
+        database: 2,
+      });
+    });
+
+    it('should keep the credential fields when the URL has no credentials', async () => {
+      // Arrange
+      config.falkorDB.url = 'falkordb://db.internal';
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledWith({
+        socket: { host: 'db.internal', port: 6379 },
+        username: 'testuser',
+        password: 'testpass',
+      });
+    });
+
+    it('should connect over TLS for falkordbs:// URLs', async () => {
+      // Arrange
+      config.falkorDB.url = 'falkordbs://r-1.falkordb.cloud:55000';
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect.mock.calls[0][0].socket).toEqual({
+        host: 'r-1.falkordb.cloud', port: 55000, tls: true, rejectUnauthorized: true
+      });
+      expect(falkorDBService.tlsEnabled).toBe(true);
+    });
+
+    it('should fail without retrying on a malformed URL', async () => {
+      // Arrange
+      config.falkorDB.url = 'falkordb://:6379';
+
+      // Act & Assert
+      await expect(falkorDBService.initialize()).rejects.toMatchObject({
+        name: CommonErrors.INITIALIZATION_FAILED,
+        message: 'Invalid FalkorDB connection string: the host is missing',
+      });
+      expect(mockFalkorDB.FalkorDB.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('TLS', () => {
+    let tempDir: string;
+
+    const connectedClient = () => ({
+      connection: Promise.resolve({
+        ping: mockFalkorDB.mockPing.mockResolvedValue('PONG')
+      }),
+      selectGraph: mockFalkorDB.mockSelectGraph,
+      list: mockFalkorDB.mockList,
+      close: mockFalkorDB.mockClose,
+      on: jest.fn()
+    });
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'falkordb-tls-'));
+      for (const name of ['ca.pem', 'client.crt', 'client.key']) {
+        writeFileSync(join(tempDir, name), `-----BEGIN ${name}-----`);
+      }
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+      Object.assign(config.falkorDB.tls, {
+        enabled: false, caFile: '', certFile: '', keyFile: '', servername: '', rejectUnauthorized: true
+      });
+    });
+
+    it('should connect over TLS with the configured CA, client certificate and servername', async () => {
+      // Arrange
+      Object.assign(config.falkorDB.tls, {
+        enabled: true,
+        caFile: join(tempDir, 'ca.pem'),
+        certFile: join(tempDir, 'client.crt'),
+        keyFile: join(tempDir, 'client.key'),
+        servername: 'db.example.com',
+      });
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      const { socket } = mockFalkorDB.FalkorDB.connect.mock.calls[0][0];
+      expect(socket).toMatchObject({
+        host: 'localhost',
+        port: 6379,
+        tls: true,
+        servername: 'db.example.com',
+        rejectUnauthorized: true,
+      });
+      expect(socket.ca.toString()).toBe('-----BEGIN ca.pem-----');
+      expect(socket.cert.toString()).toBe('-----BEGIN client.crt-----');
+      expect(socket.key.toString()).toBe('-----BEGIN client.key-----');
+      expect(falkorDBService.tlsEnabled).toBe(true);
+    });
+
+    it('should report a plain TCP connection when TLS is disabled', async () => {
+      // Arrange
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect.mock.calls[0][0].socket).toEqual({ host: 'localhost', port: 6379 });
+      expect(falkorDBService.tlsEnabled).toBe(false);
+    });
+
+    it('should pass rejectUnauthorized: false when verification is disabled', async () => {
+      // Arrange
+      Object.assign(config.falkorDB.tls, { enabled: true, rejectUnauthorized: false });
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+
+      // Act
+      await falkorDBService.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect.mock.calls[0][0].socket).toEqual({
+        host: 'localhost', port: 6379, tls: true, rejectUnauthorized: false
+      });
+    });
+
+    it('should fail without retrying when a certificate file is missing', async () => {
+      // Arrange
+      Object.assign(config.falkorDB.tls, { enabled: true, caFile: join(tempDir, 'missing.pem') });
+
+      // Act & Assert
+      await expect(falkorDBService.initialize()).rejects.toMatchObject({
+        name: CommonErrors.INITIALIZATION_FAILED,
+        message: expect.stringContaining('Failed to read FalkorDB TLS file'),
+      });
+      expect(mockFalkorDB.FalkorDB.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject a client certificate without a key', async () => {
+      // Arrange
+      Object.assign(config.falkorDB.tls, { enabled: true, certFile: join(tempDir, 'client.crt') });
+
+      // Act & Assert
+      await expect(falkorDBService.initialize())
+        .rejects.toThrow('FALKORDB_TLS_CERT_FILE and FALKORDB_TLS_KEY_FILE must be set together');
+    });
+
+    it('should stop reporting TLS once closed', async () => {
+      // Arrange
+      Object.assign(config.falkorDB.tls, { enabled: true });
+      mockFalkorDB.FalkorDB.connect.mockResolvedValue(connectedClient());
+      await falkorDBService.initialize();
+
+      // Act
+      await falkorDBService.close();
+
+      // Assert
+      expect(falkorDBService.tlsEnabled).toBe(false);
+    });
+  });
+
   describe('executeQuery', () => {
     it('should execute a query on the specified graph', async () => {
       // Arrange
@@ -337,7 +583,7 @@ describe('FalkorDB Service', () => {
         .toThrow(AppError);
       await expect(falkorDBService.executeQuery('graph', 'query'))
         .rejects
-        .toThrow('FalkorDB client not initialized');
+        .toThrow("FalkorDB connection 'default' is down");
     });
 
     it('should throw AppError when query execution fails', async () => {
@@ -359,7 +605,7 @@ describe('FalkorDB Service', () => {
         fail('Expected executeQuery to throw AppError');
       } catch (error) {
         expect(error).toBeInstanceOf(AppError);
-        expect((error as AppError).name).toBe(CommonErrors.OPERATION_FAILED);
+        expect((error as AppError).name).toBe(CommonErrors.QUERY_SYNTAX_ERROR);
       }
     });
 
@@ -386,6 +632,93 @@ describe('FalkorDB Service', () => {
         expect((error as AppError).message).toContain('read-only');
       }
     });
+
+    it('should categorize FalkorDB errors by type', async () => {
+      // Arrange
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+      mockFalkorDB.mockRoQuery.mockRejectedValueOnce(new Error('graph.RO_QUERY is to be executed only on read-only queries'));
+      mockFalkorDB.mockQuery.mockRejectedValueOnce(new Error('Query timed out'));
+
+      // Act & Assert
+      await expect(falkorDBService.executeQuery('testGraph', 'CREATE (n)', undefined, true))
+        .rejects.toMatchObject({ name: CommonErrors.READ_ONLY_VIOLATION });
+      await expect(falkorDBService.executeQuery('testGraph', 'MATCH (n) RETURN n'))
+        .rejects.toMatchObject({ name: CommonErrors.QUERY_TIMEOUT, message: "Failed to execute query on graph 'testGraph': Query timed out" });
+    });
+  });
+
+  describe('executeQuery timeouts and cancellation', () => {
+    beforeEach(() => {
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+    });
+
+    it('should pass the timeout to FalkorDB as TIMEOUT', async () => {
+      // Arrange
+      mockFalkorDB.mockRoQuery.mockResolvedValue({ data: [] });
+
+      // Act
+      await falkorDBService.executeQuery('testGraph', 'MATCH (n) RETURN n', { name: 'a' }, true, { timeout: 1500 });
+
+      // Assert
+      expect(mockFalkorDB.mockRoQuery).toHaveBeenCalledWith('MATCH (n) RETURN n', { params: { name: 'a' }, TIMEOUT: 1500 });
+    });
+
+    it('should pass a timeout without params', async () => {
+      // Arrange
+      mockFalkorDB.mockQuery.mockResolvedValue({ data: [] });
+
+      // Act
+      await falkorDBService.executeQuery('testGraph', 'MATCH (n) RETURN n', undefined, false, { timeout: 10 });
+
+      // Assert
+      expect(mockFalkorDB.mockQuery).toHaveBeenCalledWith('MATCH (n) RETURN n', { TIMEOUT: 10 });
+    });
+
+    it('should not run the query if the signal is already aborted', async () => {
+      // Arrange
+      const controller = new AbortController();
+      controller.abort();
+
+      // Act & Assert
+      try {
+        await falkorDBService.executeQuery('testGraph', 'MATCH (n) RETURN n', undefined, false, { signal: controller.signal });
+        fail('Expected executeQuery to throw AppError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).name).toBe(CommonErrors.OPERATION_CANCELLED);
+      }
+      expect(mockFalkorDB.mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting with a cancellation error when the signal fires mid-query', async () => {
+      // Arrange
+      const controller = new AbortController();
+      mockFalkorDB.mockQuery.mockReturnValue(new Promise(() => {}));
+
+      // Act
+      const pending = falkorDBService.executeQuery('testGraph', 'MATCH p=()-[*]->() RETURN p', undefined, false, { signal: controller.signal });
+      controller.abort();
+
+      // Assert
+      await expect(pending).rejects.toThrow('Query cancelled');
+      await expect(pending).rejects.toMatchObject({ name: CommonErrors.OPERATION_CANCELLED });
+    });
+
+    it('should return the result when the signal never fires', async () => {
+      // Arrange
+      const controller = new AbortController();
+      mockFalkorDB.mockQuery.mockResolvedValue({ data: [{ n: 1 }] });
+
+      // Act
+      const result = await falkorDBService.executeQuery('testGraph', 'RETURN 1 AS n', undefined, false, { signal: controller.signal });
+
+      // Assert
+      expect(result).toEqual({ data: [{ n: 1 }] });
+    });
   });
 
   describe('executeReadOnlyQuery', () => {
@@ -423,10 +756,164 @@ describe('FalkorDB Service', () => {
         .toThrow(AppError);
       await expect(falkorDBService.executeReadOnlyQuery('graph', 'query'))
         .rejects
-        .toThrow('FalkorDB client not initialized');
+        .toThrow("FalkorDB connection 'default' is down");
     });
   });
   
+  describe('explainQuery', () => {
+    it('should return the parsed execution plan', async () => {
+      // Arrange
+      mockFalkorDB.mockExplain.mockResolvedValue([
+        'Results',
+        '    Project',
+        '        Node By Label Scan | (n:Person)',
+      ]);
+
+      // Force client to be available
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act
+      const plan = await falkorDBService.explainQuery('testGraph', 'MATCH (n:Person) RETURN n');
+
+      // Assert
+      expect(mockFalkorDB.mockSelectGraph).toHaveBeenCalledWith('testGraph');
+      expect(mockFalkorDB.mockExplain).toHaveBeenCalledWith('MATCH (n:Person) RETURN n');
+      expect(plan?.operation).toBe('Results');
+      expect(plan?.children[0].children[0]).toEqual({
+        operation: 'Node By Label Scan',
+        arguments: ['(n:Person)'],
+        children: [],
+      });
+    });
+
+    it('should inline params as a CYPHER preamble', async () => {
+      // Arrange
+      mockFalkorDB.mockExplain.mockResolvedValue(['Results']);
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act
+      await falkorDBService.explainQuery('testGraph', 'MATCH (n {name: $name}) RETURN n', {
+        name: 'Al "the" \\ pal',
+        ids: [1, 2],
+        filter: { active: true, note: null },
+      });
+
+      // Assert
+      expect(mockFalkorDB.mockExplain).toHaveBeenCalledWith(
+        'CYPHER name="Al \\"the\\" \\\\ pal" ids=[1,2] filter={active:true,note:null} MATCH (n {name: $name}) RETURN n'
+      );
+    });
+
+    it('should throw AppError if client is not initialized', async () => {
+      // Arrange
+      (falkorDBService as any).client = null;
+
+      // Act & Assert
+      await expect(falkorDBService.explainQuery('graph', 'query'))
+        .rejects
+        .toThrow("FalkorDB connection 'default' is down");
+    });
+
+    it('should throw AppError when explain fails', async () => {
+      // Arrange
+      mockFalkorDB.mockExplain.mockRejectedValue(new Error('Invalid input'));
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act & Assert
+      try {
+        await falkorDBService.explainQuery('testGraph', 'MATCH (n RETURN n');
+        fail('Expected explainQuery to throw AppError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).name).toBe(CommonErrors.QUERY_SYNTAX_ERROR);
+        expect((error as AppError).message).toContain('Failed to explain query');
+      }
+    });
+  });
+
+  describe('profileQuery', () => {
+    it('should return the profiled plan with per-operator statistics', async () => {
+      // Arrange
+      mockFalkorDB.mockProfile.mockResolvedValue([
+        'Results | Records produced: 1, Execution time: 0.002 ms',
+        '    Node By Label Scan | (n:Person) | Records produced: 1, Execution time: 0.015 ms',
+      ]);
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act
+      const plan = await falkorDBService.profileQuery('testGraph', 'MATCH (n:Person) RETURN n', { limit: 1 });
+
+      // Assert
+      expect(mockFalkorDB.mockProfile).toHaveBeenCalledWith('CYPHER limit=1 MATCH (n:Person) RETURN n');
+      expect(plan?.recordsProduced).toBe(1);
+      expect(plan?.children[0].executionTimeMs).toBeCloseTo(0.015);
+    });
+
+    it('should throw AppError if client is not initialized', async () => {
+      // Arrange
+      (falkorDBService as any).client = null;
+
+      // Act & Assert
+      await expect(falkorDBService.profileQuery('graph', 'query'))
+        .rejects
+        .toThrow("FalkorDB connection 'default' is down");
+    });
+
+    it('should send GRAPH.PROFILE with the timeout as TIMEOUT', async () => {
+      // Arrange
+      const sendCommand = jest.fn().mockResolvedValue(['Results | Records produced: 0, Execution time: 0.001 ms']);
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph,
+        connection: Promise.resolve({ sendCommand }),
+      };
+
+      // Act
+      const plan = await falkorDBService.profileQuery('testGraph', 'MATCH (n) RETURN n', { limit: 1 }, { timeout: 500 });
+
+      // Assert
+      expect(sendCommand).toHaveBeenCalledWith(['GRAPH.PROFILE', 'testGraph', 'CYPHER limit=1 MATCH (n) RETURN n', 'TIMEOUT', '500']);
+      expect(mockFalkorDB.mockProfile).not.toHaveBeenCalled();
+      expect(plan?.operation).toBe('Results');
+    });
+
+    it('should stop waiting with a cancellation error when the signal fires mid-profile', async () => {
+      // Arrange
+      const controller = new AbortController();
+      mockFalkorDB.mockProfile.mockReturnValue(new Promise(() => {}));
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act
+      const pending = falkorDBService.profileQuery('testGraph', 'MATCH p=()-[*]->() RETURN p', undefined, { signal: controller.signal });
+      controller.abort();
+
+      // Assert
+      await expect(pending).rejects.toMatchObject({ name: CommonErrors.OPERATION_CANCELLED });
+    });
+
+    it('should throw AppError when profile fails', async () => {
+      // Arrange
+      mockFalkorDB.mockProfile.mockRejectedValue(new Error('Query timed out'));
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph
+      };
+
+      // Act & Assert
+      await expect(falkorDBService.profileQuery('testGraph', 'MATCH (n) RETURN n'))
+        .rejects
+        .toThrow("Failed to profile query on graph 'testGraph'");
+    });
+  });
+
   describe('listGraphs', () => {
     it('should return a list of graphs', async () => {
       // Arrange
@@ -474,7 +961,7 @@ describe('FalkorDB Service', () => {
         .toThrow(AppError);
       await expect(falkorDBService.listGraphs())
         .rejects
-        .toThrow('FalkorDB client not initialized');
+        .toThrow("FalkorDB connection 'default' is down");
     });
 
     it('should throw AppError when listing graphs fails', async () => {
@@ -493,7 +980,7 @@ describe('FalkorDB Service', () => {
         fail('Expected listGraphs to throw AppError');
       } catch (error) {
         expect(error).toBeInstanceOf(AppError);
-        expect((error as AppError).name).toBe(CommonErrors.OPERATION_FAILED);
+        expect((error as AppError).name).toBe(CommonErrors.CONNECTION_FAILED);
       }
     });
   });
@@ -527,7 +1014,7 @@ describe('FalkorDB Service', () => {
         .toThrow(AppError);
       await expect(falkorDBService.deleteGraph('testGraph'))
         .rejects
-        .toThrow('FalkorDB client not initialized');
+        .toThrow("FalkorDB connection 'default' is down");
     });
 
     it('should throw AppError when delete operation fails', async () => {
@@ -588,13 +1075,828 @@ describe('FalkorDB Service', () => {
       expect((falkorDBService as any).retryCount).toBe(0);
     });
     
-    it('should not throw if client is already null', async () => {
+    it('should close a client that connects after the connection was closed', async () => {
       // Arrange
-      (falkorDBService as any).client = null;
+      const service = new FalkorDBService();
+      const client = { connection: Promise.resolve({ ping: jest.fn() }), on: jest.fn(), close: jest.fn().mockResolvedValue(undefined) };
+      let connect: (value: unknown) => void = () => {};
+      mockFalkorDB.FalkorDB.connect.mockReturnValueOnce(new Promise(resolve => { connect = resolve; }));
+      const initializing = service.initialize();
+
+      // Act
+      await service.close();
+      connect(client);
+
+      // Assert
+      await expect(initializing).rejects.toThrow('The FalkorDB connection was closed');
+      expect(client.close).toHaveBeenCalled();
+      expect(service.isConnected).toBe(false);
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not throw if client is already null', async () => {
+      // Arrange
+      (falkorDBService as any).client = null;
       
       // Act & Assert
       await expect(falkorDBService.close()).resolves.not.toThrow();
       expect(mockFalkorDB.mockClose).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('graph access rules', () => {
+    beforeEach(() => {
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph,
+        list: mockFalkorDB.mockList
+      };
+    });
+
+    afterEach(() => {
+      Object.assign(config.falkorDB, { graphAllowlist: undefined, graphDenylist: [], graphPrefix: '' });
+    });
+
+    it('should reject queries on graphs outside the allowlist', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { graphAllowlist: ['team_a_*'] });
+
+      // Act & Assert
+      await expect(falkorDBService.executeQuery('team_b_graph', 'MATCH (n) RETURN n'))
+        .rejects.toMatchObject({ name: CommonErrors.PERMISSION_DENIED });
+      await expect(falkorDBService.explainQuery('team_b_graph', 'MATCH (n) RETURN n'))
+        .rejects.toMatchObject({ name: CommonErrors.PERMISSION_DENIED });
+      await expect(falkorDBService.deleteGraph('team_b_graph'))
+        .rejects.toMatchObject({ name: CommonErrors.PERMISSION_DENIED });
+      expect(mockFalkorDB.mockSelectGraph).not.toHaveBeenCalled();
+    });
+
+    it('should reject denylisted graphs even if allowlisted', async () => {
+      Object.assign(config.falkorDB, { graphAllowlist: ['*'], graphDenylist: ['secrets'] });
+
+      await expect(falkorDBService.executeReadOnlyQuery('secrets', 'MATCH (n) RETURN n'))
+        .rejects.toThrow("Access to graph 'secrets' is not allowed");
+    });
+
+    it('should prepend the prefix to graph names sent to FalkorDB', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { graphPrefix: 'team_a:' });
+      mockFalkorDB.mockQuery.mockResolvedValue({ data: [] });
+      mockFalkorDB.mockDelete.mockResolvedValue(undefined);
+
+      // Act
+      await falkorDBService.executeQuery('movies', 'MATCH (n) RETURN n');
+      await falkorDBService.deleteGraph('movies');
+
+      // Assert
+      expect(mockFalkorDB.mockSelectGraph).toHaveBeenNthCalledWith(1, 'team_a:movies');
+      expect(mockFalkorDB.mockSelectGraph).toHaveBeenNthCalledWith(2, 'team_a:movies');
+    });
+
+    it('should list only visible graphs, without the prefix', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { graphPrefix: 'team_a:', graphDenylist: ['tmp_*'] });
+      mockFalkorDB.mockList.mockResolvedValue(['team_a:movies', 'team_a:tmp_1', 'team_b:movies', 'social']);
+
+      // Act
+      const graphs = await falkorDBService.listGraphs();
+
+      // Assert
+      expect(graphs).toEqual(['movies']);
+    });
+  });
+
+  describe('concurrency cap', () => {
+    beforeEach(() => {
+      (falkorDBService as any).client = {
+        selectGraph: mockFalkorDB.mockSelectGraph,
+        list: mockFalkorDB.mockList
+      };
+    });
+
+    afterEach(() => {
+      Object.assign(config.falkorDB, { maxConcurrentQueries: 0 });
+    });
+
+    it('should reject commands beyond the cap with a retry hint and release slots when they finish', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { maxConcurrentQueries: 1 });
+      let finishQuery: (value: unknown) => void = () => {};
+      mockFalkorDB.mockQuery.mockReturnValueOnce(new Promise(resolve => { finishQuery = resolve; }));
+      mockFalkorDB.mockList.mockResolvedValue(['movies']);
+
+      // Act
+      const running = falkorDBService.executeQuery('movies', 'MATCH (n) RETURN n');
+
+      // Assert
+      expect(falkorDBService.inFlightQueries).toBe(1);
+      await expect(falkorDBService.listGraphs()).rejects.toMatchObject({
+        name: CommonErrors.RATE_LIMITED,
+        details: { limit: 'concurrency', retryAfterSeconds: 1 },
+      });
+      finishQuery({ data: [] });
+      await running;
+      expect(falkorDBService.inFlightQueries).toBe(0);
+      await expect(falkorDBService.listGraphs()).resolves.toEqual(['movies']);
+    });
+
+    it('should share the cap across connections', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { maxConcurrentQueries: 1 });
+      let finishQuery: (value: unknown) => void = () => {};
+      mockFalkorDB.mockQuery.mockReturnValueOnce(new Promise(resolve => { finishQuery = resolve; }));
+      const staging = new FalkorDBService('staging', 'falkordb://staging.internal');
+      (staging as any).client = { selectGraph: mockFalkorDB.mockSelectGraph, list: mockFalkorDB.mockList };
+
+      // Act
+      const running = falkorDBService.executeQuery('movies', 'MATCH (n) RETURN n');
+
+      // Assert
+      expect(FalkorDBService.totalInFlightQueries).toBe(1);
+      await expect(staging.listGraphs()).rejects.toMatchObject({ name: CommonErrors.RATE_LIMITED });
+      finishQuery({ data: [] });
+      await running;
+      expect(FalkorDBService.totalInFlightQueries).toBe(0);
+    });
+
+    it('should release the slot when a command fails', async () => {
+      Object.assign(config.falkorDB, { maxConcurrentQueries: 1 });
+      mockFalkorDB.mockRoQuery.mockRejectedValueOnce(new Error('Query timed out'));
+
+      await expect(falkorDBService.executeReadOnlyQuery('movies', 'MATCH (n) RETURN n')).rejects.toThrow();
+
+      expect(falkorDBService.inFlightQueries).toBe(0);
+    });
+  });
+
+  describe('ping', () => {
+    it('should fail when the client is not connected', async () => {
+      (falkorDBService as any).client = null;
+
+      await expect(falkorDBService.ping()).rejects.toMatchObject({ name: CommonErrors.CONNECTION_FAILED });
+      expect(falkorDBService.isConnected).toBe(false);
+    });
+
+    it('should resolve when FalkorDB answers', async () => {
+      (falkorDBService as any).client = { connection: Promise.resolve({ ping: mockFalkorDB.mockPing.mockResolvedValue('PONG') }) };
+
+      await expect(falkorDBService.ping()).resolves.toBeUndefined();
+      expect(falkorDBService.isConnected).toBe(true);
+    });
+
+    it('should fail when FalkorDB does not answer in time', async () => {
+      (falkorDBService as any).client = { connection: Promise.resolve({ ping: jest.fn(() => new Promise(() => {})) }) };
+
+      await expect(falkorDBService.ping(10)).rejects.toThrow('FalkorDB is not reachable: no PING reply within 10ms');
+    });
+
+    it('should count a PING queued behind a running query as an answer', async () => {
+      // Arrange - the PING only comes back after the query, as on a real connection
+      let finishQuery!: () => void;
+      const query = new Promise(resolve => { finishQuery = () => resolve({ data: [] }); });
+      (falkorDBService as any).client = {
+        connection: Promise.resolve({ ping: jest.fn(() => query) }),
+        selectGraph: jest.fn().mockReturnValue({ query: jest.fn(() => query) }),
+      };
+      const running = falkorDBService.executeQuery('testGraph', 'MATCH p=()-[*]->() RETURN p');
+
+      // Act & Assert
+      await expect(falkorDBService.ping(10)).resolves.toBeUndefined();
+      finishQuery();
+      await expect(running).resolves.toEqual({ data: [] });
+    });
+
+    it('should fail when the PING waits behind a command that got no reply within the stall timeout', async () => {
+      // Arrange - FalkorDB hangs: neither the query nor the PING ever comes back
+      (falkorDBService as any).client = {
+        connection: Promise.resolve({ ping: jest.fn(() => new Promise(() => {})) }),
+        selectGraph: jest.fn().mockReturnValue({ query: jest.fn(() => new Promise(() => {})) }),
+      };
+      void falkorDBService.executeQuery('testGraph', 'MATCH (n) RETURN n');
+      (falkorDBService as any).lastProgress = Date.now() - 60001;
+
+      // Act & Assert
+      await expect(falkorDBService.ping(10)).rejects.toThrow('FalkorDB is not reachable: no reply to any command for over 60000ms');
+    });
+  });
+
+  describe('replicas', () => {
+    let service: FalkorDBService;
+    let queries: Record<string, jest.Mock>;
+
+    // One mocked client per host, recording which host each read-only query ran on
+    const clientFor = (host: string) => {
+      queries[host] = jest.fn().mockResolvedValue({ data: [{ host }] });
+      return {
+        connection: Promise.resolve({ ping: jest.fn().mockResolvedValue('PONG') }),
+        selectGraph: jest.fn().mockReturnValue({ roQuery: queries[host], query: queries[host] }),
+        close: jest.fn().mockResolvedValue(undefined),
+        on: jest.fn(),
+      };
+    };
+
+    beforeEach(async () => {
+      queries = {};
+      mockFalkorDB.FalkorDB.connect.mockImplementation(async ({ socket }: any) => clientFor(socket.host));
+      service = new FalkorDBService();
+      service.setReplicas(['falkordb://replica-a:6380', 'falkordb://replica-b:6380']);
+      await service.initialize();
+      await service.connectReplicas();
+    });
+
+    afterEach(async () => {
+      await service.close();
+      config.falkorDB.replicaFallback = 'primary';
+    });
+
+    it('should inherit the credentials of the primary unless the connection string sets them', () => {
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledWith({
+        socket: { host: 'replica-a', port: 6380 },
+        username: 'testuser',
+        password: 'testpass',
+      });
+    });
+
+    it('should spread read-only queries across the replicas', async () => {
+      // Act
+      const hosts = [];
+      for (let i = 0; i < 4; i++) {
+        hosts.push(((await service.executeReadOnlyQuery('movies', 'MATCH (n) RETURN n')) as any).data[0].host);
+      }
+
+      // Assert
+      expect(hosts).toEqual(['replica-a', 'replica-b', 'replica-a', 'replica-b']);
+      expect(queries['localhost']).not.toHaveBeenCalled();
+    });
+
+    it('should send writes to the primary', async () => {
+      // Act
+      await service.executeQuery('movies', 'CREATE (n)');
+
+      // Assert
+      expect(queries['localhost']).toHaveBeenCalledWith('CREATE (n)', undefined);
+      expect(queries['replica-a']).not.toHaveBeenCalled();
+      expect(queries['replica-b']).not.toHaveBeenCalled();
+    });
+
+    it('should skip a replica whose connection fails', async () => {
+      // Arrange
+      queries['replica-a'].mockRejectedValue(new Error('connect ECONNREFUSED 10.0.0.1:6380'));
+
+      // Act
+      const result = await service.executeReadOnlyQuery('movies', 'MATCH (n) RETURN n');
+
+      // Assert
+      expect(result).toEqual({ data: [{ host: 'replica-b' }] });
+    });
+
+    it('should not retry queries that fail for other reasons', async () => {
+      // Arrange
+      queries['replica-a'].mockRejectedValue(new Error('Invalid input at position 1'));
+
+      // Act & Assert
+      await expect(service.executeReadOnlyQuery('movies', 'MATCH (n RETURN n')).rejects.toBeInstanceOf(AppError);
+      expect(queries['replica-b']).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the primary when every replica is down', async () => {
+      // Arrange
+      queries['replica-a'].mockRejectedValue(new Error('Socket closed unexpectedly'));
+      queries['replica-b'].mockRejectedValue(new Error('Socket closed unexpectedly'));
+
+      // Act
+      const result = await service.executeReadOnlyQuery('movies', 'MATCH (n) RETURN n');
+
+      // Assert
+      expect(result).toEqual({ data: [{ host: 'localhost' }] });
+    });
+
+    it('should fail reads when every replica is down and the fallback policy is fail', async () => {
+      // Arrange
+      config.falkorDB.replicaFallback = 'fail';
+      await service.close();
+      await service.initialize();
+
+      // Act & Assert
+      await expect(service.executeReadOnlyQuery('movies', 'MATCH (n) RETURN n')).rejects.toMatchObject({
+        name: CommonErrors.CONNECTION_FAILED,
+        message: "No FalkorDB replica of connection 'default' is available for read-only queries",
+      });
+      expect(queries['localhost']).not.toHaveBeenCalled();
+    });
+
+    it('should list the replicas with their status', async () => {
+      // Arrange
+      const replica = (service as any).replicas[1] as FalkorDBService;
+      await replica.close();
+
+      // Act
+      const info = service.describe();
+
+      // Assert
+      expect(info.replicas).toEqual([
+        { name: 'default-replica-1', default: false, host: 'replica-a', port: 6380, tls: false, status: 'connected' },
+        { name: 'default-replica-2', default: false, host: 'replica-b', port: 6380, tls: false, status: 'disconnected' },
+      ]);
+    });
+
+    it('should reject a malformed replica connection string', () => {
+      expect(() => service.setReplicas(['falkordb://:6380'])).toThrow(
+        "Replica 1 of connection 'default': Invalid FalkorDB connection string: the host is missing"
+      );
+    });
+  });
+
+  describe('sentinel and cluster modes', () => {
+    let service: FalkorDBService;
+    let clients: Record<string, any>;
+
+    // One mocked client per host; each is an event emitter like the real client
+    const clientFor = (host: string) => {
+      const client = Object.assign(new EventEmitter(), {
+        connection: Promise.resolve({ ping: jest.fn().mockResolvedValue('PONG') }),
+        selectGraph: jest.fn().mockReturnValue({
+          query: jest.fn().mockResolvedValue({ data: [{ host }] }),
+          roQuery: jest.fn().mockResolvedValue({ data: [{ host }] }),
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      });
+      clients[host] = client;
+      return client;
+    };
+
+    // Let the background master check run to completion
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+      clients = {};
+      mockFalkorDB.FalkorDB.connect.mockImplementation(async ({ socket }: any) => clientFor(socket.host));
+      service = new FalkorDBService();
+    });
+
+    afterEach(async () => {
+      await service.close();
+      Object.assign(config.falkorDB, { mode: 'standalone', sentinels: [], sentinelMaster: '', sentinelPassword: '', clusterNodes: [], url: '' });
+    });
+
+    const useSentinels = () => {
+      Object.assign(config.falkorDB, { mode: 'sentinel', sentinels: ['sentinel-1', 'sentinel-2:26380'], sentinelMaster: 'mymaster' });
+    };
+
+    it('should connect to the master the sentinels name', async () => {
+      // Arrange
+      useSentinels();
+      config.falkorDB.sentinelPassword = 'sentinel-pass';
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.5', port: 6380 });
+
+      // Act
+      await service.initialize();
+
+      // Assert
+      expect(resolveSentinelMaster).toHaveBeenCalledWith(
+        [{ host: 'sentinel-1', port: 26379 }, { host: 'sentinel-2', port: 26380 }],
+        'mymaster',
+        { password: 'sentinel-pass' }
+      );
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledWith({
+        socket: { host: '10.0.0.5', port: 6380 },
+        username: 'testuser',
+        password: 'testpass',
+      });
+      expect(service.describe()).toMatchObject({ mode: 'sentinel', host: '10.0.0.5', port: 6380, status: 'connected' });
+    });
+
+    it('should take the mode from a connection string scheme', async () => {
+      // Arrange
+      config.falkorDB.url = 'falkordb+sentinel://sentinel-a:26379/cache';
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.9', port: 6379 });
+
+      // Act
+      await service.initialize();
+
+      // Assert
+      expect(resolveSentinelMaster).toHaveBeenCalledWith([{ host: 'sentinel-a', port: 26379 }], 'cache', {});
+      expect(clients['10.0.0.9']).toBeDefined();
+    });
+
+    it('should require the sentinels and the master name in sentinel mode', async () => {
+      // Arrange
+      config.falkorDB.mode = 'sentinel';
+
+      // Act & Assert
+      await expect(service.initialize()).rejects.toMatchObject({
+        name: CommonErrors.INITIALIZATION_FAILED,
+        message: 'FALKORDB_MODE=sentinel requires FALKORDB_SENTINELS and FALKORDB_SENTINEL_MASTER',
+      });
+      expect(mockFalkorDB.FalkorDB.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown mode', async () => {
+      // Arrange
+      config.falkorDB.mode = 'sentinal';
+
+      // Act & Assert
+      await expect(service.initialize()).rejects.toThrow("FALKORDB_MODE must be standalone, sentinel or cluster, got 'sentinal'");
+    });
+
+    it('should reconnect to the new master after a failover', async () => {
+      // Arrange
+      useSentinels();
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.5', port: 6379 });
+      await service.initialize();
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.6', port: 6379 });
+
+      // Act
+      clients['10.0.0.5'].emit('error', new Error('connect ECONNREFUSED 10.0.0.5:6379'));
+      await settle();
+
+      // Assert
+      expect(clients['10.0.0.5'].close).toHaveBeenCalled();
+      expect(service.describe()).toMatchObject({ host: '10.0.0.6', status: 'connected' });
+      await expect(service.executeQuery('movies', 'CREATE (n)')).resolves.toEqual({ data: [{ host: '10.0.0.6' }] });
+    });
+
+    it('should stay on the master while the sentinels still name it', async () => {
+      // Arrange
+      useSentinels();
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.5', port: 6379 });
+      await service.initialize();
+
+      // Act
+      clients['10.0.0.5'].emit('error', new Error('Socket closed unexpectedly'));
+      await settle();
+
+      // Assert
+      expect(resolveSentinelMaster).toHaveBeenCalledTimes(2);
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(1);
+      expect(clients['10.0.0.5'].close).not.toHaveBeenCalled();
+    });
+
+    it('should check the master when a write is refused by a demoted master', async () => {
+      // Arrange
+      useSentinels();
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.5', port: 6379 });
+      await service.initialize();
+      clients['10.0.0.5'].selectGraph().query.mockRejectedValue(new Error("READONLY You can't write against a read only replica."));
+      (resolveSentinelMaster as jest.Mock).mockResolvedValue({ host: '10.0.0.6', port: 6379 });
+
+      // Act
+      await expect(service.executeQuery('movies', 'CREATE (n)')).rejects.toThrow();
+      await settle();
+
+      // Assert
+      await expect(service.executeQuery('movies', 'CREATE (n)')).resolves.toEqual({ data: [{ host: '10.0.0.6' }] });
+    });
+
+    it('should connect to the first cluster seed node that answers', async () => {
+      // Arrange
+      Object.assign(config.falkorDB, { mode: 'cluster', clusterNodes: ['node-1:7000', 'node-2:7001'] });
+      mockFalkorDB.FalkorDB.connect.mockImplementationOnce(async () => {
+        throw new Error('connect ECONNREFUSED node-1:7000');
+      });
+
+      // Act
+      await service.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect.mock.calls.map(([options]: any[]) => options.socket)).toEqual([
+        { host: 'node-1', port: 7000 },
+        { host: 'node-2', port: 7001 },
+      ]);
+      expect(service.describe()).toMatchObject({ mode: 'cluster', host: 'node-1', port: 7000, status: 'connected' });
+    });
+
+    it('should use the host and port as the seed node when no cluster nodes are listed', async () => {
+      // Arrange
+      config.falkorDB.mode = 'cluster';
+
+      // Act
+      await service.initialize();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect.mock.calls[0][0].socket).toEqual({ host: 'localhost', port: 6379 });
+    });
+
+    it('should not accept a sentinel or cluster connection as a replica', () => {
+      expect(() => service.setReplicas(['falkordb+cluster://node-1'])).toThrow(
+        "Replica 1 of connection 'default': a replica must be a single server, not a sentinel or cluster connection"
+      );
+    });
+  });
+
+  describe('health monitor and reconnection', () => {
+    let service: FalkorDBService;
+    let clients: any[];
+
+    // Mocked clients in connection order; each is an event emitter like the real client
+    const nextClient = async () => {
+      const n = clients.length + 1;
+      const client = Object.assign(new EventEmitter(), {
+        connection: Promise.resolve({ ping: jest.fn().mockResolvedValue('PONG') }),
+        selectGraph: jest.fn().mockReturnValue({ query: jest.fn().mockResolvedValue({ data: [{ client: n }] }) }),
+        close: jest.fn().mockResolvedValue(undefined),
+      });
+      clients.push(client);
+      return client;
+    };
+
+    const loseConnection = async (client: any) => {
+      (await client.connection).ping.mockRejectedValue(new Error('Socket closed unexpectedly'));
+    };
+
+    // Let background checks and reconnections run until they wait on something
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(async () => {
+      clients = [];
+      mockFalkorDB.FalkorDB.connect.mockImplementation(nextClient);
+      service = new FalkorDBService();
+      await service.initialize();
+    });
+
+    afterEach(async () => {
+      await service.close();
+      Object.assign(config.falkorDB, { healthCheckInterval: 10000, pingTimeout: 2000, stallTimeout: 60000, reconnectBehavior: 'queue', reconnectQueueTimeout: 30000 });
+    });
+
+    it('should reconnect when FalkorDB stops answering PINGs', async () => {
+      // Arrange
+      await loseConnection(clients[0]);
+
+      // Act
+      await service.checkHealth();
+
+      // Assert
+      expect(clients[0].close).toHaveBeenCalled();
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(2);
+      expect(service.status).toBe('connected');
+      await expect(service.executeQuery('movies', 'CREATE (n)')).resolves.toEqual({ data: [{ client: 2 }] });
+    });
+
+    it('should report the lost and restored connection as log notifications', async () => {
+      // Arrange
+      await loseConnection(clients[0]);
+
+      // Act
+      await service.checkHealth();
+
+      // Assert
+      expect(logger.warn).toHaveBeenCalledWith('Lost the connection to FalkorDB, reconnecting', {
+        connection: 'default',
+        error: 'FalkorDB is not reachable: Socket closed unexpectedly',
+        whileReconnecting: 'queue',
+      });
+      expect(logger.info).toHaveBeenCalledWith('FalkorDB connection restored', { connection: 'default' });
+    });
+
+    it('should leave a healthy connection alone', async () => {
+      // Act
+      await service.checkHealth();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(1);
+      expect(clients[0].close).not.toHaveBeenCalled();
+    });
+
+    it('should not PING or drop a connection while a slow query runs on it', async () => {
+      // Arrange: the query outlasts several checks and the ping timeout, and a PING would wait behind it
+      Object.assign(config.falkorDB, { healthCheckInterval: 5, pingTimeout: 10 });
+      let finishQuery: (value: unknown) => void = () => {};
+      const queryDone = new Promise(resolve => { finishQuery = resolve; });
+      clients[0].selectGraph.mockReturnValueOnce({ query: jest.fn(() => queryDone) });
+      const connection = await clients[0].connection;
+      connection.ping.mockClear().mockImplementation(() => queryDone.then(() => 'PONG'));
+
+      // Act
+      const query = service.executeQuery('movies', 'MATCH (n) RETURN n');
+      service.startHealthMonitor();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      finishQuery({ data: [{ slow: true }] });
+
+      // Assert
+      await expect(query).resolves.toEqual({ data: [{ slow: true }] });
+      expect(connection.ping).not.toHaveBeenCalled();
+      expect(clients[0].close).not.toHaveBeenCalled();
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(1);
+      expect(service.status).toBe('connected');
+    });
+
+    it('should drop a connection whose query got no reply within the stall timeout', async () => {
+      // Arrange: FalkorDB hangs; disconnecting the client fails the commands still waiting on it
+      Object.assign(config.falkorDB, { healthCheckInterval: 5, pingTimeout: 10, stallTimeout: 0 });
+      let failQuery: (error: Error) => void = () => {};
+      clients[0].selectGraph.mockReturnValueOnce({
+        query: jest.fn(() => new Promise((_, reject) => { failQuery = reject; })),
+      });
+      clients[0].close.mockImplementation(async () => failQuery(new Error('Disconnects client')));
+      (await clients[0].connection).ping.mockImplementation(() => new Promise(() => {}));
+
+      // Act
+      const query = service.executeQuery('movies', 'MATCH (n) RETURN n').catch(error => error);
+      service.startHealthMonitor();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      // Assert
+      await expect(query).resolves.toMatchObject({ message: expect.stringContaining('Disconnects client') });
+      expect(clients[0].close).toHaveBeenCalled();
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(2);
+      expect(service.inFlightQueries).toBe(0);
+      expect(service.status).toBe('connected');
+    });
+
+    it('should keep a connection whose PING waits behind a slow query', async () => {
+      // Arrange
+      config.falkorDB.pingTimeout = 10;
+      let finishQuery: (value: unknown) => void = () => {};
+      const queryDone = new Promise(resolve => { finishQuery = resolve; });
+      clients[0].selectGraph.mockReturnValueOnce({ query: jest.fn(() => queryDone) });
+      (await clients[0].connection).ping.mockImplementation(() => queryDone.then(() => 'PONG'));
+
+      // Act
+      const query = service.executeQuery('movies', 'MATCH (n) RETURN n');
+      await service.checkHealth();
+      finishQuery({ data: [{ slow: true }] });
+
+      // Assert
+      await expect(query).resolves.toEqual({ data: [{ slow: true }] });
+      expect(clients[0].close).not.toHaveBeenCalled();
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the connection at once when the client reports an error', async () => {
+      // Arrange
+      service.startHealthMonitor();
+      await loseConnection(clients[0]);
+
+      // Act
+      clients[0].emit('error', new Error('Socket closed unexpectedly'));
+      await settle();
+
+      // Assert
+      expect(mockFalkorDB.FalkorDB.connect).toHaveBeenCalledTimes(2);
+      expect(service.status).toBe('connected');
+    });
+
+    it('should not start the monitor when the interval is 0', () => {
+      // Arrange
+      config.falkorDB.healthCheckInterval = 0;
+
+      // Act
+      service.startHealthMonitor();
+
+      // Assert
+      expect((service as any).healthTimer).toBeNull();
+    });
+
+    describe('calls made while reconnecting', () => {
+      let connectNext: () => void;
+
+      beforeEach(async () => {
+        // The reconnection waits until the test lets it through
+        mockFalkorDB.FalkorDB.connect.mockImplementationOnce(
+          () => new Promise(resolve => { connectNext = () => resolve(nextClient()); })
+        );
+        await loseConnection(clients[0]);
+      });
+
+      it('should queue them until the connection is back', async () => {
+        // Arrange
+        const check = service.checkHealth();
+        await settle();
+
+        // Act
+        const query = service.executeQuery('movies', 'CREATE (n)');
+        connectNext();
+
+        // Assert
+        await expect(query).resolves.toEqual({ data: [{ client: 2 }] });
+        await check;
+      });
+
+      it('should fail them once the queue timeout passes', async () => {
+        // Arrange
+        config.falkorDB.reconnectQueueTimeout = 10;
+        const check = service.checkHealth();
+        await settle();
+
+        // Act & Assert
+        await expect(service.listGraphs()).rejects.toMatchObject({
+          name: CommonErrors.CONNECTION_FAILED,
+          message: 'The connection to FalkorDB was lost and was not re-established within 10ms',
+        });
+        connectNext();
+        await check;
+      });
+
+      it('should fail them at once when the reconnect behavior is fail', async () => {
+        // Arrange
+        config.falkorDB.reconnectBehavior = 'fail';
+        const check = service.checkHealth();
+        await settle();
+
+        // Act & Assert
+        await expect(service.executeQuery('movies', 'CREATE (n)')).rejects.toMatchObject({
+          name: CommonErrors.CONNECTION_FAILED,
+          message: 'The connection to FalkorDB was lost and is being re-established',
+          hint: expect.stringContaining('Retry'),
+        });
+        connectNext();
+        await check;
+      });
+
+      it('should stop waiting when the caller cancels', async () => {
+        // Arrange
+        const controller = new AbortController();
+        const check = service.checkHealth();
+        await settle();
+
+        // Act
+        const query = service.executeQuery('movies', 'CREATE (n)', undefined, false, { signal: controller.signal });
+        controller.abort();
+
+        // Assert
+        await expect(query).rejects.toMatchObject({ name: CommonErrors.OPERATION_CANCELLED });
+        connectNext();
+        await check;
+      });
+    });
+
+    describe('calls made before the first connection', () => {
+      let named: FalkorDBService;
+
+      beforeEach(() => {
+        named = new FalkorDBService('staging', 'falkordb://staging.internal');
+      });
+
+      afterEach(async () => {
+        await named.close();
+      });
+
+      it('should queue them until the connection is up', async () => {
+        // Arrange
+        let connectNext: () => void = () => {};
+        mockFalkorDB.FalkorDB.connect.mockImplementationOnce(
+          () => new Promise(resolve => { connectNext = () => resolve(nextClient()); })
+        );
+        const initializing = named.initialize();
+        await settle();
+
+        // Act
+        const query = named.executeQuery('movies', 'CREATE (n)');
+        connectNext();
+
+        // Assert
+        await expect(query).resolves.toEqual({ data: [{ client: 2 }] });
+        await initializing;
+      });
+
+      it('should fail them at once when the reconnect behavior is fail', async () => {
+        // Arrange
+        config.falkorDB.reconnectBehavior = 'fail';
+        mockFalkorDB.FalkorDB.connect.mockImplementationOnce(() => new Promise(() => {}));
+        void named.initialize();
+        await settle();
+
+        // Act & Assert
+        await expect(named.listGraphs()).rejects.toMatchObject({
+          name: CommonErrors.CONNECTION_FAILED,
+          message: "FalkorDB connection 'staging' is still connecting",
+          hint: expect.stringContaining('Retry'),
+        });
+      });
+
+      it('should fail queued calls with the reason when the connection attempt fails', async () => {
+        // Arrange
+        (named as any).maxRetries = 0;
+        let failConnect: () => void = () => {};
+        mockFalkorDB.FalkorDB.connect.mockImplementationOnce(
+          () => new Promise((_, reject) => { failConnect = () => reject(new Error('connect ECONNREFUSED 10.0.0.5:6379')); })
+        );
+        const initializing = named.initialize().catch(() => {});
+        await settle();
+
+        // Act
+        const query = named.executeQuery('movies', 'CREATE (n)');
+        failConnect();
+
+        // Assert
+        await expect(query).rejects.toMatchObject({
+          name: CommonErrors.CONNECTION_FAILED,
+          message: "FalkorDB connection 'staging' is down: Failed to connect to FalkorDB after 0 attempts: connect ECONNREFUSED 10.0.0.5:6379",
+        });
+        await initializing;
+      });
+
+      it('should name a connection that is down and why', async () => {
+        // Arrange
+        (named as any).lastError = 'connect ECONNREFUSED 10.0.0.5:6379';
+
+        // Act & Assert
+        await expect(named.executeQuery('movies', 'MATCH (n) RETURN n')).rejects.toMatchObject({
+          name: CommonErrors.CONNECTION_FAILED,
+          message: "FalkorDB connection 'staging' is down: connect ECONNREFUSED 10.0.0.5:6379",
+          hint: expect.stringContaining('list_connections'),
+        });
+      });
+    });
+  });
+});
@@ -1,22 +1,602 @@
+import { readFileSync } from 'fs';
 import { FalkorDB } from 'falkordb';
 import { config } from '../config/index.js';
 import { AppError, CommonErrors } from '../errors/AppError.js';
 import { logger } from './logger.service.js';
+import { metricsService } from './metrics.service.js';
+import { parseExecutionPlan, PlanOperation } from '../utils/execution-plan.js';
+import { classifyFalkorDBError } from '../utils/falkordb-errors.js';
+import {
+  DEFAULT_SENTINEL_PORT,
+  FalkorDBConnectionMode,
+  FalkorDBConnectionOptions,
+  FalkorDBNode,
+  parseFalkorDBConnectionString,
+  parseFalkorDBNode,
+} from '../utils/connection-parser.js';
+import { filterVisibleGraphs, GraphAccessRules, isGraphAllowed, toGraphKey } from '../utils/graph-access.js';
+import { resolveSentinelMaster } from '../utils/sentinel.js';
 
 // Local type alias to avoid importing internal types from 'falkordb/dist/src/...'
 // This provides better compatibility across falkordb versions
 type GraphReply = unknown;
+type SocketOptions = NonNullable<NonNullable<Parameters<typeof FalkorDB.connect>[0]>['socket']>;
+
+/**
+ * Per-call execution options for queries
+ */
+export interface QueryExecutionOptions {
+  // Query timeout in milliseconds, passed to FalkorDB's TIMEOUT argument. Falls back to FALKORDB_QUERY_TIMEOUT
+  timeout?: number;
+  // Abort signal of the originating MCP request; the call stops waiting once it fires
+  signal?: AbortSignal;
+}
+
+/**
+ * Serialize a query parameter value the same way the FalkorDB driver does for GRAPH.QUERY
+ */
+function queryParamToString(param: unknown): string {
+  if (param === null || param === undefined) {
+    return 'null';
+  }
+  switch (typeof param) {
+    case 'string':
+      return `"${param.replace(/["\\]/g, '\\$&')}"`;
+    case 'number':
+    case 'boolean':
+      return param.toString();
+  }
+  if (Array.isArray(param)) {
+    return `[${param.map(queryParamToString).join(',')}]`;
+  }
+  if (typeof param === 'object') {
+    return `{${Object.entries(param).map(([key, value]) => `${key}:${queryParamToString(value)}`).join(',')}}`;
+  }
+  throw new TypeError(`Unexpected param type ${typeof param}`);
+}
+
+/**
+ * Prefix a query with a CYPHER parameter preamble
+ * GRAPH.EXPLAIN and GRAPH.PROFILE take no options argument, so parameters must be inlined
+ */
+function withParamsPreamble(query: string, params?: Record<string, any>): string {
+  if (!params || Object.keys(params).length === 0) {
+    return query;
+  }
+  const preamble = Object.entries(params).map(([key, value]) => `${key}=${queryParamToString(value)}`).join(' ');
+  return `CYPHER ${preamble} ${query}`;
+}
+
+/**
+ * Throw a cancellation error if the signal has already fired
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AppError(
+      CommonErrors.OPERATION_CANCELLED,
+      'Query cancelled: the client aborted the request',
+      true
+    );
+  }
+}
+
+/**
+ * Resolve with the operation's result, or reject with a cancellation error as soon as the signal fires
+ * FalkorDB keeps executing the query server-side (bounded by its TIMEOUT); only the wait is abandoned
+ */
+function raceAbort<T>(operation: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return operation;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new AppError(
+        CommonErrors.OPERATION_CANCELLED,
+        'Query cancelled: the client aborted the request',
+        true
+      ));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    operation.then(
+      (result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * The deployment's graph access rules, from FALKORDB_GRAPH_ALLOWLIST, FALKORDB_GRAPH_DENYLIST and FALKORDB_GRAPH_PREFIX
+ */
+function graphAccessRules(): GraphAccessRules {
+  return {
+    allowlist: config.falkorDB.graphAllowlist,
+    denylist: config.falkorDB.graphDenylist,
+    prefix: config.falkorDB.graphPrefix,
+  };
+}
+
+/**
+ * Name of the connection configured by FALKORDB_URL / FALKORDB_HOST and friends, used when a tool names none
+ */
+export const DEFAULT_CONNECTION = 'default';
+
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+
+/**
+ * A connection as reported by list_connections; never includes credentials
+ */
+export interface ConnectionInfo {
+  name: string;
+  default: boolean;
+  // Sentinel and cluster connections; absent for a standalone server
+  mode?: FalkorDBConnectionMode;
+  // The server, the current master in sentinel mode (the first sentinel until connected), or the first cluster node
+  host: string;
+  port: number;
+  database?: number;
+  // Whether the connection is configured for TLS
+  tls: boolean;
+  status: ConnectionStatus;
+  // Why the last connection attempt failed, while disconnected
+  lastError?: string;
+  // Replicas that serve this connection's read-only queries
+  replicas?: ConnectionInfo[];
+}
+
+/**
+ * Where and how to connect to FalkorDB
+ */
+interface ConnectionSettings extends FalkorDBConnectionOptions {
+  tls: boolean;
+  servername?: string;
+}
+
+/**
+ * Parse a connection string, reporting a malformed one as a configuration error
+ */
+function parseConnectionUrl(url: string): FalkorDBConnectionOptions {
+  try {
+    return parseFalkorDBConnectionString(url);
+  } catch (error) {
+    throw new AppError(CommonErrors.INITIALIZATION_FAILED, error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+/**
+ * The default connection's sentinel or cluster settings, from FALKORDB_MODE and the settings it needs
+ * @throws AppError (INITIALIZATION_FAILED) if the mode is unknown or its settings are missing or malformed
+ */
+function deploymentFromFields(): Partial<ConnectionSettings> {
+  const { mode, host, port, sentinels, sentinelMaster, clusterNodes } = config.falkorDB;
+  const parseNodes = (addresses: string[], defaultPort: number, setting: string): FalkorDBNode[] => {
+    try {
+      return addresses.map(address => parseFalkorDBNode(address, defaultPort));
+    } catch (error) {
+      throw new AppError(CommonErrors.INITIALIZATION_FAILED, `${setting}: ${error instanceof Error ? error.message : String(error)}`, true);
+    }
+  };
+
+  switch (mode) {
+    case 'standalone':
+      return {};
+    case 'sentinel': {
+      if (sentinels.length === 0 || !sentinelMaster) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          'FALKORDB_MODE=sentinel requires FALKORDB_SENTINELS and FALKORDB_SENTINEL_MASTER',
+          true
+        );
+      }
+      const nodes = parseNodes(sentinels, DEFAULT_SENTINEL_PORT, 'FALKORDB_SENTINELS');
+      return { mode, nodes, masterName: sentinelMaster, host: nodes[0].host, port: nodes[0].port };
+    }
+    case 'cluster': {
+      const nodes = clusterNodes.length > 0 ? parseNodes(clusterNodes, port, 'FALKORDB_CLUSTER_NODES') : [{ host, port }];
+      return { mode, nodes, host: nodes[0].host, port: nodes[0].port };
+    }
+    default:
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `FALKORDB_MODE must be standalone, sentinel or cluster, got '${mode}'`,
+        true
+      );
+  }
+}
+
+/**
+ * The connection settings. A named connection is described by its connection string alone. The default
+ * connection uses FALKORDB_HOST, FALKORDB_PORT and the other fields, overridden by whatever the connection
+ * string (FALKORDB_URL or the command-line argument) specifies
+ * @throws AppError (INITIALIZATION_FAILED) if the connection string or the FALKORDB_MODE settings are malformed
+ */
+function connectionSettings(namedUrl?: string): ConnectionSettings {
+  if (namedUrl !== undefined) {
+    const parsed = parseConnectionUrl(namedUrl);
+    return { ...parsed, tls: parsed.tls ?? false };
+  }
+
+  const { url, host, port, username, password, tls } = config.falkorDB;
+  const fromFields: ConnectionSettings = {
+    host,
+    port,
+    username: username || undefined,
+    password: password || undefined,
+    tls: tls.enabled,
+    ...(tls.servername && { servername: tls.servername }),
+  };
+  if (!url) {
+    return { ...fromFields, ...deploymentFromFields() };
+  }
+
+  // The connection string's scheme decides the mode; FALKORDB_MODE only applies to the fields
+  const parsed = parseConnectionUrl(url);
+  return {
+    ...fromFields,
+    ...parsed,
+    // Credentials can stay out of the URL, in FALKORDB_USERNAME and FALKORDB_PASSWORD
+    username: parsed.username ?? fromFields.username,
+    password: parsed.password ?? fromFields.password,
+    tls: parsed.tls ?? fromFields.tls,
+  };
+}
+
+/**
+ * The connection settings of a replica: its connection string's host and port, and the primary's credentials,
+ * TLS mode, database and timeouts unless the connection string sets them
+ * @throws AppError (INITIALIZATION_FAILED) if the connection string is malformed
+ */
+function replicaSettings(primary: ConnectionSettings, url: string): ConnectionSettings {
+  const parsed = parseConnectionUrl(url);
+  const database = parsed.database ?? primary.database;
+  const connectTimeout = parsed.connectTimeout ?? primary.connectTimeout;
+  const socketTimeout = parsed.socketTimeout ?? primary.socketTimeout;
+  // The primary's servername names the primary's certificate, so it isn't inherited
+  return {
+    host: parsed.host,
+    port: parsed.port,
+    username: parsed.username ?? primary.username,
+    password: parsed.password ?? primary.password,
+    tls: parsed.tls ?? primary.tls,
+    ...(database !== undefined && { database }),
+    ...(connectTimeout !== undefined && { connectTimeout }),
+    ...(socketTimeout !== undefined && { socketTimeout }),
+  };
+}
+
+/**
+ * host:port, with IPv6 hosts in brackets
+ */
+function formatNode(node: FalkorDBNode): string {
+  return node.host.includes(':') ? `[${node.host}]:${node.port}` : `${node.host}:${node.port}`;
+}
+
+/**
+ * Socket options for FalkorDB.connect(), with the TLS settings from FALKORDB_TLS_* when TLS is enabled
+ * @throws AppError (INITIALIZATION_FAILED) if the client certificate is half-configured or a file can't be read
+ */
+function socketOptions(settings: ConnectionSettings): SocketOptions {
+  const { tls } = config.falkorDB;
+  const base = {
+    host: settings.host,
+    port: settings.port,
+    ...(settings.connectTimeout !== undefined && { connectTimeout: settings.connectTimeout }),
+    ...(settings.socketTimeout !== undefined && { socketTimeout: settings.socketTimeout }),
+  };
+  if (!settings.tls) {
+    return base;
+  }
+
+  if (Boolean(tls.certFile) !== Boolean(tls.keyFile)) {
+    throw new AppError(
+      CommonErrors.INITIALIZATION_FAILED,
+      'FALKORDB_TLS_CERT_FILE and FALKORDB_TLS_KEY_FILE must be set together',
+      true
+    );
+  }
+  const readFile = (path: string): Buffer => {
+    try {
+      return readFileSync(path);
+    } catch (error) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `Failed to read FalkorDB TLS file '${path}': ${error instanceof Error ? error.message : String(error)}`,
+        true
+      );
+    }
+  };
+
+  return {
+    ...base,
+    tls: true,
+    ...(tls.caFile && { ca: readFile(tls.caFile) }),
+    ...(tls.certFile && { cert: readFile(tls.certFile), key: readFile(tls.keyFile) }),
+    ...(settings.servername && { servername: settings.servername }),
+    rejectUnauthorized: tls.rejectUnauthorized,
+  };
+}
+
+/**
+ * Connect to one server with the connection's credentials and database
+ * @param node - The server to connect to; the socket options' host and port when omitted
+ */
+function connectNode(settings: ConnectionSettings, socket: SocketOptions, node?: FalkorDBNode): Promise<FalkorDB> {
+  return FalkorDB.connect({
+    socket: node ? { ...socket, host: node.host, port: node.port } : socket,
+    ...(settings.username && { username: settings.username }),
+    ...(settings.password && { password: settings.password }),
+    ...(settings.database !== undefined && { database: settings.database }),
+  });
+}
+
+/**
+ * A client for one FalkorDB connection: the default one, a named one from FALKORDB_CONNECTIONS, or a replica.
+ * A connection with replicas sends its read-only queries to them and everything else to its own client
+ */
+export class FalkorDBService {
+  // Commands in flight across every connection and replica; FALKORDB_MAX_CONCURRENT_QUERIES caps their sum
+  private static inFlightTotal = 0;
 
-class FalkorDBService {
   private client: FalkorDB | null = null;
   private readonly maxRetries = 5;
   private retryCount = 0;
   private initializingPromise: Promise<void> | null = null;
+  private inFlight = 0;
+  // Last sign of life while busy: when FalkorDB last answered here, or when a command started on an idle connection
+  private lastProgress = 0;
+  // Whether the current client was opened with TLS configured; the socket itself is not exposed by the driver
+  private tlsConfigured = false;
+  private lastError?: string;
+  private replicas: FalkorDBService[] = [];
+  private nextReplica = 0;
+  // Sentinel mode: how the client was connected and to which master, to follow failovers
+  private sentinel: { settings: ConnectionSettings; socket: SocketOptions; master: FalkorDBNode } | null = null;
+  private masterCheck: Promise<void> | null = null;
+  // Health monitor: the PING timer, the check under way, and whether a lost connection is being re-established
+  private healthTimer: NodeJS.Timeout | null = null;
+  private healthCheck: Promise<void> | null = null;
+  private reconnecting = false;
+  // Set by close() so a connection attempt under way gives up instead of leaving an unowned client behind
+  private closed = false;
+  // Calls waiting for the connection to come back (FALKORDB_RECONNECT_BEHAVIOR=queue)
+  private readonly waiters = new Set<() => void>();
 
-  constructor() {
+  /**
+   * @param connectionName - Name callers select the connection by
+   * @param url - Connection string of a named connection or replica; omitted for the default connection
+   * @param primary - The connection a replica serves reads for, whose settings it inherits
+   */
+  constructor(
+    readonly connectionName: string = DEFAULT_CONNECTION,
+    private readonly url?: string,
+    private readonly primary?: FalkorDBService
+  ) {
     // Don't initialize in constructor - use explicit initialization
   }
 
+  /**
+   * Set the replicas that serve this connection's read-only queries, replacing any previous ones; none is connected yet
+   * @param urls - Connection strings of the replicas
+   * @throws AppError (INITIALIZATION_FAILED) if a connection string is malformed
+   */
+  setReplicas(urls: string[]): void {
+    const replicas = urls.map((url, index) => {
+      const replica = new FalkorDBService(`${this.connectionName}-replica-${index + 1}`, url, this);
+      try {
+        // Validate the connection string up front, as the primary's is
+        if (parseConnectionUrl(url).mode) {
+          throw new Error('a replica must be a single server, not a sentinel or cluster connection');
+        }
+        replica.settings();
+      } catch (error) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          `Replica ${index + 1} of connection '${this.connectionName}': ${error instanceof Error ? error.message : String(error)}`,
+          true
+        );
+      }
+      return replica;
+    });
+    this.replicas = replicas;
+    this.nextReplica = 0;
+  }
+
+  /**
+   * Connect the replicas; one that can't be reached is skipped by reads and reported by list_connections
+   */
+  async connectReplicas(): Promise<void> {
+    await Promise.all(this.replicas.map(replica =>
+      replica.initialize().catch(() => {
+        // Already logged by the replica; it stays disconnected
+      })
+    ));
+  }
+
+  /**
+   * Start PINGing FalkorDB every FALKORDB_HEALTH_CHECK_INTERVAL milliseconds, here and on the replicas.
+   * A connection that stops answering is dropped and re-established with the same backoff as at startup,
+   * and one that is down is retried on every check. A busy connection is not PINGed, since the PING would wait
+   * behind its commands; one that stalls past the stall timeout is checked, and dropped, like an idle one
+   */
+  startHealthMonitor(): void {
+    this.replicas.forEach(replica => replica.startHealthMonitor());
+    const interval = config.falkorDB.healthCheckInterval;
+    if (interval <= 0 || this.healthTimer) {
+      return;
+    }
+    this.healthTimer = setInterval(() => {
+      // Busy: the PING would only wait behind the running commands
+      if (this.client && this.isBusy) {
+        return;
+      }
+      void this.checkHealth();
+    }, interval);
+    // Don't keep the process alive just for health checks
+    this.healthTimer.unref();
+  }
+
+  stopHealthMonitor(): void {
+    this.replicas.forEach(replica => replica.stopHealthMonitor());
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Check the connection once, reconnecting if it is dead or down; concurrent calls share one check
+   */
+  checkHealth(): Promise<void> {
+    if (!this.healthCheck) {
+      this.healthCheck = this._checkHealth().finally(() => {
+        this.healthCheck = null;
+      });
+    }
+    return this.healthCheck;
+  }
+
+  private async _checkHealth(): Promise<void> {
+    // A connection attempt is already under way
+    if (this.initializingPromise) {
+      return;
+    }
+
+    if (this.client) {
+      try {
+        await this.ping();
+        return;
+      } catch (error) {
+        await this.dropClient(error);
+      }
+    }
+
+    try {
+      await this.initialize();
+    } catch {
+      // Already logged by initialize(); the next check tries again
+    }
+  }
+
+  /**
+   * Give up on a client that stopped answering; calls made until the connection is back are queued or refused
+   */
+  private async dropClient(reason: unknown): Promise<void> {
+    const previous = this.client;
+    this.client = null;
+    this.sentinel = null;
+    this.tlsConfigured = false;
+    if (!this.reconnecting) {
+      this.reconnecting = true;
+      // Fire-and-forget: state change, sent to MCP clients as a log notification
+      logger.warn('Lost the connection to FalkorDB, reconnecting', {
+        connection: this.connectionName,
+        error: reason instanceof Error ? reason.message : String(reason),
+        whileReconnecting: config.falkorDB.reconnectBehavior,
+      });
+    }
+    try {
+      // Commands still waiting on the dead connection fail
+      await previous?.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+
+  /**
+   * Wait for the client when there is none. While the connection is being established, at startup or after it
+   * was lost, calls wait for it (FALKORDB_RECONNECT_BEHAVIOR=queue, for up to FALKORDB_RECONNECT_QUEUE_TIMEOUT)
+   * or fail at once ('fail')
+   * @throws AppError (CONNECTION_FAILED) if the connection is down, or does not come up in time
+   * @throws AppError (OPERATION_CANCELLED) if the signal fires while waiting
+   */
+  private async connectedClient(signal?: AbortSignal): Promise<FalkorDB> {
+    if (!this.reconnecting && !this.initializingPromise) {
+      throw this.connectionDown();
+    }
+
+    const hint = this.reconnecting
+      ? 'The server is reconnecting to FalkorDB on its own. Retry in a few seconds.'
+      : 'The server is still connecting to FalkorDB. Retry in a few seconds.';
+    const { reconnectBehavior, reconnectQueueTimeout } = config.falkorDB;
+    if (reconnectBehavior === 'fail') {
+      throw new AppError(
+        CommonErrors.CONNECTION_FAILED,
+        this.reconnecting
+          ? 'The connection to FalkorDB was lost and is being re-established'
+          : `FalkorDB connection '${this.connectionName}' is still connecting`,
+        true,
+        { hint }
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: AppError) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiters.delete(wake);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const wake = () => settle();
+      const onAbort = () => settle(new AppError(
+        CommonErrors.OPERATION_CANCELLED,
+        'Query cancelled: the client aborted the request',
+        true
+      ));
+      const timer = setTimeout(() => settle(new AppError(
+        CommonErrors.CONNECTION_FAILED,
+        this.reconnecting
+          ? `The connection to FalkorDB was lost and was not re-established within ${reconnectQueueTimeout}ms`
+          : `FalkorDB connection '${this.connectionName}' did not connect within ${reconnectQueueTimeout}ms`,
+        true,
+        { hint }
+      )), reconnectQueueTimeout);
+
+      this.waiters.add(wake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    if (!this.client) {
+      // Closed while waiting, or the connection attempt failed
+      throw this.closed
+        ? new AppError(CommonErrors.CONNECTION_FAILED, 'The FalkorDB connection was closed', true)
+        : this.connectionDown();
+    }
+    return this.client;
+  }
+
+  /**
+   * The error for a call on a connection that is down, with the reason its last attempt failed
+   */
+  private connectionDown(): AppError {
+    return new AppError(
+      CommonErrors.CONNECTION_FAILED,
+      `FalkorDB connection '${this.connectionName}' is down${this.lastError ? `: ${this.lastError}` : ''}`,
+      true,
+      { hint: 'list_connections shows the status of each connection. Retry later, or select another connection.' }
+    );
+  }
+
+  /**
+   * Where and how this connection reaches FalkorDB
+   * @throws AppError (INITIALIZATION_FAILED) if the connection string is malformed
+   */
+  private settings(): ConnectionSettings {
+    return this.primary && this.url !== undefined
+      ? replicaSettings(this.primary.settings(), this.url)
+      : connectionSettings(this.url);
+  }
+
   async initialize(): Promise<void> {
     // Idempotency guard: skip if already connected
     if (this.client) {
@@ -28,41 +608,84 @@ class FalkorDBService {
     }
 
     this.retryCount = 0;
+    this.closed = false;
     this.initializingPromise = this._initialize();
 
     try {
       await this.initializingPromise;
+    } catch (error) {
+      // Kept for list_connections, which reports why a connection is down
+      this.lastError = error instanceof Error ? error.message : String(error);
+      // Queued calls fail now with the reason instead of waiting out the queue timeout
+      this.waiters.forEach(wake => wake());
+      throw error;
     } finally {
       this.initializingPromise = null;
     }
   }
 
   private async _initialize(): Promise<void> {
+    // Resolve settings and read certificate files once, up front: configuration errors are not worth retrying
+    const settings = this.settings();
+    const socket = socketOptions(settings);
+    const tls = { ...config.falkorDB.tls, enabled: settings.tls };
+    if (tls.enabled && !tls.rejectUnauthorized) {
+      // Fire-and-forget: configuration warning, not critical
+      logger.warn('FalkorDB TLS certificate verification is disabled (FALKORDB_TLS_REJECT_UNAUTHORIZED=false)');
+    }
+
     for (;; this.retryCount++) {
+      if (this.closed) {
+        throw new AppError(CommonErrors.CONNECTION_FAILED, 'The FalkorDB connection was closed', true);
+      }
       try {
         // Fire-and-forget: informational log, not critical
         logger.info('Attempting to connect to FalkorDB', {
-          host: config.falkorDB.host,
-          port: config.falkorDB.port,
+          connection: this.connectionName,
+          host: settings.host,
+          port: settings.port,
+          tls: tls.enabled,
+          ...(settings.database !== undefined && { database: settings.database }),
+          ...(settings.mode && { mode: settings.mode, nodes: settings.nodes?.map(formatNode) }),
           attempt: this.retryCount + 1
         });
 
-        this.client = await FalkorDB.connect({
-          socket: {
-            host: config.falkorDB.host,
-            port: config.falkorDB.port,
-          },
-          ...(config.falkorDB.username && { username: config.falkorDB.username }),
-          ...(config.falkorDB.password && { password: config.falkorDB.password }),
-        });
+        const { client, master } = await this.connectClient(settings, socket);
+        this.client = client;
+        this.sentinel = master ? { settings, socket, master } : null;
+        this.watchErrors(client);
+        if (this.closed) {
+          // Closed while connecting: the client is closed below, as nothing else would close it
+          throw new AppError(CommonErrors.CONNECTION_FAILED, 'The FalkorDB connection was closed', true);
+        }
 
         // Test connection
         const connection = await this.client.connection;
         await connection.ping();
+        this.lastProgress = Date.now();
 
+        // With tls: true the client only connects after a completed TLS handshake, never falling back to plain TCP
+        this.tlsConfigured = tls.enabled;
         // Fire-and-forget: informational log, not critical
-        logger.info('Successfully connected to FalkorDB');
+        logger.info(`Successfully connected to FalkorDB over ${tls.enabled ? 'TLS' : 'plain TCP (no TLS)'}`, {
+          connection: this.connectionName,
+          ...(master && { master: formatNode(master) }),
+          tls: tls.enabled,
+          ...(tls.enabled && {
+            servername: settings.servername || settings.host,
+            verifiedCertificate: tls.rejectUnauthorized,
+            clientCertificate: Boolean(tls.certFile),
+          }),
+        });
         this.retryCount = 0;
+        this.lastError = undefined;
+        if (this.reconnecting) {
+          this.reconnecting = false;
+          // Fire-and-forget: state change, sent to MCP clients as a log notification
+          logger.info('FalkorDB connection restored', { connection: this.connectionName });
+        }
+        // Queued calls go ahead on the new client
+        this.waiters.forEach(wake => wake());
         return;
       } catch (error) {
         // Clean up any partially connected client before retrying or throwing
@@ -73,13 +696,19 @@ class FalkorDBService {
             // Ignore cleanup errors
           }
           this.client = null;
+          this.sentinel = null;
+        }
+        if (this.closed) {
+          throw error;
         }
         
         if (this.retryCount < this.maxRetries) {
           // Fire-and-forget: informational log before retry delay
           logger.warn('Failed to connect to FalkorDB, retrying...', {
+            connection: this.connectionName,
             attempt: this.retryCount + 1,
             maxRetries: this.maxRetries,
+            tls: tls.enabled,
             error: error instanceof Error ? error.message : String(error)
           });
 
@@ -92,44 +721,241 @@ class FalkorDBService {
             true
           );
           
-          await logger.error('FalkorDB connection failed permanently', appError);
+          await logger.error('FalkorDB connection failed permanently', appError, { connection: this.connectionName });
           throw appError;
         }
       }
     }
   }
 
-  async executeQuery(graphName: string, query: string, params?: Record<string, any>, readOnly: boolean = false): Promise<GraphReply> {
-    if (!this.client) {
+  /**
+   * Connect a client for the connection's mode: to the server, to the master the sentinels name, or to
+   * the first cluster seed node that answers (the client then discovers the rest of the cluster)
+   * @returns The client, and in sentinel mode the master it is connected to
+   */
+  private async connectClient(
+    settings: ConnectionSettings,
+    socket: SocketOptions
+  ): Promise<{ client: FalkorDB; master?: FalkorDBNode }> {
+    switch (settings.mode) {
+      case 'sentinel': {
+        const master = await this.resolveMaster(settings, socket);
+        return { client: await connectNode(settings, socket, master), master };
+      }
+      case 'cluster': {
+        let lastError: unknown;
+        for (const node of settings.nodes ?? []) {
+          try {
+            return { client: await connectNode(settings, socket, node) };
+          } catch (error) {
+            lastError = error;
+          }
+        }
+        throw lastError;
+      }
+      default:
+        return { client: await connectNode(settings, socket) };
+    }
+  }
+
+  /**
+   * Ask the sentinels for the current master, over TLS when the connection uses it
+   */
+  private resolveMaster(settings: ConnectionSettings, socket: SocketOptions): Promise<FalkorDBNode> {
+    const { sentinelUsername, sentinelPassword } = config.falkorDB;
+    return resolveSentinelMaster(settings.nodes ?? [], settings.masterName ?? '', {
+      ...(sentinelUsername && { username: sentinelUsername }),
+      ...(sentinelPassword && { password: sentinelPassword }),
+      // The certificate settings apply to the sentinels too; the servername names the master's certificate
+      ...(socket.tls && { tls: { ca: socket.ca, cert: socket.cert, key: socket.key, rejectUnauthorized: socket.rejectUnauthorized } }),
+      ...(settings.connectTimeout !== undefined && { timeoutMs: settings.connectTimeout }),
+    });
+  }
+
+  /**
+   * Handle the client's socket errors, which would otherwise crash the process. In sentinel mode they may
+   * mean a failover, so the sentinels are asked for the master again; otherwise the health monitor checks
+   * the connection at once instead of waiting for its next PING
+   */
+  private watchErrors(client: FalkorDB): void {
+    client.on('error', () => {
+      if (this.sentinel) {
+        this.checkMaster();
+      } else if (this.healthTimer) {
+        void this.checkHealth();
+      }
+    });
+  }
+
+  /**
+   * Ask the sentinels for the master, one check at a time, and move the client to it if it changed
+   */
+  private checkMaster(): void {
+    if (!this.sentinel || this.masterCheck) {
+      return;
+    }
+    this.masterCheck = this.followMaster()
+      .catch((error) => {
+        // Fire-and-forget: the next connection error triggers another check
+        logger.warn('Failed to check the FalkorDB master with the sentinels', {
+          connection: this.connectionName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.masterCheck = null;
+      });
+  }
+
+  private async followMaster(): Promise<void> {
+    const sentinel = this.sentinel;
+    if (!sentinel) {
+      return;
+    }
+    const master = await this.resolveMaster(sentinel.settings, sentinel.socket);
+    if (master.host === sentinel.master.host && master.port === sentinel.master.port) {
+      return;
+    }
+
+    // Fire-and-forget: informational log, not critical
+    logger.warn('FalkorDB master changed, reconnecting', {
+      connection: this.connectionName,
+      from: formatNode(sentinel.master),
+      to: formatNode(master),
+    });
+    const client = await connectNode(sentinel.settings, sentinel.socket, master);
+    this.watchErrors(client);
+    if (this.sentinel !== sentinel) {
+      // Closed or reconnected while connecting
+      await client.close();
+      return;
+    }
+
+    const previous = this.client;
+    this.client = client;
+    this.sentinel = { ...sentinel, master };
+    try {
+      // Commands still waiting on the old master fail; later ones go to the new master
+      await previous?.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+    // Fire-and-forget: informational log, not critical
+    logger.info('Reconnected to the new FalkorDB master', { connection: this.connectionName, master: formatNode(master) });
+  }
+
+  /**
+   * Execute a query on a specific graph. Read-only queries go to a replica when the connection has any
+   * @param graphName - The name of the graph to query
+   * @param query - The OpenCypher query to execute
+   * @param params - Optional query parameters
+   * @param readOnly - Whether to run the query with GRAPH.RO_QUERY
+   * @param executionOptions - Optional timeout and abort signal
+   * @returns Query result
+   */
+  async executeQuery(
+    graphName: string,
+    query: string,
+    params?: Record<string, any>,
+    readOnly: boolean = false,
+    executionOptions: QueryExecutionOptions = {}
+  ): Promise<GraphReply> {
+    if (readOnly && this.replicas.length > 0) {
+      return this.readFromReplicas(graphName, query, params, executionOptions);
+    }
+    return this.runQuery(graphName, query, params, readOnly, executionOptions);
+  }
+
+  /**
+   * Run a read-only query on the next available replica, round-robin. A replica that is not connected or
+   * whose connection fails is skipped; when none is left, FALKORDB_REPLICA_FALLBACK decides between
+   * reading from the primary and failing
+   * @throws AppError (CONNECTION_FAILED) if no replica is available and the fallback policy is 'fail'
+   */
+  private async readFromReplicas(
+    graphName: string,
+    query: string,
+    params: Record<string, any> | undefined,
+    executionOptions: QueryExecutionOptions
+  ): Promise<GraphReply> {
+    const count = this.replicas.length;
+    const first = this.nextReplica;
+    this.nextReplica = (this.nextReplica + 1) % count;
+
+    for (let i = 0; i < count; i++) {
+      const replica = this.replicas[(first + i) % count];
+      if (!replica.isConnected) {
+        continue;
+      }
+      try {
+        return await replica.runQuery(graphName, query, params, true, executionOptions);
+      } catch (error) {
+        if (!(error instanceof AppError) || error.name !== CommonErrors.CONNECTION_FAILED) {
+          throw error;
+        }
+        // Fire-and-forget: informational log, the read moves on to the next replica
+        logger.warn('FalkorDB replica failed, trying the next one', { connection: replica.connectionName, error: error.message });
+      }
+    }
+
+    if (config.falkorDB.replicaFallback === 'fail') {
       throw new AppError(
         CommonErrors.CONNECTION_FAILED,
-        'FalkorDB client not initialized. Call initialize() first.',
-        true
+        `No FalkorDB replica of connection '${this.connectionName}' is available for read-only queries`,
+        true,
+        { hint: 'Retry later, or run the query without readOnly to use the primary. Set FALKORDB_REPLICA_FALLBACK=primary to read from the primary while the replicas are down.' }
       );
     }
+    // Fire-and-forget: informational log, not critical
+    logger.warn('No FalkorDB replica is available, reading from the primary', { connection: this.connectionName });
+    return this.runQuery(graphName, query, params, true, executionOptions);
+  }
+
+  /**
+   * Execute a query with this connection's own client
+   */
+  private async runQuery(
+    graphName: string,
+    query: string,
+    params: Record<string, any> | undefined,
+    readOnly: boolean,
+    executionOptions: QueryExecutionOptions
+  ): Promise<GraphReply> {
+    const graphKey = this.resolveGraphKey(graphName);
+    const { signal } = executionOptions;
+    const timeout = executionOptions.timeout ?? config.falkorDB.queryTimeout;
+    throwIfAborted(signal);
+    const client = this.client ?? await this.connectedClient(signal);
 
     try {
-      const graph = this.client.selectGraph(graphName);
-      const options = params && Object.keys(params).length > 0 ? { params } : undefined;
-      const result = readOnly
-        ? await graph.roQuery(query, options)
-        : await graph.query(query, options);
+      const graph = client.selectGraph(graphKey);
+      const hasParams = params !== undefined && Object.keys(params).length > 0;
+      const hasTimeout = timeout !== undefined && timeout > 0;
+      const options = hasParams || hasTimeout
+        ? { ...(hasParams && { params }), ...(hasTimeout && { TIMEOUT: timeout }) }
+        : undefined;
+      const result = await raceAbort(
+        this.runLimited(readOnly ? 'ro_query' : 'query', () => readOnly ? graph.roQuery(query, options) : graph.query(query, options)),
+        signal
+      );
       
       // Fire-and-forget: informational log, not critical
       logger.debug('Query executed successfully', {
         graphName,
         query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
-        hasParams: options !== undefined,
+        hasParams,
+        ...(hasTimeout && { timeout }),
         readOnly
       });
       
       return result;
     } catch (error) {
-      const appError = new AppError(
-        CommonErrors.OPERATION_FAILED,
-        `Failed to execute ${readOnly ? 'read-only ' : ''}query on graph '${graphName}': ${error instanceof Error ? error.message : String(error)}`,
-        true
-      );
+      if (error instanceof AppError && error.name === CommonErrors.OPERATION_CANCELLED) {
+        await logger.warn('Query cancelled by client', { graphName, readOnly });
+        throw error;
+      }
+
+      const appError = classifyFalkorDBError(error, `Failed to execute ${readOnly ? 'read-only ' : ''}query on graph '${graphName}'`);
 
       // Sanitize query for error logging using same truncation as debug logs
       const safeQuery = query.substring(0, 100) + (query.length > 100 ? '...' : '');
@@ -144,10 +970,122 @@ class FalkorDBService {
    * @param graphName - The name of the graph to query
    * @param query - The OpenCypher query to execute
    * @param params - Optional query parameters
+   * @param executionOptions - Optional timeout and abort signal
    * @returns Query result
    */
-  async executeReadOnlyQuery(graphName: string, query: string, params?: Record<string, any>): Promise<GraphReply> {
-    return this.executeQuery(graphName, query, params, true);
+  async executeReadOnlyQuery(
+    graphName: string,
+    query: string,
+    params?: Record<string, any>,
+    executionOptions?: QueryExecutionOptions
+  ): Promise<GraphReply> {
+    return this.executeQuery(graphName, query, params, true, executionOptions);
+  }
+
+  /**
+   * Get the execution plan of a query without running it (GRAPH.EXPLAIN)
+   * @param graphName - The name of the graph to plan against
+   * @param query - The OpenCypher query to explain
+   * @param params - Optional query parameters
+   * @param executionOptions - Optional abort signal; planning takes no timeout
+   * @returns The root operation of the execution plan tree
+   */
+  async explainQuery(
+    graphName: string,
+    query: string,
+    params?: Record<string, any>,
+    executionOptions: QueryExecutionOptions = {}
+  ): Promise<PlanOperation | null> {
+    const graphKey = this.resolveGraphKey(graphName);
+    const { signal } = executionOptions;
+    throwIfAborted(signal);
+    const client = this.client ?? await this.connectedClient(signal);
+
+    try {
+      const graph = client.selectGraph(graphKey);
+      const rawPlan = await raceAbort(
+        this.runLimited('explain', () => graph.explain(withParamsPreamble(query, params))),
+        signal
+      );
+      const plan = parseExecutionPlan(rawPlan);
+
+      // Fire-and-forget: informational log, not critical
+      logger.debug('Query explained successfully', {
+        graphName,
+        query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+      });
+
+      return plan;
+    } catch (error) {
+      if (error instanceof AppError && error.name === CommonErrors.OPERATION_CANCELLED) {
+        await logger.warn('Query cancelled by client', { graphName, explain: true });
+        throw error;
+      }
+      const appError = classifyFalkorDBError(error, `Failed to explain query on graph '${graphName}'`);
+
+      const safeQuery = query.substring(0, 100) + (query.length > 100 ? '...' : '');
+      await logger.error('Query explain failed', appError, { graphName, query: safeQuery });
+      throw appError;
+    }
+  }
+
+  /**
+   * Run a query and collect per-operator statistics (GRAPH.PROFILE)
+   * Note: the query is actually executed, including any writes it performs
+   * @param graphName - The name of the graph to profile against
+   * @param query - The OpenCypher query to profile
+   * @param params - Optional query parameters
+   * @param executionOptions - Optional timeout and abort signal
+   * @returns The root operation of the profiled plan tree
+   */
+  async profileQuery(
+    graphName: string,
+    query: string,
+    params?: Record<string, any>,
+    executionOptions: QueryExecutionOptions = {}
+  ): Promise<PlanOperation | null> {
+    const graphKey = this.resolveGraphKey(graphName);
+    const { signal } = executionOptions;
+    const timeout = executionOptions.timeout ?? config.falkorDB.queryTimeout;
+    const hasTimeout = timeout !== undefined && timeout > 0;
+    throwIfAborted(signal);
+    const client = this.client ?? await this.connectedClient(signal);
+
+    try {
+      const inlined = withParamsPreamble(query, params);
+      const rawPlan = await raceAbort(
+        this.runLimited('profile', async () => {
+          // The driver's profile() takes no TIMEOUT, so the command is sent as-is. A cluster client's connection
+          // is a random node that may not own the key, so there the query runs unbounded
+          if (hasTimeout && this.settings().mode !== 'cluster') {
+            const connection = await client.connection;
+            return connection.sendCommand(['GRAPH.PROFILE', graphKey, inlined, 'TIMEOUT', String(timeout)]);
+          }
+          return client.selectGraph(graphKey).profile(inlined);
+        }),
+        signal
+      );
+      const plan = parseExecutionPlan(rawPlan);
+
+      // Fire-and-forget: informational log, not critical
+      logger.debug('Query profiled successfully', {
+        graphName,
+        query: query.substring(0, 100) + (query.length > 100 ? '...' : ''),
+        ...(hasTimeout && { timeout }),
+      });
+
+      return plan;
+    } catch (error) {
+      if (error instanceof AppError && error.name === CommonErrors.OPERATION_CANCELLED) {
+        await logger.warn('Query cancelled by client', { graphName, profile: true });
+        throw error;
+      }
+      const appError = classifyFalkorDBError(error, `Failed to profile query on graph '${graphName}'`);
+
+      const safeQuery = query.substring(0, 100) + (query.length > 100 ? '...' : '');
+      await logger.error('Query profile failed', appError, { graphName, query: safeQuery });
+      throw appError;
+    }
   }
 
   /**
@@ -155,25 +1093,15 @@ class FalkorDBService {
    * @returns Array of graph names
    */
   async listGraphs(): Promise<string[]> {
-    if (!this.client) {
-      throw new AppError(
-        CommonErrors.CONNECTION_FAILED,
-        'FalkorDB client not initialized. Call initialize() first.',
-        true
-      );
-    }
+    const client = this.client ?? await this.connectedClient();
 
     try {
-      const graphs = await this.client.list();
+      const graphs = filterVisibleGraphs(await this.runLimited('list', () => client.list()), graphAccessRules());
       // Fire-and-forget: informational log, not critical
       logger.debug('Listed graphs successfully', { count: graphs.length });
       return graphs;
     } catch (error) {
-      const appError = new AppError(
-        CommonErrors.OPERATION_FAILED,
-        `Failed to list graphs: ${error instanceof Error ? error.message : String(error)}`,
-        true
-      );
+      const appError = classifyFalkorDBError(error, 'Failed to list graphs');
       
       await logger.error('Failed to list graphs', appError);
       throw appError;
@@ -181,31 +1109,218 @@ class FalkorDBService {
   }
 
   async deleteGraph(graphName: string): Promise<void> {
+    const graphKey = this.resolveGraphKey(graphName);
+    const client = this.client ?? await this.connectedClient();
+
+    try {
+      const graph = client.selectGraph(graphKey);
+      await this.runLimited('delete', () => graph.delete());
+      // Fire-and-forget: informational log, not critical
+      logger.info('Graph deleted successfully', { graphName });
+    } catch (error) {
+      const appError = classifyFalkorDBError(error, `Failed to delete graph '${graphName}'`);
+      
+      await logger.error('Failed to delete graph', appError, { graphName });
+      throw appError;
+    }
+  }
+
+  /**
+   * Whether the client is connected (initialized and not closed)
+   */
+  get isConnected(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Whether the client and every replica are connected
+   */
+  get isFullyConnected(): boolean {
+    return this.isConnected && this.replicas.every(replica => replica.isConnected);
+  }
+
+  /**
+   * Whether the connection is up, being established (including retries), or down
+   */
+  get status(): ConnectionStatus {
+    if (this.client) {
+      return 'connected';
+    }
+    return this.initializingPromise ? 'connecting' : 'disconnected';
+  }
+
+  /**
+   * Describe the connection for list_connections: where it points, whether it is up, and its replicas
+   * @throws AppError (INITIALIZATION_FAILED) if the connection string is malformed
+   */
+  describe(): ConnectionInfo {
+    const settings = this.settings();
+    const status = this.status;
+    const server = this.sentinel?.master ?? settings;
+    return {
+      name: this.connectionName,
+      default: this.url === undefined,
+      ...(settings.mode && { mode: settings.mode }),
+      host: server.host,
+      port: server.port,
+      ...(settings.database !== undefined && { database: settings.database }),
+      tls: settings.tls,
+      status,
+      ...(status === 'disconnected' && this.lastError && { lastError: this.lastError }),
+      ...(this.replicas.length > 0 && { replicas: this.replicas.map(replica => replica.describe()) }),
+    };
+  }
+
+  /**
+   * Whether the current connection to FalkorDB was opened with TLS configured. The driver does not expose the
+   * socket to confirm the handshake, but with TLS configured it never connects without one
+   */
+  get tlsEnabled(): boolean {
+    return this.client !== null && this.tlsConfigured;
+  }
+
+  /**
+   * Check that FalkorDB answers a PING within the timeout (FALKORDB_PING_TIMEOUT by default), for readiness probes
+   * Probes bypass the concurrency cap so a busy server is not reported as down. FalkorDB answers a connection's
+   * commands in order, so while commands are in flight the PING waits behind them: one still queued when the
+   * timeout passes counts as an answer only while the connection is busy but not stalled (see isBusy)
+   * @throws AppError (CONNECTION_FAILED) if the client is not connected or FalkorDB does not answer
+   */
+  async ping(timeoutMs: number = config.falkorDB.pingTimeout): Promise<void> {
     if (!this.client) {
+      throw new AppError(CommonErrors.CONNECTION_FAILED, 'FalkorDB client not initialized', true);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const connection = await this.client.connection;
+      await Promise.race([
+        connection.ping(),
+        new Promise<void>((resolve, reject) => {
+          timer = setTimeout(() => {
+            if (this.isBusy) {
+              resolve();
+            } else if (this.inFlight > 0) {
+              reject(new Error(`no reply to any command for over ${this.stallTimeout}ms`));
+            } else {
+              reject(new Error(`no PING reply within ${timeoutMs}ms`));
+            }
+          }, timeoutMs);
+        }),
+      ]);
+      this.lastProgress = Date.now();
+    } catch (error) {
       throw new AppError(
         CommonErrors.CONNECTION_FAILED,
-        'FalkorDB client not initialized. Call initialize() first.',
+        `FalkorDB is not reachable: ${error instanceof Error ? error.message : String(error)}`,
         true
       );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * How long a connection with commands in flight may go without any reply before it counts as stalled:
+   * FALKORDB_STALL_TIMEOUT, and never less than a PING plus a query that runs to FALKORDB_QUERY_TIMEOUT
+   */
+  private get stallTimeout(): number {
+    const { stallTimeout, pingTimeout, queryTimeout } = config.falkorDB;
+    return Math.max(stallTimeout, pingTimeout + queryTimeout);
+  }
+
+  /**
+   * Whether commands are in flight and FalkorDB has shown a sign of life within the stall timeout
+   * A PING sent now would wait behind them, so it proves nothing either way
+   */
+  private get isBusy(): boolean {
+    return this.inFlight > 0 && Date.now() - this.lastProgress <= this.stallTimeout;
+  }
+
+  /**
+   * Number of FalkorDB commands currently in flight on this connection
+   */
+  get inFlightQueries(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Number of FalkorDB commands currently in flight across every connection and replica
+   */
+  static get totalInFlightQueries(): number {
+    return FalkorDBService.inFlightTotal;
+  }
+
+  /**
+   * Start a FalkorDB command under the global cap on in-flight commands (FALKORDB_MAX_CONCURRENT_QUERIES),
+   * shared by every connection and replica
+   * The slot is held until FalkorDB answers, even if the caller stopped waiting; the command's
+   * latency is recorded in the query duration metric under its name
+   * @throws AppError (RATE_LIMITED) if the cap is reached
+   */
+  private runLimited<T>(command: string, start: () => Promise<T>): Promise<T> {
+    const max = config.falkorDB.maxConcurrentQueries;
+    if (max > 0 && FalkorDBService.inFlightTotal >= max) {
+      throw new AppError(
+        CommonErrors.RATE_LIMITED,
+        `Too many concurrent queries: ${max} already in flight. Retry after 1s`,
+        true,
+        { details: { limit: 'concurrency', retryAfterSeconds: 1 } }
+      );
     }
 
+    const startTime = Date.now();
+    if (this.inFlight === 0) {
+      this.lastProgress = startTime;
+    }
+    this.inFlight++;
+    FalkorDBService.inFlightTotal++;
+    const release = () => {
+      this.lastProgress = Date.now();
+      this.inFlight--;
+      FalkorDBService.inFlightTotal--;
+      metricsService.observeQuery(command, Date.now() - startTime);
+    };
     try {
-      await this.client.selectGraph(graphName).delete();
-      // Fire-and-forget: informational log, not critical
-      logger.info('Graph deleted successfully', { graphName });
+      const operation = start();
+      operation.then(release, (error) => {
+        release();
+        // In sentinel mode, a lost connection or a write refused by a demoted master may mean a failover
+        const demoted = /^READONLY\b/.test(error instanceof Error ? error.message : String(error));
+        if (this.sentinel && (demoted || classifyFalkorDBError(error, command).name === CommonErrors.CONNECTION_FAILED)) {
+          this.checkMaster();
+        }
+      });
+      return operation;
     } catch (error) {
-      const appError = new AppError(
-        CommonErrors.OPERATION_FAILED,
-        `Failed to delete graph '${graphName}': ${error instanceof Error ? error.message : String(error)}`,
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Map a caller-visible graph name to its FalkorDB key, enforcing the graph access rules
+   * @throws AppError (PERMISSION_DENIED) if the graph is outside the allowed graphs
+   */
+  private resolveGraphKey(graphName: string): string {
+    const rules = graphAccessRules();
+    if (!isGraphAllowed(graphName, rules)) {
+      throw new AppError(
+        CommonErrors.PERMISSION_DENIED,
+        `Access to graph '${graphName}' is not allowed by the graph access rules`,
         true
       );
-      
-      await logger.error('Failed to delete graph', appError, { graphName });
-      throw appError;
     }
+    return toGraphKey(graphName, rules);
   }
 
   async close(): Promise<void> {
+    this.closed = true;
+    this.stopHealthMonitor();
+    await Promise.all(this.replicas.map(replica => replica.close()));
+    // Calls queued for a reconnection fail now instead of waiting out the queue timeout
+    this.reconnecting = false;
+    this.waiters.forEach(wake => wake());
     if (this.client) {
       try {
         await this.client.close();
@@ -216,6 +1331,8 @@ class FalkorDBService {
         logger.error('Error closing FalkorDB connection', error instanceof Error ? error : new Error(String(error)));
       } finally {
         this.client = null;
+        this.sentinel = null;
+        this.tlsConfigured = false;
         this.retryCount = 0;
       }
     }
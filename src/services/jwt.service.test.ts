@@ -0,0 +1,215 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    info: jest.fn().mockResolvedValue(undefined),
+    warn: jest.fn().mockResolvedValue(undefined),
+    error: jest.fn().mockResolvedValue(undefined),
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { JwtService } from './jwt.service.js';
+
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const edKeys = generateKeyPairSync('ed25519');
+const otherEcKeys = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signToken(
+  claims: Record<string, unknown>,
+  { alg = 'ES256', kid = 'ec-key', key = ecKeys.privateKey }: { alg?: string; kid?: string; key?: KeyObject } = {}
+): string {
+  const signingInput = `${encode({ alg, typ: 'JWT', kid })}.${encode(claims)}`;
+  const signature = alg === 'EdDSA'
+    ? sign(null, Buffer.from(signingInput), key)
+    : sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+  return `Bearer ${signingInput}.${signature.toString('base64url')}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: 'alice',
+  iss: 'https://auth.example.com',
+  aud: 'https://mcp.example.com',
+  exp: now() + 300,
+  scope: 'falkordb:read',
+  ...overrides,
+});
+
+describe('JwtService', () => {
+  let service: JwtService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    mockConfig = createMockConfig();
+    Object.assign(mockConfig.mcp.jwt, { issuer: 'https://auth.example.com', audience: 'https://mcp.example.com' });
+    service = new JwtService();
+    tempDir = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+    const jwksPath = join(tempDir, 'jwks.json');
+    writeFileSync(jwksPath, JSON.stringify({
+      keys: [
+        { ...ecKeys.publicKey.export({ format: 'jwk' }), kid: 'ec-key', use: 'sig' },
+        { ...edKeys.publicKey.export({ format: 'jwk' }), kid: 'ed-key' },
+        { ...otherEcKeys.publicKey.export({ format: 'jwk' }), kid: 'enc-key', use: 'enc' },
+      ],
+    }));
+    mockConfig.mcp.jwt.jwksFile = jwksPath;
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const expectRejected = (header: string | undefined, code: string, message?: RegExp) => {
+    try {
+      service.authenticate(header);
+    } catch (error) {
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).name).toBe(code);
+      if (message) {
+        expect((error as AppError).message).toMatch(message);
+      }
+      return;
+    }
+    throw new Error('Expected the token to be rejected');
+  };
+
+  describe('initialize', () => {
+    it('should require a key source', () => {
+      mockConfig.mcp.jwt.jwksFile = '';
+
+      expect(() => service.initialize()).toThrow('MCP_JWT_JWKS_FILE or MCP_JWT_PUBLIC_KEY_FILE');
+    });
+
+    it('should reject an unreadable JWKS file', () => {
+      mockConfig.mcp.jwt.jwksFile = join(tempDir, 'missing.json');
+
+      expect(() => service.initialize()).toThrow('Failed to load JWT verification keys');
+    });
+
+    it('should accept a PEM public key file', () => {
+      // Arrange
+      const pemPath = join(tempDir, 'public.pem');
+      writeFileSync(pemPath, ecKeys.publicKey.export({ format: 'pem', type: 'spki' }));
+      mockConfig.mcp.jwt.jwksFile = '';
+      mockConfig.mcp.jwt.publicKeyFile = pemPath;
+
+      // Act
+      service.initialize();
+
+      // Assert
+      expect(service.authenticate(signToken(validClaims(), { kid: 'any' }))).toEqual({ role: 'read-only', principal: 'jwt:alice' });
+    });
+  });
+
+  describe('authenticate', () => {
+    beforeEach(() => {
+      service.initialize();
+    });
+
+    it('should map a valid ES256 token to its role and principal', () => {
+      expect(service.authenticate(signToken(validClaims()))).toEqual({ role: 'read-only', principal: 'jwt:alice' });
+    });
+
+    it('should verify EdDSA tokens', () => {
+      const header = signToken(validClaims(), { alg: 'EdDSA', kid: 'ed-key', key: edKeys.privateKey });
+
+      expect(service.authenticate(header).role).toBe('read-only');
+    });
+
+    it('should grant the highest role among the token scopes', () => {
+      expect(service.authenticate(signToken(validClaims({ scope: 'openid falkordb:read falkordb:write' }))).role).toBe('read-write');
+      expect(service.authenticate(signToken(validClaims({ scope: undefined, scp: ['falkordb:admin'] }))).role).toBe('admin');
+    });
+
+    it('should return the graphs claim as the caller graph limits', () => {
+      const header = signToken(validClaims({ graphs: ['team_a_*', 'shared'] }));
+
+      expect(service.authenticate(header).graphs).toEqual(['team_a_*', 'shared']);
+    });
+
+    it('should read the graphs claim named by the configuration', () => {
+      mockConfig.mcp.jwt.graphsClaim = 'https://example.com/graphs';
+
+      const header = signToken(validClaims({ 'https://example.com/graphs': 'movies social' }));
+
+      expect(service.authenticate(header).graphs).toEqual(['movies', 'social']);
+    });
+
+    it('should reject a missing or malformed Authorization header', () => {
+      expectRejected(undefined, CommonErrors.AUTHENTICATION_FAILED);
+      expectRejected('Bearer not-a-jwt', CommonErrors.AUTHENTICATION_FAILED);
+      expectRejected('Basic dXNlcjpwYXNz', CommonErrors.AUTHENTICATION_FAILED);
+    });
+
+    it('should reject a token signed by an unknown key', () => {
+      const header = signToken(validClaims(), { key: otherEcKeys.privateKey });
+
+      expectRejected(header, CommonErrors.AUTHENTICATION_FAILED, /signature verification failed/);
+    });
+
+    it('should not verify with encryption keys from the JWKS', () => {
+      const header = signToken(validClaims(), { kid: 'enc-key', key: otherEcKeys.privateKey });
+
+      expectRejected(header, CommonErrors.AUTHENTICATION_FAILED, /signature verification failed/);
+    });
+
+    it('should reject tampered claims', () => {
+      // Arrange
+      const [scheme, token] = signToken(validClaims()).split(' ');
+      const [header, , signature] = token.split('.');
+      const forged = `${scheme} ${header}.${encode(validClaims({ scope: 'falkordb:admin' }))}.${signature}`;
+
+      // Act & Assert
+      expectRejected(forged, CommonErrors.AUTHENTICATION_FAILED, /signature verification failed/);
+    });
+
+    it('should reject unsigned and unsupported algorithms', () => {
+      const unsigned = `Bearer ${encode({ alg: 'none' })}.${encode(validClaims())}.`;
+
+      expectRejected(unsigned, CommonErrors.AUTHENTICATION_FAILED, /unsupported algorithm 'none'/);
+    });
+
+    it('should reject expired tokens beyond the clock tolerance', () => {
+      expectRejected(signToken(validClaims({ exp: now() - 120 })), CommonErrors.AUTHENTICATION_FAILED, /token expired/);
+      expect(service.authenticate(signToken(validClaims({ exp: now() - 30 }))).role).toBe('read-only');
+    });
+
+    it('should reject tokens without an expiry', () => {
+      expectRejected(signToken(validClaims({ exp: undefined })), CommonErrors.AUTHENTICATION_FAILED, /missing exp claim/);
+    });
+
+    it('should reject tokens that are not valid yet', () => {
+      expectRejected(signToken(validClaims({ nbf: now() + 600 })), CommonErrors.AUTHENTICATION_FAILED, /not yet valid/);
+    });
+
+    it('should check the issuer and audience', () => {
+      expectRejected(signToken(validClaims({ iss: 'https://evil.example.com' })), CommonErrors.AUTHENTICATION_FAILED, /unexpected issuer/);
+      expectRejected(signToken(validClaims({ aud: 'https://other.example.com' })), CommonErrors.AUTHENTICATION_FAILED, /unexpected audience/);
+      expect(service.authenticate(signToken(validClaims({ aud: ['https://other.example.com', 'https://mcp.example.com'] }))).role).toBe('read-only');
+    });
+
+    it('should reject tokens without a falkordb scope as insufficient', () => {
+      expectRejected(signToken(validClaims({ scope: 'openid profile' })), CommonErrors.PERMISSION_DENIED, /none of the required scopes/);
+    });
+  });
+});
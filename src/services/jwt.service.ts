@@ -0,0 +1,206 @@
+import { createPublicKey, KeyObject, verify, constants } from 'crypto';
+import { readFileSync } from 'fs';
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { AccessContext, Role } from '../models/access.types.js';
+import { logger } from './logger.service.js';
+
+// Scopes a token can carry, mapped to the role they grant; the highest granted role wins
+export const JWT_SCOPE_ROLES: Record<string, Role> = {
+  'falkordb:read': 'read-only',
+  'falkordb:write': 'read-write',
+  'falkordb:admin': 'admin',
+};
+
+// Supported signature algorithms: hash, key types and verification options
+const ALGORITHMS: Record<string, { hash: string | null; keyTypes: string[]; curve?: string; options?: object }> = {
+  RS256: { hash: 'sha256', keyTypes: ['rsa'] },
+  RS384: { hash: 'sha384', keyTypes: ['rsa'] },
+  RS512: { hash: 'sha512', keyTypes: ['rsa'] },
+  PS256: { hash: 'sha256', keyTypes: ['rsa', 'rsa-pss'], options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS384: { hash: 'sha384', keyTypes: ['rsa', 'rsa-pss'], options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  PS512: { hash: 'sha512', keyTypes: ['rsa', 'rsa-pss'], options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } },
+  ES256: { hash: 'sha256', keyTypes: ['ec'], curve: 'prime256v1', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', keyTypes: ['ec'], curve: 'secp384r1', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', keyTypes: ['ec'], curve: 'secp521r1', options: { dsaEncoding: 'ieee-p1363' } },
+  EdDSA: { hash: null, keyTypes: ['ed25519', 'ed448'] },
+};
+
+interface VerificationKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+function invalidToken(reason: string): AppError {
+  return new AppError(CommonErrors.AUTHENTICATION_FAILED, `Invalid bearer token: ${reason}`, true);
+}
+
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof decoded === 'object' && decoded !== null && !Array.isArray(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw invalidToken(`malformed ${name}`);
+}
+
+/**
+ * Parse a claim holding a list: either a JSON array of strings or a space/comma-separated string
+ */
+function claimList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * Validates JWT bearer tokens for the HTTP transport (MCP_AUTH_MODE=jwt) and maps their claims to access
+ * Tokens are verified against keys from MCP_JWT_JWKS_FILE or MCP_JWT_PUBLIC_KEY_FILE, and must
+ * match MCP_JWT_ISSUER and MCP_JWT_AUDIENCE when those are set
+ */
+export class JwtService {
+  private keys: VerificationKey[] = [];
+
+  /**
+   * Load the verification keys
+   * @throws AppError (INITIALIZATION_FAILED) if no key source is configured or a key can't be read
+   */
+  initialize(): void {
+    const { jwksFile, publicKeyFile } = config.mcp.jwt;
+    if (!jwksFile && !publicKeyFile) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        'MCP_AUTH_MODE=jwt requires MCP_JWT_JWKS_FILE or MCP_JWT_PUBLIC_KEY_FILE',
+        true
+      );
+    }
+
+    const keys: VerificationKey[] = [];
+    try {
+      if (jwksFile) {
+        const jwks = JSON.parse(readFileSync(jwksFile, 'utf8'));
+        if (!Array.isArray(jwks?.keys)) {
+          throw new Error('expected a JSON object with a "keys" array');
+        }
+        for (const jwk of jwks.keys) {
+          // Skip encryption keys; only signature keys can verify tokens
+          if (jwk.use && jwk.use !== 'sig') {
+            continue;
+          }
+          keys.push({ kid: jwk.kid, key: createPublicKey({ key: jwk, format: 'jwk' }) });
+        }
+      }
+      if (publicKeyFile) {
+        keys.push({ key: createPublicKey(readFileSync(publicKeyFile, 'utf8')) });
+      }
+    } catch (error) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `Failed to load JWT verification keys: ${error instanceof Error ? error.message : String(error)}`,
+        true
+      );
+    }
+
+    if (keys.length === 0) {
+      throw new AppError(CommonErrors.INITIALIZATION_FAILED, 'No JWT signature verification keys found', true);
+    }
+
+    this.keys = keys;
+    // Fire-and-forget: informational log, not critical
+    logger.info('JWT verification keys loaded', {
+      count: keys.length,
+      issuer: config.mcp.jwt.issuer || undefined,
+      audience: config.mcp.jwt.audience || undefined,
+    });
+  }
+
+  /**
+   * Verify the bearer token of a request and map its claims to the caller's access
+   * @throws AppError (AUTHENTICATION_FAILED) if the token is missing, malformed, expired or has a bad signature
+   * @throws AppError (PERMISSION_DENIED) if the token carries none of the falkordb:* scopes
+   */
+  authenticate(authorizationHeader: string | undefined): AccessContext {
+    const match = /^Bearer ([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]*)$/.exec(authorizationHeader ?? '');
+    if (!match) {
+      throw invalidToken('expected "Authorization: Bearer <JWT>"');
+    }
+    const [, encodedHeader, encodedPayload, encodedSignature] = match;
+
+    const header = decodeSegment(encodedHeader, 'header');
+    const algorithm = typeof header.alg === 'string' ? ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw invalidToken(`unsupported algorithm '${String(header.alg)}'`);
+    }
+
+    const candidates = this.keys.filter(({ kid, key }) =>
+      (header.kid === undefined || kid === undefined || kid === header.kid) &&
+      algorithm.keyTypes.includes(key.asymmetricKeyType ?? '') &&
+      (!algorithm.curve || key.asymmetricKeyDetails?.namedCurve === algorithm.curve)
+    );
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const verified = candidates.some(({ key }) => {
+      try {
+        return verify(algorithm.hash, signedData, { key, ...algorithm.options } as any, signature);
+      } catch {
+        return false;
+      }
+    });
+    if (!verified) {
+      throw invalidToken('signature verification failed');
+    }
+
+    const claims = decodeSegment(encodedPayload, 'payload');
+    this.checkClaims(claims);
+
+    const scopes = claimList(claims.scope) ?? claimList(claims.scp) ?? [];
+    const roles = scopes.map(scope => JWT_SCOPE_ROLES[scope]).filter((role): role is Role => role !== undefined);
+    if (roles.length === 0) {
+      throw new AppError(
+        CommonErrors.PERMISSION_DENIED,
+        `Token grants none of the required scopes (${Object.keys(JWT_SCOPE_ROLES).join(', ')})`,
+        true
+      );
+    }
+    const role = (['admin', 'read-write', 'read-only'] as const).find(candidate => roles.includes(candidate))!;
+
+    const graphs = claimList(claims[config.mcp.jwt.graphsClaim]);
+    return {
+      role,
+      principal: typeof claims.sub === 'string' ? `jwt:${claims.sub}` : 'jwt',
+      ...(graphs && { graphs }),
+    };
+  }
+
+  private checkClaims(claims: Record<string, unknown>): void {
+    const { issuer, audience, clockTolerance } = config.mcp.jwt;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== 'number') {
+      throw invalidToken('missing exp claim');
+    }
+    if (now - clockTolerance >= claims.exp) {
+      throw invalidToken('token expired');
+    }
+    if (typeof claims.nbf === 'number' && now + clockTolerance < claims.nbf) {
+      throw invalidToken('token not yet valid');
+    }
+    if (issuer && claims.iss !== issuer) {
+      throw invalidToken('unexpected issuer');
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (audience && !audiences.includes(audience)) {
+      throw invalidToken('unexpected audience');
+    }
+  }
+}
+
+// Export a singleton instance
+export const jwtService = new JwtService();
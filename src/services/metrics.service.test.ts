@@ -0,0 +1,56 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('should count tool calls by tool and outcome', () => {
+    // Act
+    metrics.recordToolCall('query_graph', 'success', 12);
+    metrics.recordToolCall('query_graph', 'success', 30);
+    metrics.recordToolCall('query_graph', 'error', 5);
+
+    // Assert
+    const output = metrics.render();
+    expect(output).toContain('# TYPE falkordb_mcp_tool_calls_total counter');
+    expect(output).toContain('falkordb_mcp_tool_calls_total{tool="query_graph",outcome="success"} 2');
+    expect(output).toContain('falkordb_mcp_tool_calls_total{tool="query_graph",outcome="error"} 1');
+  });
+
+  it('should render cumulative latency histograms in seconds', () => {
+    // Act
+    metrics.observeQuery('ro_query', 20);
+    metrics.observeQuery('ro_query', 300);
+
+    // Assert
+    const output = metrics.render();
+    expect(output).toContain('# TYPE falkordb_mcp_query_duration_seconds histogram');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_bucket{command="ro_query",le="0.01"} 0');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_bucket{command="ro_query",le="0.025"} 1');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_bucket{command="ro_query",le="0.5"} 2');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_bucket{command="ro_query",le="+Inf"} 2');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_sum{command="ro_query"} 0.32');
+    expect(output).toContain('falkordb_mcp_query_duration_seconds_count{command="ro_query"} 2');
+  });
+
+  it('should sample gauges at render time', () => {
+    // Arrange
+    let sessions = 1;
+    metrics.registerGauge('falkordb_mcp_active_sessions', 'Open MCP sessions', () => sessions);
+
+    // Act
+    sessions = 3;
+
+    // Assert
+    expect(metrics.render()).toContain('# TYPE falkordb_mcp_active_sessions gauge\nfalkordb_mcp_active_sessions 3');
+  });
+
+  it('should escape label values', () => {
+    metrics.recordToolCall('weird"tool\\name', 'success', 1);
+
+    expect(metrics.render()).toContain('tool="weird\\"tool\\\\name"');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * In-process metrics, exposed in the Prometheus text format on the HTTP transport's /metrics endpoint
+ */
+
+// Latency buckets in seconds, as in the Prometheus client libraries
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Labels = Record<string, string>;
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Gauge {
+  help: string;
+  collect: () => number;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length > 0
+    ? `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+    : '';
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(labels);
+}
+
+/**
+ * Counters and latency histograms for tool calls and FalkorDB commands, plus gauges sampled at scrape time
+ */
+export class MetricsService {
+  private toolCalls = new Map<string, { labels: Labels; value: number }>();
+  private toolDurations = new Map<string, HistogramSeries>();
+  private queryDurations = new Map<string, HistogramSeries>();
+  private gauges = new Map<string, Gauge>();
+
+  private observe(histogram: Map<string, HistogramSeries>, labels: Labels, durationMs: number): void {
+    const key = seriesKey(labels);
+    let series = histogram.get(key);
+    if (!series) {
+      series = { labels, counts: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      histogram.set(key, series);
+    }
+
+    const seconds = durationMs / 1000;
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        series!.counts[index]++;
+      }
+    });
+    series.sum += seconds;
+    series.count++;
+  }
+
+  /**
+   * Count a finished tool call and record its latency
+   */
+  recordToolCall(tool: string, outcome: 'success' | 'error', durationMs: number): void {
+    const labels = { tool, outcome };
+    const key = seriesKey(labels);
+    const counter = this.toolCalls.get(key) ?? { labels, value: 0 };
+    counter.value++;
+    this.toolCalls.set(key, counter);
+    this.observe(this.toolDurations, { tool }, durationMs);
+  }
+
+  /**
+   * Record the latency of a FalkorDB command (query, ro_query, explain, profile, list, delete)
+   */
+  observeQuery(command: string, durationMs: number): void {
+    this.observe(this.queryDurations, { command }, durationMs);
+  }
+
+  /**
+   * Register a gauge whose value is read at scrape time; registering a name again replaces it
+   */
+  registerGauge(name: string, help: string, collect: () => number): void {
+    this.gauges.set(name, { help, collect });
+  }
+
+  private renderHistogram(name: string, help: string, histogram: Map<string, HistogramSeries>): string[] {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+    for (const { labels, counts, sum, count } of histogram.values()) {
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    const lines = [
+      '# HELP falkordb_mcp_tool_calls_total MCP tool calls by tool and outcome',
+      '# TYPE falkordb_mcp_tool_calls_total counter',
+      ...[...this.toolCalls.values()].map(({ labels, value }) => `falkordb_mcp_tool_calls_total${formatLabels(labels)} ${value}`),
+      ...this.renderHistogram('falkordb_mcp_tool_call_duration_seconds', 'MCP tool call latency by tool', this.toolDurations),
+      ...this.renderHistogram('falkordb_mcp_query_duration_seconds', 'FalkorDB command latency by command', this.queryDurations),
+    ];
+
+    for (const [name, { help, collect }] of this.gauges) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${collect()}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+// Export a singleton instance
+export const metricsService = new MetricsService();
@@ -0,0 +1,95 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { RateLimitService } from './rate-limit.service.js';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+  const etl = { role: 'read-write' as const, principal: 'etl' };
+
+  beforeEach(() => {
+    mockConfig = createMockConfig();
+    service = new RateLimitService();
+  });
+
+  const expectRateLimited = (consume: () => void, details: Record<string, unknown>) => {
+    try {
+      consume();
+    } catch (error) {
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).name).toBe(CommonErrors.RATE_LIMITED);
+      expect((error as AppError).details).toEqual(details);
+      return;
+    }
+    throw new Error('Expected the call to be rate limited');
+  };
+
+  it('should not limit calls when no limits are configured', () => {
+    for (let index = 0; index < 100; index++) {
+      service.consume(etl, 'session-1', 0);
+    }
+
+    expect(service.usage(etl, 'session-1', 0)).toEqual({});
+  });
+
+  it('should limit each session separately', () => {
+    // Arrange
+    mockConfig.mcp.rateLimits.session = { perMinute: 60, burst: 2 };
+
+    // Act
+    service.consume(etl, 'session-1', 0);
+    service.consume(etl, 'session-1', 0);
+
+    // Assert
+    expectRateLimited(() => service.consume(etl, 'session-1', 0), { limit: 'session', retryAfterSeconds: 1 });
+    expect(() => service.consume(etl, 'session-2', 0)).not.toThrow();
+    expect(() => service.consume(etl, 'session-1', 1000)).not.toThrow();
+  });
+
+  it('should limit each API key across its sessions', () => {
+    // Arrange
+    mockConfig.mcp.rateLimits.principal = { perMinute: 6, burst: 1 };
+
+    // Act
+    service.consume(etl, 'session-1', 0);
+
+    // Assert
+    expectRateLimited(() => service.consume(etl, 'session-2', 0), { limit: 'principal', retryAfterSeconds: 10 });
+    expect(() => service.consume({ role: 'read-only', principal: 'analytics' }, 'session-3', 0)).not.toThrow();
+  });
+
+  it('should not consume the session allowance when the API key limit rejects a call', () => {
+    // Arrange
+    mockConfig.mcp.rateLimits.session = { perMinute: 60, burst: 2 };
+    mockConfig.mcp.rateLimits.principal = { perMinute: 60, burst: 1 };
+    service.consume(etl, 'session-1', 0);
+
+    // Act
+    expectRateLimited(() => service.consume(etl, 'session-1', 0), { limit: 'principal', retryAfterSeconds: 1 });
+
+    // Assert
+    expect(service.usage(etl, 'session-1', 0)).toEqual({
+      session: { perMinute: 60, burst: 2, remaining: 1 },
+      principal: { perMinute: 60, burst: 1, remaining: 0 },
+    });
+  });
+
+  it('should reset a session allowance once the session is cleared', () => {
+    mockConfig.mcp.rateLimits.session = { perMinute: 60, burst: 1 };
+    service.consume(etl, 'session-1', 0);
+
+    service.clearSession('session-1');
+
+    expect(() => service.consume(etl, 'session-1', 0)).not.toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { AccessContext } from '../models/access.types.js';
+import { TokenBucket } from '../utils/token-bucket.js';
+
+// Principal used for callers without credentials (stdio, or HTTP without authentication)
+const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+// Full buckets are dropped once this many are tracked; they behave like new ones anyway
+const MAX_TRACKED_BUCKETS = 1024;
+
+type LimitScope = 'session' | 'principal';
+
+/**
+ * Current state of one rate limit, as reported by the usage status resource
+ */
+export interface RateLimitUsage {
+  perMinute: number;
+  burst: number;
+  remaining: number;
+}
+
+/**
+ * Token-bucket rate limits on tool calls, per MCP session (MCP_RATE_LIMIT_PER_SESSION)
+ * and per API key or JWT subject (MCP_RATE_LIMIT_PER_KEY)
+ */
+export class RateLimitService {
+  private buckets: Record<LimitScope, Map<string, TokenBucket>> = {
+    session: new Map(),
+    principal: new Map(),
+  };
+
+  private bucket(scope: LimitScope, key: string, now: number): TokenBucket | undefined {
+    const { perMinute, burst } = config.mcp.rateLimits[scope];
+    if (perMinute <= 0) {
+      return undefined;
+    }
+
+    const buckets = this.buckets[scope];
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.capacity !== burst || bucket.ratePerMinute !== perMinute) {
+      if (buckets.size >= MAX_TRACKED_BUCKETS) {
+        for (const [trackedKey, tracked] of buckets) {
+          if (tracked.isFull(now)) {
+            buckets.delete(trackedKey);
+          }
+        }
+      }
+      bucket = new TokenBucket(Math.max(1, burst), perMinute, now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private bucketsFor(access: AccessContext, sessionKey: string, now: number): Array<[LimitScope, TokenBucket]> {
+    const entries: Array<[LimitScope, TokenBucket | undefined]> = [
+      ['session', this.bucket('session', sessionKey, now)],
+      ['principal', this.bucket('principal', access.principal ?? ANONYMOUS_PRINCIPAL, now)],
+    ];
+    return entries.filter((entry): entry is [LimitScope, TokenBucket] => entry[1] !== undefined);
+  }
+
+  /**
+   * Count a tool call against the caller's session and principal limits
+   * Nothing is consumed when either limit is exhausted
+   * @throws AppError (RATE_LIMITED) with retryAfterSeconds in its details
+   */
+  consume(access: AccessContext, sessionKey: string, now: number = Date.now()): void {
+    const buckets = this.bucketsFor(access, sessionKey, now);
+
+    for (const [scope, bucket] of buckets) {
+      const retryAfterMs = bucket.retryAfterMs(now);
+      if (retryAfterMs > 0) {
+        const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+        throw new AppError(
+          CommonErrors.RATE_LIMITED,
+          `Rate limit exceeded for this ${scope === 'session' ? 'session' : 'API key'} (${bucket.ratePerMinute} calls per minute). Retry after ${retryAfterSeconds}s`,
+          true,
+          { details: { limit: scope, retryAfterSeconds } }
+        );
+      }
+    }
+
+    for (const [, bucket] of buckets) {
+      bucket.take(now);
+    }
+  }
+
+  /**
+   * The caller's current usage of each configured limit
+   */
+  usage(access: AccessContext, sessionKey: string, now: number = Date.now()): Partial<Record<LimitScope, RateLimitUsage>> {
+    return Object.fromEntries(
+      this.bucketsFor(access, sessionKey, now).map(([scope, bucket]) => [scope, {
+        perMinute: bucket.ratePerMinute,
+        burst: bucket.capacity,
+        remaining: bucket.remaining(now),
+      }])
+    );
+  }
+
+  /**
+   * Forget a closed session's bucket
+   */
+  clearSession(sessionKey: string): void {
+    this.buckets.session.delete(sessionKey);
+  }
+}
+
+// Export a singleton instance
+export const rateLimitService = new RateLimitService();
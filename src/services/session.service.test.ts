@@ -0,0 +1,164 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    info: jest.fn().mockResolvedValue(undefined),
+    warn: jest.fn().mockResolvedValue(undefined),
+    error: jest.fn().mockResolvedValue(undefined),
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock the per-session state released with a session
+jest.mock('./cursor.service.js', () => ({
+  cursorStore: { clearSession: jest.fn() },
+}));
+
+jest.mock('./rate-limit.service.js', () => ({
+  rateLimitService: { clearSession: jest.fn() },
+}));
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { SessionManager } from './session.service.js';
+import { cursorStore } from './cursor.service.js';
+import { rateLimitService } from './rate-limit.service.js';
+import { logger } from './logger.service.js';
+
+const createTransport = () => ({ close: jest.fn().mockResolvedValue(undefined) });
+
+describe('SessionManager', () => {
+  let manager: SessionManager<ReturnType<typeof createTransport>>;
+  const etl = { role: 'read-write' as const, principal: 'etl' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockConfig = createMockConfig();
+    Object.assign(mockConfig.mcp.sessions, { idleTtl: 60000, maxSessions: 3 });
+    manager = new SessionManager();
+  });
+
+  afterEach(() => {
+    manager.stopSweeping();
+  });
+
+  it('should evict the least recently used session when the maximum is reached', () => {
+    // Arrange
+    const transports = [createTransport(), createTransport(), createTransport(), createTransport()];
+    manager.add('s1', transports[0], etl, 0);
+    manager.add('s2', transports[1], etl, 1);
+    manager.add('s3', transports[2], etl, 2);
+    manager.touch('s1', 3);
+
+    // Act
+    manager.add('s4', transports[3], etl, 4);
+
+    // Assert
+    expect(manager.size).toBe(3);
+    expect(manager.get('s2')).toBeUndefined();
+    expect(transports[1].close).toHaveBeenCalled();
+    expect(transports[0].close).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('MCP session evicted', { sessionId: 's2', principal: 'etl', reason: 'capacity', idleMs: 3 });
+  });
+
+  it('should sweep sessions idle for longer than the TTL', () => {
+    // Arrange
+    const idle = createTransport();
+    const active = createTransport();
+    manager.add('idle', idle, etl, 0);
+    manager.add('active', active, etl, 0);
+    manager.touch('active', 50000);
+
+    // Act
+    const evicted = manager.sweep(70000);
+
+    // Assert
+    expect(evicted).toBe(1);
+    expect(manager.get('idle')).toBeUndefined();
+    expect(manager.get('active')).toBeDefined();
+    expect(idle.close).toHaveBeenCalled();
+    expect(cursorStore.clearSession).toHaveBeenCalledWith('idle');
+    expect(rateLimitService.clearSession).toHaveBeenCalledWith('idle');
+  });
+
+  it('should not sweep when the idle TTL is disabled', () => {
+    mockConfig.mcp.sessions.idleTtl = 0;
+    manager.add('s1', createTransport(), etl, 0);
+
+    expect(manager.sweep(Number.MAX_SAFE_INTEGER)).toBe(0);
+    expect(manager.size).toBe(1);
+  });
+
+  it('should release closed sessions without closing their transport again', () => {
+    // Arrange
+    const transport = createTransport();
+    manager.add('s1', transport, etl, 0);
+
+    // Act
+    manager.remove('s1', 'closed');
+    manager.remove('s1', 'closed');
+
+    // Assert
+    expect(manager.size).toBe(0);
+    expect(transport.close).not.toHaveBeenCalled();
+    expect(cursorStore.clearSession).toHaveBeenCalledTimes(1);
+    expect(logger.info).not.toHaveBeenCalled();
+  });
+
+  it('should list sessions most recently used first', () => {
+    // Arrange
+    manager.add('s1', createTransport(), etl, 0);
+    manager.add('s2', createTransport(), { role: 'admin' }, 1000);
+    manager.touch('s1', 2000);
+
+    // Act
+    const sessions = manager.list(5000);
+
+    // Assert
+    expect(sessions).toEqual([
+      {
+        sessionId: 's1',
+        principal: 'etl',
+        role: 'read-write',
+        createdAt: new Date(0).toISOString(),
+        lastActivityAt: new Date(2000).toISOString(),
+        idleMs: 3000,
+      },
+      {
+        sessionId: 's2',
+        role: 'admin',
+        createdAt: new Date(1000).toISOString(),
+        lastActivityAt: new Date(1000).toISOString(),
+        idleMs: 4000,
+      },
+    ]);
+  });
+
+  it('should sweep periodically once started', () => {
+    // Arrange
+    jest.useFakeTimers();
+    mockConfig.mcp.sessions.sweepInterval = 1000;
+    manager.add('s1', createTransport(), etl, Date.now());
+
+    try {
+      // Act
+      manager.startSweeping();
+      jest.advanceTimersByTime(61000);
+
+      // Assert
+      expect(manager.size).toBe(0);
+    } finally {
+      manager.stopSweeping();
+      jest.useRealTimers();
+    }
+  });
+});
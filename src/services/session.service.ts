@@ -0,0 +1,169 @@
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { config } from '../config/index.js';
+import { AccessContext } from '../models/access.types.js';
+import { cursorStore } from './cursor.service.js';
+import { logger } from './logger.service.js';
+import { rateLimitService } from './rate-limit.service.js';
+
+/**
+ * The part of a session's transport the manager needs to end it
+ */
+export interface SessionTransport {
+  close(): Promise<void>;
+}
+
+export type SessionRemovalReason = 'closed' | 'idle' | 'capacity';
+
+interface ManagedSession<T extends SessionTransport> {
+  id: string;
+  transport: T;
+  access: AccessContext;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Summary of an open session, as listed to admins
+ */
+export interface SessionInfo {
+  sessionId: string;
+  principal?: string;
+  role: AccessContext['role'];
+  createdAt: string;
+  lastActivityAt: string;
+  idleMs: number;
+}
+
+/**
+ * Open MCP sessions of the HTTP transport, with their transports and the access they were opened with
+ * Sessions idle for longer than MCP_SESSION_IDLE_TTL are closed by a periodic sweep, and when
+ * MCP_MAX_SESSIONS are open the least recently used one is closed to make room for a new one
+ */
+export class SessionManager<T extends SessionTransport = SessionTransport> {
+  // Kept in least recently used first order: a session is re-inserted whenever it is used
+  private sessions = new Map<string, ManagedSession<T>>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Track a new session, evicting the least recently used sessions if the maximum is reached
+   */
+  add(id: string, transport: T, access: AccessContext, now: number = Date.now()): void {
+    const { maxSessions } = config.mcp.sessions;
+    while (maxSessions > 0 && this.sessions.size >= maxSessions) {
+      const [oldestId] = this.sessions.keys();
+      this.remove(oldestId, 'capacity', now);
+    }
+    this.sessions.set(id, { id, transport, access, createdAt: now, lastActivityAt: now });
+  }
+
+  /**
+   * Look up a session and mark it as used
+   */
+  touch(id: string, now: number = Date.now()): { transport: T; access: AccessContext } | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+    session.lastActivityAt = now;
+    this.sessions.delete(id);
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Look up a session without marking it as used
+   */
+  get(id: string): { transport: T; access: AccessContext } | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Stop tracking a session and release its cursors and rate limit state
+   * Sessions evicted by the server also have their transport closed; removing an unknown session is a no-op
+   */
+  remove(id: string, reason: SessionRemovalReason, now: number = Date.now()): void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    // Delete first: closing the transport calls back into remove() through its onclose handler
+    this.sessions.delete(id);
+    cursorStore.clearSession(id);
+    rateLimitService.clearSession(id);
+
+    if (reason !== 'closed') {
+      // Fire-and-forget: informational log, not critical
+      logger.info('MCP session evicted', {
+        sessionId: id,
+        principal: session.access.principal,
+        reason,
+        idleMs: now - session.lastActivityAt,
+      });
+      session.transport.close().catch((error: unknown) => {
+        // Fire-and-forget: the session is already forgotten
+        logger.warn('Failed to close evicted MCP session', { sessionId: id, error: error instanceof Error ? error.message : String(error) });
+      });
+    }
+  }
+
+  /**
+   * Evict every session idle for longer than MCP_SESSION_IDLE_TTL
+   * @returns The number of evicted sessions
+   */
+  sweep(now: number = Date.now()): number {
+    const { idleTtl } = config.mcp.sessions;
+    if (idleTtl <= 0) {
+      return 0;
+    }
+
+    let evicted = 0;
+    // Least recently used first, so the scan can stop at the first session still in use
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastActivityAt < idleTtl) {
+        break;
+      }
+      this.remove(session.id, 'idle', now);
+      evicted++;
+    }
+    return evicted;
+  }
+
+  /**
+   * Sweep idle sessions every MCP_SESSION_SWEEP_INTERVAL; the timer does not keep the process alive
+   */
+  startSweeping(): void {
+    this.stopSweeping();
+    const { sweepInterval } = config.mcp.sessions;
+    if (sweepInterval > 0) {
+      this.sweepTimer = setInterval(() => this.sweep(), sweepInterval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  stopSweeping(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  /**
+   * Every open session, most recently used first
+   */
+  list(now: number = Date.now()): SessionInfo[] {
+    return [...this.sessions.values()].reverse().map(session => ({
+      sessionId: session.id,
+      ...(session.access.principal !== undefined && { principal: session.access.principal }),
+      role: session.access.role,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+      idleMs: now - session.lastActivityAt,
+    }));
+  }
+}
+
+// Export a singleton instance
+export const sessionManager = new SessionManager<StreamableHTTPServerTransport>();
@@ -0,0 +1,239 @@
+import { createMockConfig } from '../test-utils/mock-config.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PeerCertificate, TLSSocket } from 'tls';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Mock the logger service
+jest.mock('./logger.service.js', () => ({
+  logger: {
+    info: jest.fn().mockResolvedValue(undefined),
+    warn: jest.fn().mockResolvedValue(undefined),
+    error: jest.fn().mockResolvedValue(undefined),
+    debug: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+// Mock config; each test starts from a fresh copy
+let mockConfig = createMockConfig();
+
+jest.mock('../config/index.js', () => ({
+  get config() {
+    return mockConfig;
+  }
+}));
+
+// Import after mocks are set up
+import { TlsService } from './tls.service.js';
+
+function clientSocket({ authorized = true, commonName }: { authorized?: boolean; commonName?: string | string[] }): TLSSocket {
+  const socket = new TLSSocket(new Socket());
+  socket.authorized = authorized;
+  jest.spyOn(socket, 'getPeerCertificate').mockReturnValue(
+    { subject: commonName === undefined ? {} : { CN: commonName } } as unknown as PeerCertificate
+  );
+  return socket;
+}
+
+describe('TlsService', () => {
+  let service: TlsService;
+  let tempDir: string;
+
+  beforeEach(() => {
+    mockConfig = createMockConfig();
+    service = new TlsService();
+    tempDir = mkdtempSync(join(tmpdir(), 'tls-files-'));
+    for (const name of ['cert.pem', 'key.pem', 'ca.pem']) {
+      writeFileSync(join(tempDir, name), `-----BEGIN ${name}-----`);
+    }
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const configureFiles = ({ ca = false } = {}) => {
+    mockConfig.server.tls.certFile = join(tempDir, 'cert.pem');
+    mockConfig.server.tls.keyFile = join(tempDir, 'key.pem');
+    if (ca) {
+      mockConfig.server.tls.caFile = join(tempDir, 'ca.pem');
+    }
+  };
+
+  describe('initialize', () => {
+    it('should reject a certificate without a key', () => {
+      // Arrange
+      mockConfig.server.tls.certFile = join(tempDir, 'cert.pem');
+
+      // Act & Assert
+      expect(() => service.initialize()).toThrow('MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE must be set together');
+    });
+
+    it('should reject a client CA without a server certificate', () => {
+      // Arrange
+      mockConfig.server.tls.caFile = join(tempDir, 'ca.pem');
+
+      // Act & Assert
+      expect(() => service.initialize()).toThrow('MCP_TLS_CA_FILE requires');
+    });
+
+    it('should reject a client role that is not a role', () => {
+      // Arrange
+      configureFiles({ ca: true });
+      mockConfig.mcp.clientCertRoles = ['owner:etl-client'];
+
+      // Act & Assert
+      try {
+        service.initialize();
+        fail('Expected initialize to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).name).toBe(CommonErrors.INITIALIZATION_FAILED);
+        expect((error as AppError).message).toContain("invalid role 'owner'");
+      }
+    });
+
+    it('should reject a client role without a CN', () => {
+      // Arrange
+      mockConfig.mcp.clientCertRoles = ['read-only'];
+
+      // Act & Assert
+      expect(() => service.initialize()).toThrow("Client certificate role 'read-only' has no CN");
+    });
+
+    it('should reject a CN listed twice', () => {
+      // Arrange
+      mockConfig.mcp.clientCertRoles = ['read-only:etl-client', 'admin:etl-client'];
+
+      // Act & Assert
+      expect(() => service.initialize()).toThrow("Client certificate 'etl-client' is listed twice");
+    });
+  });
+
+  describe('enabled', () => {
+    it('should be disabled without certificate files', () => {
+      expect(service.enabled).toBe(false);
+    });
+
+    it('should be enabled with a certificate and key', () => {
+      // Arrange
+      configureFiles();
+
+      // Act & Assert
+      expect(service.enabled).toBe(true);
+    });
+  });
+
+  describe('serverOptions', () => {
+    it('should not request client certificates without a CA', () => {
+      // Arrange
+      configureFiles();
+
+      // Act
+      const options = service.serverOptions();
+
+      // Assert
+      expect(options.cert?.toString()).toBe('-----BEGIN cert.pem-----');
+      expect(options.key?.toString()).toBe('-----BEGIN key.pem-----');
+      expect(options.ca).toBeUndefined();
+      expect(options.requestCert).toBe(false);
+      expect(options.rejectUnauthorized).toBe(false);
+    });
+
+    it('should request but not require client certificates in optional mode', () => {
+      // Arrange
+      configureFiles({ ca: true });
+
+      // Act
+      const options = service.serverOptions();
+
+      // Assert
+      expect(options.ca?.toString()).toBe('-----BEGIN ca.pem-----');
+      expect(options.requestCert).toBe(true);
+      expect(options.rejectUnauthorized).toBe(false);
+    });
+
+    it('should reject unverified clients in required mode', () => {
+      // Arrange
+      configureFiles({ ca: true });
+      mockConfig.server.tls.clientCert = 'required';
+
+      // Act
+      const options = service.serverOptions();
+
+      // Assert
+      expect(options.requestCert).toBe(true);
+      expect(options.rejectUnauthorized).toBe(true);
+    });
+
+    it('should throw INITIALIZATION_FAILED when a file is missing', () => {
+      // Arrange
+      configureFiles();
+      mockConfig.server.tls.keyFile = join(tempDir, 'missing.pem');
+
+      // Act & Assert
+      expect(() => service.serverOptions()).toThrow(`Failed to read TLS file '${join(tempDir, 'missing.pem')}'`);
+    });
+  });
+
+  describe('secureContextOptions', () => {
+    it('should read the files again on every call', () => {
+      // Arrange
+      configureFiles();
+      service.secureContextOptions();
+      writeFileSync(join(tempDir, 'cert.pem'), '-----BEGIN renewed-----');
+
+      // Act
+      const options = service.secureContextOptions();
+
+      // Assert
+      expect(options.cert?.toString()).toBe('-----BEGIN renewed-----');
+    });
+  });
+
+  describe('authenticate', () => {
+    beforeEach(() => {
+      mockConfig.mcp.clientCertRoles = ['read-write:etl-client', 'read-only:*'];
+      service.initialize();
+    });
+
+    it('should map a verified certificate to the role of its CN', () => {
+      // Act
+      const access = service.authenticate(clientSocket({ commonName: 'etl-client' }));
+
+      // Assert
+      expect(access).toEqual({ role: 'read-write', principal: 'cert:etl-client' });
+    });
+
+    it('should fall back to the wildcard role for other CNs', () => {
+      // Act
+      const access = service.authenticate(clientSocket({ commonName: ['dashboard', 'backup'] }));
+
+      // Assert
+      expect(access).toEqual({ role: 'read-only', principal: 'cert:dashboard' });
+    });
+
+    it('should ignore certificates that failed verification', () => {
+      expect(service.authenticate(clientSocket({ authorized: false, commonName: 'etl-client' }))).toBeNull();
+    });
+
+    it('should ignore certificates without a CN', () => {
+      expect(service.authenticate(clientSocket({}))).toBeNull();
+    });
+
+    it('should ignore CNs without a role', () => {
+      // Arrange
+      mockConfig.mcp.clientCertRoles = ['admin:ops'];
+      service.initialize();
+
+      // Act & Assert
+      expect(service.authenticate(clientSocket({ commonName: 'etl-client' }))).toBeNull();
+    });
+
+    it('should ignore plain TCP connections', () => {
+      expect(service.authenticate(new Socket())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { readFileSync } from 'fs';
+import { ServerOptions } from 'https';
+import { Socket } from 'net';
+import { SecureContextOptions, TLSSocket } from 'tls';
+import { config } from '../config/index.js';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+import { AccessContext, isRole, Role, ROLES } from '../models/access.types.js';
+import { logger } from './logger.service.js';
+
+/**
+ * HTTPS for the HTTP transport and client certificate (mTLS) authentication
+ * Client certificates are mapped to roles by their subject CN through MCP_TLS_CLIENT_ROLES
+ */
+export class TlsService {
+  // Role per certificate CN; '*' applies to any verified certificate without its own entry
+  private clientRoles = new Map<string, Role>();
+
+  /**
+   * Load the client certificate role mappings
+   * @throws AppError (INITIALIZATION_FAILED) if MCP_TLS_CLIENT_ROLES is malformed or TLS is half-configured
+   */
+  initialize(): void {
+    const { certFile, keyFile, caFile } = config.server.tls;
+    if (Boolean(certFile) !== Boolean(keyFile)) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        'MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE must be set together',
+        true
+      );
+    }
+    if (caFile && !certFile) {
+      throw new AppError(CommonErrors.INITIALIZATION_FAILED, 'MCP_TLS_CA_FILE requires MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE', true);
+    }
+
+    // MCP_TLS_CLIENT_ROLES: comma-separated role:CN pairs; the CN may itself contain ':'
+    const clientRoles = new Map<string, Role>();
+    for (const pair of config.mcp.clientCertRoles) {
+      const separator = pair.indexOf(':');
+      const role = separator === -1 ? undefined : pair.slice(0, separator).trim();
+      const commonName = separator === -1 ? '' : pair.slice(separator + 1).trim();
+      if (!commonName) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `Client certificate role '${pair}' has no CN`, true);
+      }
+      if (!isRole(role)) {
+        throw new AppError(
+          CommonErrors.INITIALIZATION_FAILED,
+          `Client certificate '${commonName}' has invalid role '${String(role)}' (expected one of: ${ROLES.join(', ')})`,
+          true
+        );
+      }
+      if (clientRoles.has(commonName)) {
+        throw new AppError(CommonErrors.INITIALIZATION_FAILED, `Client certificate '${commonName}' is listed twice`, true);
+      }
+      clientRoles.set(commonName, role);
+    }
+    this.clientRoles = clientRoles;
+
+    if (this.enabled) {
+      // Fire-and-forget: informational log, not critical
+      logger.info('TLS enabled for the HTTP transport', {
+        clientCertificates: caFile ? config.server.tls.clientCert : 'disabled',
+        clientRoles: Object.fromEntries(clientRoles),
+      });
+    }
+  }
+
+  /**
+   * Whether the HTTP transport serves HTTPS
+   */
+  get enabled(): boolean {
+    return Boolean(config.server.tls.certFile && config.server.tls.keyFile);
+  }
+
+  /**
+   * Certificate, key and client CA read from the configured files
+   * Passed to server.setSecureContext() to reload certificates without closing connections
+   * @throws AppError (INITIALIZATION_FAILED) if a file can't be read
+   */
+  secureContextOptions(): SecureContextOptions {
+    const { certFile, keyFile, caFile } = config.server.tls;
+    return {
+      cert: this.readFile(certFile),
+      key: this.readFile(keyFile),
+      ...(caFile ? { ca: this.readFile(caFile) } : {}),
+    };
+  }
+
+  /**
+   * Options for https.createServer(), including client certificate verification when a CA is set
+   * @throws AppError (INITIALIZATION_FAILED) if a file can't be read
+   */
+  serverOptions(): ServerOptions {
+    const mutual = Boolean(config.server.tls.caFile);
+    return {
+      ...this.secureContextOptions(),
+      requestCert: mutual,
+      // With 'optional', unverified or missing certificates still connect and fall back to bearer auth
+      rejectUnauthorized: mutual && config.server.tls.clientCert === 'required',
+    };
+  }
+
+  /**
+   * Resolve the verified client certificate of a connection to the caller's access
+   * @returns The certificate's access, or null without a verified certificate whose CN has a role
+   */
+  authenticate(socket: Socket): AccessContext | null {
+    if (!(socket instanceof TLSSocket) || !socket.authorized) {
+      return null;
+    }
+
+    const subjectCN = socket.getPeerCertificate()?.subject?.CN;
+    // A subject may carry several CNs; the first one names the client
+    const commonName = Array.isArray(subjectCN) ? subjectCN[0] : subjectCN;
+    if (!commonName) {
+      return null;
+    }
+
+    const role = this.clientRoles.get(commonName) ?? this.clientRoles.get('*');
+    return role ? { role, principal: `cert:${commonName}` } : null;
+  }
+
+  private readFile(path: string): Buffer {
+    try {
+      return readFileSync(path);
+    } catch (error) {
+      throw new AppError(
+        CommonErrors.INITIALIZATION_FAILED,
+        `Failed to read TLS file '${path}': ${error instanceof Error ? error.message : String(error)}`,
+        true
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const tlsService = new TlsService();
@@ -0,0 +1,84 @@
+// The settings the mocked suites read, with every optional feature off; suites set what they test
+const MOCK_CONFIG = {
+  server: {
+    tls: {
+      certFile: '',
+      keyFile: '',
+      caFile: '',
+      clientCert: 'optional' as 'optional' | 'required',
+    },
+  },
+  falkorDB: {
+    url: '',
+    host: 'localhost',
+    port: 6379,
+    username: '',
+    password: '',
+    mode: 'standalone',
+    sentinels: [] as string[],
+    sentinelMaster: '',
+    sentinelUsername: '',
+    sentinelPassword: '',
+    clusterNodes: [] as string[],
+    connections: [] as string[],
+    replicas: [] as string[],
+    defaultReadOnly: false,
+    strictReadOnly: false,
+    tls: {
+      enabled: false,
+      caFile: '',
+      certFile: '',
+      keyFile: '',
+      servername: '',
+      rejectUnauthorized: true,
+    },
+  },
+  mcp: {
+    apiKey: '',
+    apiKeys: [] as string[],
+    apiKeysFile: '',
+    clientCertRoles: [] as string[],
+    jwt: {
+      jwksFile: '',
+      publicKeyFile: '',
+      issuer: '',
+      audience: '',
+      clockTolerance: 60,
+      graphsClaim: 'graphs',
+    },
+    maxResultRows: 0,
+    maxResultBytes: 0,
+    cursorTtl: 60000,
+    maxCursorsPerSession: 10,
+    resultFormat: 'json',
+    sessions: {
+      idleTtl: 0,
+      maxSessions: 0,
+      sweepInterval: 0,
+    },
+    rateLimits: {
+      session: { perMinute: 0, burst: 0 },
+      principal: { perMinute: 0, burst: 0 },
+    },
+    audit: {
+      file: '',
+      maxSize: 10485760,
+      maxFiles: 5,
+      redactParams: ['*'],
+    },
+    surface: {
+      tools: { enabled: undefined as string[] | undefined, disabled: [] as string[] },
+      resources: { enabled: undefined as string[] | undefined, disabled: [] as string[] },
+      prompts: { enabled: undefined as string[] | undefined, disabled: [] as string[] },
+    },
+  },
+};
+
+export type MockConfig = typeof MOCK_CONFIG;
+
+/**
+ * A fresh copy of the config for tests that mock '../config/index.js' behind a getter, so each test can change its own
+ */
+export function createMockConfig(): MockConfig {
+  return structuredClone(MOCK_CONFIG);
+}
@@ -2,84 +2,269 @@
  * Utility to parse FalkorDB connection strings
  */
 
-interface FalkorDBConnectionOptions {
-    host: string;
-    port: number;
-    username?: string;
-    password?: string;
+import { isIPv6 } from 'net';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+export type FalkorDBConnectionMode = 'sentinel' | 'cluster';
+
+export interface FalkorDBNode {
+  host: string;
+  port: number;
+}
+
+export interface FalkorDBConnectionOptions {
+  // The first node listed
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  // Set by the falkordbs:// and rediss:// schemes or the tls query option
+  tls?: boolean;
+  // Database index, from the path (/2) or the db query option
+  database?: number;
+  // Connection and socket inactivity timeouts in milliseconds
+  connectTimeout?: number;
+  socketTimeout?: number;
+  // Set by the +sentinel and +cluster schemes; a single standalone server otherwise
+  mode?: FalkorDBConnectionMode;
+  // Sentinel and cluster modes: every node listed, the sentinels or the cluster's seed nodes
+  nodes?: FalkorDBNode[];
+  // Sentinel mode: name of the master the sentinels monitor, from the path
+  masterName?: string;
+}
+
+const DEFAULT_PORT = 6379;
+export const DEFAULT_SENTINEL_PORT = 26379;
+
+// Secure schemes connect over TLS; the others over plain TCP
+const TLS_SCHEMES = ['falkordbs', 'rediss'];
+const PLAIN_SCHEMES = ['falkordb', 'redis'];
+
+// Scheme suffixes selecting a connection mode, e.g. falkordb+sentinel://
+const MODE_SUFFIXES: FalkorDBConnectionMode[] = ['sentinel', 'cluster'];
+
+const QUERY_OPTIONS = ['tls', 'db', 'connectTimeout', 'socketTimeout'];
+
+function invalid(reason: string, subject = 'connection string'): AppError {
+  // The connection string itself is never echoed: it may carry a password
+  return new AppError(CommonErrors.INVALID_INPUT, `Invalid FalkorDB ${subject}: ${reason}`, true);
+}
+
+function decode(value: string, field: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw invalid(`the ${field} is not correctly URL-encoded`);
+  }
+}
+
+function parseInteger(value: string, field: string, min: number, max: number, subject?: string): number {
+  const parsed = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!(parsed >= min && parsed <= max)) {
+    throw invalid(`${field} must be an integer between ${min} and ${max}, got '${value}'`, subject);
   }
-  
-  /**
-   * Parse a FalkorDB connection string
-   * Format: falkordb://[username:password@]host:port
-   * 
-   * @param connectionString The connection string to parse
-   * @returns Parsed connection options
-   */
-  export function parseFalkorDBConnectionString(connectionString: string): FalkorDBConnectionOptions {
-    try {
-      // Default values
-      const defaultOptions: FalkorDBConnectionOptions = {
-        host: 'localhost',
-        port: 6379
-      };
-
-      // Handle empty or undefined input
-      if (!connectionString) {
-        return defaultOptions;
-      }
-
-      // Remove protocol prefix if present
-      let cleanString = connectionString;
-      if (cleanString.startsWith('falkordb://')) {
-        cleanString = cleanString.substring('falkordb://'.length);
-      }
-
-      // Parse authentication if present - use lastIndexOf to handle '@' in password
-      let auth = '';
-      let hostPort = cleanString;
-
-      const lastAtIndex = cleanString.lastIndexOf('@');
-      if (lastAtIndex !== -1) {
-        auth = cleanString.slice(0, lastAtIndex);
-        hostPort = cleanString.slice(lastAtIndex + 1);
-      }
-
-      // Parse host and port
-      let host = 'localhost';
-      let port = 6379;
-
-      if (hostPort.includes(':')) {
-        const parts = hostPort.split(':');
-        host = parts[0] || 'localhost';
-        port = parseInt(parts[1], 10) || 6379;
-      } else {
-        host = hostPort || 'localhost';
-      }
-
-      // Parse username and password - handle multiple ':' in password
-      let username = undefined;
-      let password = undefined;
-
-      if (auth && auth.includes(':')) {
-        const firstColonIndex = auth.indexOf(':');
-        username = auth.slice(0, firstColonIndex) || undefined;
-        password = auth.slice(firstColonIndex + 1) || undefined;
-      } else if (auth) {
-        password = auth;
-      }
-
-      return {
-        host,
-        port,
-        username,
-        password
-      };
-    } catch (error) {
-      console.error('Error parsing connection string:', error);
-      return {
-        host: 'localhost',
-        port: 6379
-      };
+  return parsed;
+}
+
+/**
+ * Split host[:port] or [ipv6][:port] into its parts
+ */
+function parseHostPort(hostPort: string, defaultPort: number, subject?: string): FalkorDBNode {
+  let host: string;
+  let portText: string;
+
+  if (hostPort.startsWith('[')) {
+    const end = hostPort.indexOf(']');
+    if (end === -1) {
+      throw invalid("the IPv6 address is missing its closing ']'", subject);
     }
-  }
\ No newline at end of file
+    host = hostPort.slice(1, end);
+    const rest = hostPort.slice(end + 1);
+    if (rest && !rest.startsWith(':')) {
+      throw invalid(`unexpected '${rest}' after the IPv6 address`, subject);
+    }
+    portText = rest.slice(1);
+    if (!isIPv6(host)) {
+      throw invalid(`'${host}' is not a valid IPv6 address`, subject);
+    }
+  } else {
+    const colons = hostPort.split(':').length - 1;
+    if (colons > 1) {
+      throw invalid('IPv6 addresses must be enclosed in brackets, e.g. [::1]:6379', subject);
+    }
+    const separator = hostPort.indexOf(':');
+    host = separator === -1 ? hostPort : hostPort.slice(0, separator);
+    portText = separator === -1 ? '' : hostPort.slice(separator + 1);
+    if (host && !/^[A-Za-z0-9._-]+$/.test(host)) {
+      throw invalid(`'${host}' is not a valid host name`, subject);
+    }
+  }
+
+  if (!host) {
+    throw invalid('the host is missing', subject);
+  }
+
+  return { host, port: portText ? parseInteger(portText, 'the port', 1, 65535, subject) : defaultPort };
+}
+
+/**
+ * Parse a node address given outside a connection string, e.g. an entry of FALKORDB_SENTINELS
+ * @param hostPort - host[:port] or [ipv6][:port]
+ * @param defaultPort - Port to use when the address has none
+ * @throws AppError (INVALID_INPUT) if the address is malformed
+ */
+export function parseFalkorDBNode(hostPort: string, defaultPort: number = DEFAULT_PORT): FalkorDBNode {
+  return parseHostPort(hostPort.trim(), defaultPort, 'node address');
+}
+
+/**
+ * Parse a FalkorDB connection string
+ * Format: [falkordb://][username:password@]host[:port][/db][?option=value&...]
+ * The falkordbs:// and rediss:// schemes select TLS, falkordb:// and redis:// plain TCP. IPv6 hosts
+ * go in brackets and credentials may be URL-encoded. Query options: tls (true/false), db,
+ * connectTimeout and socketTimeout (milliseconds)
+ *
+ * Adding +sentinel or +cluster to the scheme selects a mode, with comma-separated hosts:
+ * falkordb+sentinel://sentinel-1:26379,sentinel-2:26379/master-name[/db] lists the sentinels (default
+ * port 26379) and the master they monitor; falkordb+cluster://node-1:6379,node-2:6379 the cluster's seed nodes
+ *
+ * @param connectionString The connection string to parse
+ * @returns Parsed connection options; localhost:6379 for an empty string
+ * @throws AppError (INVALID_INPUT) if the connection string is malformed
+ */
+export function parseFalkorDBConnectionString(connectionString: string): FalkorDBConnectionOptions {
+  // Handle empty or undefined input
+  if (!connectionString) {
+    return { host: 'localhost', port: DEFAULT_PORT };
+  }
+
+  // Remove the scheme if present
+  let rest = connectionString.trim();
+  let tls: boolean | undefined;
+  let mode: FalkorDBConnectionMode | undefined;
+  const scheme = /^([A-Za-z][A-Za-z0-9+.-]*):\/\//.exec(rest);
+  if (scheme) {
+    const [name, suffix, ...extra] = scheme[1].toLowerCase().split('+');
+    const modeSuffix = MODE_SUFFIXES.find(candidate => candidate === suffix);
+    if (
+      (!TLS_SCHEMES.includes(name) && !PLAIN_SCHEMES.includes(name)) ||
+      (suffix !== undefined && !modeSuffix) ||
+      extra.length > 0
+    ) {
+      throw invalid(`unsupported scheme '${scheme[1]}://' (expected one of: ${[...PLAIN_SCHEMES, ...TLS_SCHEMES].map(s => `${s}://`).join(', ')}, optionally with +sentinel or +cluster)`);
+    }
+    if (TLS_SCHEMES.includes(name)) {
+      tls = true;
+    }
+    mode = modeSuffix;
+    rest = rest.slice(scheme[0].length);
+  }
+
+  // Credentials end at the last '@', so an unencoded '@' in the username or password still works
+  let auth = '';
+  const lastAtIndex = rest.lastIndexOf('@');
+  if (lastAtIndex !== -1) {
+    auth = rest.slice(0, lastAtIndex);
+    rest = rest.slice(lastAtIndex + 1);
+  }
+
+  let query = '';
+  const queryIndex = rest.indexOf('?');
+  if (queryIndex !== -1) {
+    query = rest.slice(queryIndex + 1);
+    rest = rest.slice(0, queryIndex);
+  }
+
+  let path = '';
+  const pathIndex = rest.indexOf('/');
+  if (pathIndex !== -1) {
+    path = rest.slice(pathIndex + 1);
+    rest = rest.slice(0, pathIndex);
+  }
+
+  // Only sentinel and cluster modes list several hosts
+  const hosts = rest.split(',');
+  if (hosts.length > 1 && !mode) {
+    throw invalid('several hosts need the +sentinel or +cluster scheme, e.g. falkordb+sentinel://sentinel-1,sentinel-2/mymaster');
+  }
+  const nodes = hosts.map(hostPort => parseHostPort(hostPort, mode === 'sentinel' ? DEFAULT_SENTINEL_PORT : DEFAULT_PORT));
+  const { host, port } = nodes[0];
+
+  // In sentinel mode the path starts with the master name
+  let masterName: string | undefined;
+  if (mode === 'sentinel') {
+    const separator = path.indexOf('/');
+    masterName = decode(separator === -1 ? path : path.slice(0, separator), 'master name');
+    path = separator === -1 ? '' : path.slice(separator + 1);
+    if (!masterName) {
+      throw invalid('the master name is missing, e.g. falkordb+sentinel://sentinel-1:26379/mymaster');
+    }
+  }
+
+  // Parse username and password - the password may itself contain ':'
+  let username: string | undefined;
+  let password: string | undefined;
+  if (auth.includes(':')) {
+    const firstColonIndex = auth.indexOf(':');
+    username = decode(auth.slice(0, firstColonIndex), 'username') || undefined;
+    password = decode(auth.slice(firstColonIndex + 1), 'password') || undefined;
+  } else if (auth) {
+    password = decode(auth, 'password');
+  }
+
+  let database = path ? parseInteger(path, 'the database index', 0, 65535) : undefined;
+  let connectTimeout: number | undefined;
+  let socketTimeout: number | undefined;
+
+  const seen = new Set<string>();
+  for (const [key, value] of new URLSearchParams(query)) {
+    if (!QUERY_OPTIONS.includes(key)) {
+      throw invalid(`unknown option '${key}' (expected one of: ${QUERY_OPTIONS.join(', ')})`);
+    }
+    if (seen.has(key)) {
+      throw invalid(`option '${key}' is given more than once`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'tls':
+        if (value !== 'true' && value !== 'false') {
+          throw invalid(`option 'tls' must be true or false, got '${value}'`);
+        }
+        if (tls && value === 'false') {
+          throw invalid(`option 'tls=false' contradicts the ${scheme![1]}:// scheme`);
+        }
+        tls = value === 'true';
+        break;
+      case 'db':
+        if (database !== undefined) {
+          throw invalid("the database index is given both in the path and in the 'db' option");
+        }
+        database = parseInteger(value, "option 'db'", 0, 65535);
+        break;
+      case 'connectTimeout':
+        connectTimeout = parseInteger(value, "option 'connectTimeout'", 0, Number.MAX_SAFE_INTEGER);
+        break;
+      case 'socketTimeout':
+        socketTimeout = parseInteger(value, "option 'socketTimeout'", 0, Number.MAX_SAFE_INTEGER);
+        break;
+    }
+  }
+
+  if (mode === 'cluster' && database !== undefined) {
+    throw invalid('a cluster has no database index');
+  }
+
+  return {
+    host,
+    port,
+    username,
+    password,
+    ...(mode && { mode, nodes }),
+    ...(masterName !== undefined && { masterName }),
+    ...(tls !== undefined && { tls }),
+    ...(database !== undefined && { database }),
+    ...(connectTimeout !== undefined && { connectTimeout }),
+    ...(socketTimeout !== undefined && { socketTimeout }),
+  };
+}
@@ -0,0 +1,192 @@
+import { parseExecutionPlan, findPlanWarnings, flattenProfile, isWritePlan } from './execution-plan';
+
+describe('Execution Plan Utility', () => {
+  describe('parseExecutionPlan', () => {
+    it('should parse nested operations into a tree', () => {
+      // Arrange
+      const lines = [
+        'Results',
+        '    Project',
+        '        Conditional Traverse | (a:Person)->(b:Person)',
+        '            Node By Label Scan | (a:Person)',
+      ];
+
+      // Act
+      const plan = parseExecutionPlan(lines);
+
+      // Assert
+      expect(plan).toEqual({
+        operation: 'Results',
+        arguments: [],
+        children: [{
+          operation: 'Project',
+          arguments: [],
+          children: [{
+            operation: 'Conditional Traverse',
+            arguments: ['(a:Person)->(b:Person)'],
+            children: [{
+              operation: 'Node By Label Scan',
+              arguments: ['(a:Person)'],
+              children: [],
+            }],
+          }],
+        }],
+      });
+    });
+
+    it('should attach siblings to the same parent', () => {
+      // Arrange
+      const lines = [
+        'Results',
+        '    Cartesian Product',
+        '        All Node Scan | (a)',
+        '        All Node Scan | (b)',
+      ];
+
+      // Act
+      const plan = parseExecutionPlan(lines);
+
+      // Assert
+      const product = plan!.children[0];
+      expect(product.operation).toBe('Cartesian Product');
+      expect(product.children).toHaveLength(2);
+      expect(product.children.map(c => c.arguments[0])).toEqual(['(a)', '(b)']);
+    });
+
+    it('should return null for empty or invalid input', () => {
+      expect(parseExecutionPlan([])).toBeNull();
+      expect(parseExecutionPlan(undefined)).toBeNull();
+      expect(parseExecutionPlan('Results')).toBeNull();
+    });
+  });
+
+  describe('profiled plans', () => {
+    const profileLines = [
+      'Results | Records produced: 2, Execution time: 0.001200 ms',
+      '    Project | Records produced: 2, Execution time: 0.004000 ms',
+      '        Node By Label Scan | (n:Person) | Records produced: 2, Execution time: 0.010500 ms',
+    ];
+
+    it('should extract records produced and execution time from each line', () => {
+      // Act
+      const plan = parseExecutionPlan(profileLines);
+
+      // Assert
+      expect(plan!.recordsProduced).toBe(2);
+      expect(plan!.executionTimeMs).toBeCloseTo(0.0012);
+      const scan = plan!.children[0].children[0];
+      expect(scan.arguments).toEqual(['(n:Person)']);
+      expect(scan.recordsProduced).toBe(2);
+      expect(scan.executionTimeMs).toBeCloseTo(0.0105);
+    });
+
+    it('should flatten a profiled plan with depths in plan order', () => {
+      // Act
+      const operators = flattenProfile(parseExecutionPlan(profileLines));
+
+      // Assert
+      expect(operators.map(op => [op.operation, op.depth])).toEqual([
+        ['Results', 0],
+        ['Project', 1],
+        ['Node By Label Scan', 2],
+      ]);
+      expect(operators[2].recordsProduced).toBe(2);
+    });
+
+    it('should return an empty list for an empty plan', () => {
+      expect(flattenProfile(null)).toEqual([]);
+    });
+  });
+
+  describe('isWritePlan', () => {
+    it('should detect write operations anywhere in the plan', () => {
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Update',
+        '        Node By Label Scan | (n:Person)',
+      ]);
+
+      expect(isWritePlan(plan)).toBe(true);
+    });
+
+    it('should treat read-only plans as non-writing', () => {
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Project',
+        '        All Node Scan | (n)',
+      ]);
+
+      expect(isWritePlan(plan)).toBe(false);
+    });
+
+    it('should treat an empty or unparseable plan as a write', () => {
+      expect(isWritePlan(null)).toBe(true);
+      expect(isWritePlan(parseExecutionPlan([]))).toBe(true);
+      expect(isWritePlan(parseExecutionPlan('not a plan'))).toBe(true);
+    });
+
+    it('should treat operations it does not know as writes', () => {
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Some Future Operation',
+        '        All Node Scan | (n)',
+      ]);
+
+      expect(isWritePlan(plan)).toBe(true);
+    });
+
+    it('should treat calls to procedures not known to be read-only as writes', () => {
+      const create = parseExecutionPlan(['Results', "    ProcedureCall | db.idx.fulltext.createNodeIndex"]);
+      const drop = parseExecutionPlan(['ProcedureCall | db.idx.fulltext.drop']);
+
+      expect(isWritePlan(create)).toBe(true);
+      expect(isWritePlan(drop)).toBe(true);
+    });
+
+    it('should allow calls to read-only procedures', () => {
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Project',
+        '        ProcedureCall | db.idx.fulltext.queryNodes',
+      ]);
+
+      expect(isWritePlan(plan)).toBe(false);
+      expect(isWritePlan(parseExecutionPlan(['Results', '    ProcedureCall | db.labels()']))).toBe(false);
+    });
+  });
+
+  describe('findPlanWarnings', () => {
+    it('should flag full scans, label scans and cartesian products', () => {
+      // Arrange
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Cartesian Product',
+        '        All Node Scan | (a)',
+        '        Node By Label Scan | (b:Person)',
+      ]);
+
+      // Act
+      const warnings = findPlanWarnings(plan);
+
+      // Assert
+      expect(warnings.map(w => w.type)).toEqual(['CARTESIAN_PRODUCT', 'ALL_NODES_SCAN', 'LABEL_SCAN']);
+      expect(warnings[2].arguments).toEqual(['(b:Person)']);
+    });
+
+    it('should return no warnings for index scans', () => {
+      // Arrange
+      const plan = parseExecutionPlan([
+        'Results',
+        '    Project',
+        '        Node By Index Scan | (p:Person)',
+      ]);
+
+      // Act & Assert
+      expect(findPlanWarnings(plan)).toEqual([]);
+    });
+
+    it('should return no warnings for an empty plan', () => {
+      expect(findPlanWarnings(null)).toEqual([]);
+    });
+  });
+});
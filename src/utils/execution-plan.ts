@@ -0,0 +1,222 @@
+/**
+ * Utilities for parsing FalkorDB execution plans (GRAPH.EXPLAIN / GRAPH.PROFILE)
+ */
+
+/**
+ * A single operation in an execution plan tree
+ */
+export interface PlanOperation {
+  operation: string;
+  arguments: string[];
+  children: PlanOperation[];
+  // Only present in profiled plans (GRAPH.PROFILE)
+  recordsProduced?: number;
+  executionTimeMs?: number;
+}
+
+/**
+ * Flattened per-operator statistics from a profiled plan
+ */
+export interface OperatorProfile {
+  operation: string;
+  arguments: string[];
+  depth: number;
+  recordsProduced: number;
+  executionTimeMs: number;
+}
+
+export type PlanWarningType = 'ALL_NODES_SCAN' | 'LABEL_SCAN' | 'CARTESIAN_PRODUCT';
+
+/**
+ * A potential performance problem detected in an execution plan
+ */
+export interface PlanWarning {
+  type: PlanWarningType;
+  operation: string;
+  arguments: string[];
+  message: string;
+}
+
+// FalkorDB indents each nested operation by four spaces
+const INDENT_WIDTH = 4;
+
+// Statistics segment appended to each line by GRAPH.PROFILE
+const PROFILE_STATS_PATTERN = /^Records produced:\s*(\d+),\s*Execution time:\s*([\d.]+)\s*ms$/;
+
+// Operations known not to modify the graph; any other operation is assumed to write
+const READ_ONLY_OPERATIONS = new Set([
+  'Results', 'Project', 'Aggregate', 'Filter', 'Sort', 'Skip', 'Limit', 'Distinct', 'Unwind', 'Optional',
+  'All Node Scan', 'Node By Label Scan', 'Node By Label and ID Scan', 'Node By Index Scan', 'Node By Id Seek',
+  'Edge By Index Scan', 'Conditional Traverse', 'Conditional Variable Length Traverse', 'Expand Into',
+  'Cartesian Product', 'Value Hash Join', 'Apply', 'Semi Apply', 'Anti Semi Apply',
+  'OR Apply Multiplexer', 'AND Apply Multiplexer', 'Argument', 'Argument List', 'Join', 'Union', 'CallSubquery',
+]);
+
+// Procedures known not to modify the graph; a ProcedureCall of any other procedure is assumed to write
+const READ_ONLY_PROCEDURES = new Set([
+  'db.labels', 'db.relationshiptypes', 'db.propertykeys', 'db.indexes', 'db.constraints', 'db.meta.stats',
+  'db.idx.fulltext.querynodes', 'db.idx.fulltext.queryrelationships',
+  'db.idx.vector.querynodes', 'db.idx.vector.queryrelationships', 'dbms.procedures',
+  'algo.pagerank', 'algo.bfs', 'algo.sppaths', 'algo.sspaths', 'algo.wcc', 'algo.betweenness', 'algo.labelpropagation',
+]);
+
+/**
+ * Parse the raw line-based plan returned by GRAPH.EXPLAIN or GRAPH.PROFILE into a tree
+ * Each line has the form `<indent><Operation>[ | <argument>]*`; profiled plans end each
+ * line with a `Records produced: N, Execution time: T ms` segment
+ *
+ * @param lines The raw plan lines, root operation first
+ * @returns The root operation of the plan, or null if the plan is empty
+ */
+export function parseExecutionPlan(lines: unknown): PlanOperation | null {
+  if (!Array.isArray(lines)) {
+    return null;
+  }
+
+  let root: PlanOperation | null = null;
+  // Stack of [depth, operation] for the current path from the root
+  const stack: Array<{ depth: number; node: PlanOperation }> = [];
+
+  for (const rawLine of lines) {
+    const line = String(rawLine);
+    if (!line.trim()) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const depth = Math.floor(indent / INDENT_WIDTH);
+    const [operation, ...args] = line.trim().split(' | ').map(part => part.trim());
+    const node: PlanOperation = { operation, arguments: args, children: [] };
+
+    const stats = args.length > 0 ? PROFILE_STATS_PATTERN.exec(args[args.length - 1]) : null;
+    if (stats) {
+      node.arguments = args.slice(0, -1);
+      node.recordsProduced = parseInt(stats[1], 10);
+      node.executionTimeMs = parseFloat(stats[2]);
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+
+    if (stack.length === 0) {
+      if (root) {
+        // Malformed plan with multiple roots - attach to the first root to avoid losing data
+        root.children.push(node);
+      } else {
+        root = node;
+      }
+    } else {
+      stack[stack.length - 1].node.children.push(node);
+    }
+
+    stack.push({ depth, node });
+  }
+
+  return root;
+}
+
+/**
+ * Walk a plan tree depth-first, visiting every operation
+ */
+export function walkPlan(plan: PlanOperation | null, visit: (operation: PlanOperation) => void): void {
+  if (!plan) {
+    return;
+  }
+  visit(plan);
+  for (const child of plan.children) {
+    walkPlan(child, visit);
+  }
+}
+
+/**
+ * Flatten a profiled plan into a list of per-operator statistics, in plan order
+ */
+export function flattenProfile(plan: PlanOperation | null): OperatorProfile[] {
+  const operators: OperatorProfile[] = [];
+
+  const visit = (op: PlanOperation, depth: number): void => {
+    operators.push({
+      operation: op.operation,
+      arguments: op.arguments,
+      depth,
+      recordsProduced: op.recordsProduced ?? 0,
+      executionTimeMs: op.executionTimeMs ?? 0,
+    });
+    for (const child of op.children) {
+      visit(child, depth + 1);
+    }
+  };
+
+  if (plan) {
+    visit(plan, 0);
+  }
+  return operators;
+}
+
+/**
+ * Whether a ProcedureCall operation calls a procedure known to be read-only; its arguments name the procedure
+ */
+function callsReadOnlyProcedure(op: PlanOperation): boolean {
+  return op.arguments.some(arg => READ_ONLY_PROCEDURES.has(arg.replace(/\(.*$/, '').trim().toLowerCase()));
+}
+
+/**
+ * Check whether a plan may write to the graph. Only operations and procedures known to be read-only count as
+ * reads, so an unknown operation, an unknown procedure, or an empty or unparseable plan is treated as a write
+ */
+export function isWritePlan(plan: PlanOperation | null): boolean {
+  if (!plan) {
+    return true;
+  }
+  let writes = false;
+  walkPlan(plan, (op) => {
+    const readOnly = op.operation === 'ProcedureCall' ? callsReadOnlyProcedure(op) : READ_ONLY_OPERATIONS.has(op.operation);
+    if (!readOnly) {
+      writes = true;
+    }
+  });
+  return writes;
+}
+
+/**
+ * Detect operations that commonly make queries slow: full node scans, label scans
+ * that could use an index, and cartesian products between disconnected patterns
+ *
+ * @param plan The root of the plan tree
+ * @returns A list of warnings, empty if nothing suspicious was found
+ */
+export function findPlanWarnings(plan: PlanOperation | null): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+
+  walkPlan(plan, (op) => {
+    switch (op.operation) {
+      case 'All Node Scan':
+        warnings.push({
+          type: 'ALL_NODES_SCAN',
+          operation: op.operation,
+          arguments: op.arguments,
+          message: 'Scans every node in the graph. Add a label to the pattern and filter on an indexed property.',
+        });
+        break;
+      case 'Node By Label Scan':
+        warnings.push({
+          type: 'LABEL_SCAN',
+          operation: op.operation,
+          arguments: op.arguments,
+          message: 'Scans every node with this label. Filter on an indexed property (or create an index) to use an index scan instead.',
+        });
+        break;
+      case 'Cartesian Product':
+        warnings.push({
+          type: 'CARTESIAN_PRODUCT',
+          operation: op.operation,
+          arguments: op.arguments,
+          message: 'Combines every row of disconnected patterns. Connect the patterns with a relationship or split the query.',
+        });
+        break;
+    }
+  });
+
+  return warnings;
+}
@@ -0,0 +1,76 @@
+import { classifyFalkorDBError } from './falkordb-errors';
+import { AppError, CommonErrors } from '../errors/AppError';
+
+describe('FalkorDB Error Classification Utility', () => {
+  it('should classify syntax errors with line, column and offset', () => {
+    // Arrange
+    const error = new Error("errMsg: Invalid input 'R': expected ')' line: 1, column: 10, offset: 9 errCtx: MATCH (n RETURN n errCtxOffset: 9");
+
+    // Act
+    const appError = classifyFalkorDBError(error);
+
+    // Assert
+    expect(appError.name).toBe(CommonErrors.QUERY_SYNTAX_ERROR);
+    expect(appError.details).toEqual({ line: 1, column: 10, offset: 9 });
+    expect(appError.hint).toContain('line 1, column 10');
+  });
+
+  it('should classify syntax errors reported with an offset only', () => {
+    const appError = classifyFalkorDBError(new Error("Syntax error at offset 7 near 'RETURN'"));
+
+    expect(appError.name).toBe(CommonErrors.QUERY_SYNTAX_ERROR);
+    expect(appError.details).toEqual({ offset: 7 });
+    expect(appError.hint).toContain('offset 7');
+  });
+
+  it('should classify unknown functions', () => {
+    const appError = classifyFalkorDBError(new Error("Unknown function 'toUpperCase'"));
+
+    expect(appError.name).toBe(CommonErrors.UNKNOWN_FUNCTION);
+    expect(appError.details).toEqual({ function: 'toUpperCase' });
+    expect(appError.hint).toContain('toUpperCase');
+  });
+
+  it('should classify type mismatches', () => {
+    const appError = classifyFalkorDBError(new Error('Type mismatch: expected Integer or Null but was String'));
+
+    expect(appError.name).toBe(CommonErrors.TYPE_MISMATCH);
+    expect(appError.details).toEqual({ expected: 'Integer or Null', actual: 'String' });
+  });
+
+  it('should classify query timeouts', () => {
+    expect(classifyFalkorDBError(new Error('Query timed out')).name).toBe(CommonErrors.QUERY_TIMEOUT);
+  });
+
+  it('should classify read-only violations', () => {
+    expect(classifyFalkorDBError(new Error('graph.RO_QUERY is to be executed only on read-only queries')).name)
+      .toBe(CommonErrors.READ_ONLY_VIOLATION);
+    expect(classifyFalkorDBError(new Error("READONLY You can't write against a read only replica.")).name)
+      .toBe(CommonErrors.READ_ONLY_VIOLATION);
+  });
+
+  it('should classify connection errors before timeouts', () => {
+    expect(classifyFalkorDBError(new Error('connect ETIMEDOUT 10.0.0.1:6379')).name).toBe(CommonErrors.CONNECTION_FAILED);
+    expect(classifyFalkorDBError(new Error('The client is closed')).name).toBe(CommonErrors.CONNECTION_FAILED);
+  });
+
+  it('should fall back to OPERATION_FAILED and prefix the message with the context', () => {
+    // Act
+    const appError = classifyFalkorDBError(new Error('something odd'), "Failed to execute query on graph 'g'");
+
+    // Assert
+    expect(appError.name).toBe(CommonErrors.OPERATION_FAILED);
+    expect(appError.message).toBe("Failed to execute query on graph 'g': something odd");
+    expect(appError.hint).toBeUndefined();
+  });
+
+  it('should return AppErrors unchanged', () => {
+    const original = new AppError(CommonErrors.OPERATION_CANCELLED, 'Query cancelled', true);
+
+    expect(classifyFalkorDBError(original)).toBe(original);
+  });
+
+  it('should handle non-Error values', () => {
+    expect(classifyFalkorDBError('Query timed out').name).toBe(CommonErrors.QUERY_TIMEOUT);
+  });
+});
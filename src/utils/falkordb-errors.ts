@@ -0,0 +1,80 @@
+/**
+ * Utilities for classifying errors reported by FalkorDB into CommonErrors codes
+ */
+
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// Syntax errors carry the position as "line: 1, column: 10, offset: 9"; older versions report "at offset 9"
+const SYNTAX_ERROR_PATTERN = /errMsg:|Invalid input|Syntax error|Unexpected token/i;
+const SYNTAX_POSITION_PATTERN = /line:\s*(\d+),\s*column:\s*(\d+),\s*offset:\s*(\d+)/i;
+const SYNTAX_OFFSET_PATTERN = /\boffset:?\s*(\d+)/i;
+const UNKNOWN_FUNCTION_PATTERN = /Unknown function '([^']+)'/i;
+const TYPE_MISMATCH_PATTERN = /Type mismatch: expected (.+?) but was ([^\s,.]+(?: or [^\s,.]+)*)/i;
+const TIMEOUT_PATTERN = /timed out/i;
+// GRAPH.RO_QUERY with a write clause, or a write sent to a read-only replica
+const READ_ONLY_PATTERN = /is to be executed only on read-only queries|^READONLY\b/;
+const CONNECTION_PATTERN = /ECONNREFUSED|ECONNRESET|EPIPE|ENOTFOUND|ETIMEDOUT|Socket closed|client is closed|Connection is closed|connection lost/i;
+
+/**
+ * Convert an error raised while talking to FalkorDB into a categorized AppError
+ * AppErrors are returned unchanged; anything unrecognized becomes OPERATION_FAILED
+ *
+ * @param error The error thrown by the FalkorDB driver
+ * @param context Optional prefix for the message, e.g. "Failed to execute query on graph 'g'"
+ * @returns An AppError whose name is the most specific matching CommonErrors code
+ */
+export function classifyFalkorDBError(error: unknown, context?: string): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const raw = error instanceof Error ? error.message : String(error);
+  const message = context ? `${context}: ${raw}` : raw;
+
+  // Connection errors first: socket timeouts must not be mistaken for query timeouts
+  if (CONNECTION_PATTERN.test(raw)) {
+    return new AppError(CommonErrors.CONNECTION_FAILED, message, true);
+  }
+
+  if (READ_ONLY_PATTERN.test(raw)) {
+    return new AppError(CommonErrors.READ_ONLY_VIOLATION, message, true);
+  }
+
+  if (TIMEOUT_PATTERN.test(raw)) {
+    return new AppError(CommonErrors.QUERY_TIMEOUT, message, true);
+  }
+
+  const unknownFunction = UNKNOWN_FUNCTION_PATTERN.exec(raw);
+  if (unknownFunction) {
+    return new AppError(CommonErrors.UNKNOWN_FUNCTION, message, true, {
+      hint: `'${unknownFunction[1]}' is not a function FalkorDB knows. Check the name for typos; see the FalkorDB documentation for the supported functions.`,
+      details: { function: unknownFunction[1] },
+    });
+  }
+
+  const typeMismatch = TYPE_MISMATCH_PATTERN.exec(raw);
+  if (typeMismatch) {
+    return new AppError(CommonErrors.TYPE_MISMATCH, message, true, {
+      details: { expected: typeMismatch[1], actual: typeMismatch[2] },
+    });
+  }
+
+  if (SYNTAX_ERROR_PATTERN.test(raw)) {
+    const position = SYNTAX_POSITION_PATTERN.exec(raw);
+    const offset = position ? null : SYNTAX_OFFSET_PATTERN.exec(raw);
+    const details = position
+      ? { line: parseInt(position[1], 10), column: parseInt(position[2], 10), offset: parseInt(position[3], 10) }
+      : offset ? { offset: parseInt(offset[1], 10) } : undefined;
+
+    return new AppError(CommonErrors.QUERY_SYNTAX_ERROR, message, true, {
+      ...(details && {
+        hint: 'line' in details
+          ? `Fix the OpenCypher syntax at line ${details.line}, column ${details.column} and run the query again.`
+          : `Fix the OpenCypher syntax at offset ${details.offset} and run the query again.`,
+      }),
+      details,
+    });
+  }
+
+  return new AppError(CommonErrors.OPERATION_FAILED, message, true);
+}
@@ -0,0 +1,64 @@
+import { matchesGraphPattern, isGraphAllowed, toGraphKey, filterVisibleGraphs, GraphAccessRules } from './graph-access';
+
+describe('Graph Access Utility', () => {
+  const openRules: GraphAccessRules = { denylist: [], prefix: '' };
+
+  describe('matchesGraphPattern', () => {
+    it('should match exact names literally', () => {
+      expect(matchesGraphPattern('movies', 'movies')).toBe(true);
+      expect(matchesGraphPattern('movies2', 'movies')).toBe(false);
+      expect(matchesGraphPattern('a.b', 'a.b')).toBe(true);
+      expect(matchesGraphPattern('axb', 'a.b')).toBe(false);
+    });
+
+    it('should support * and ? wildcards', () => {
+      expect(matchesGraphPattern('team_a_movies', 'team_a_*')).toBe(true);
+      expect(matchesGraphPattern('team_b_movies', 'team_a_*')).toBe(false);
+      expect(matchesGraphPattern('graph1', 'graph?')).toBe(true);
+      expect(matchesGraphPattern('graph10', 'graph?')).toBe(false);
+    });
+
+    it('should treat regex characters in globs literally', () => {
+      expect(matchesGraphPattern('a+b.c', 'a+b.*')).toBe(true);
+      expect(matchesGraphPattern('aab_c', 'a+b.*')).toBe(false);
+    });
+  });
+
+  describe('isGraphAllowed', () => {
+    it('should allow every graph without rules', () => {
+      expect(isGraphAllowed('anything', openRules)).toBe(true);
+    });
+
+    it('should allow only allowlisted graphs when an allowlist is set', () => {
+      const rules = { ...openRules, allowlist: ['movies', 'team_a_*'] };
+
+      expect(isGraphAllowed('movies', rules)).toBe(true);
+      expect(isGraphAllowed('team_a_social', rules)).toBe(true);
+      expect(isGraphAllowed('social', rules)).toBe(false);
+    });
+
+    it('should let the denylist win over the allowlist', () => {
+      const rules = { ...openRules, allowlist: ['team_a_*'], denylist: ['team_a_private'] };
+
+      expect(isGraphAllowed('team_a_public', rules)).toBe(true);
+      expect(isGraphAllowed('team_a_private', rules)).toBe(false);
+    });
+  });
+
+  describe('prefix handling', () => {
+    const rules = { ...openRules, prefix: 'team_a:' };
+
+    it('should prepend the prefix to graph keys', () => {
+      expect(toGraphKey('movies', rules)).toBe('team_a:movies');
+      expect(toGraphKey('movies', openRules)).toBe('movies');
+    });
+
+    it('should list only prefixed graphs, with the prefix stripped', () => {
+      expect(filterVisibleGraphs(['team_a:movies', 'team_b:movies', 'team_a:', 'movies'], rules)).toEqual(['movies']);
+    });
+
+    it('should apply the access rules to the stripped names', () => {
+      expect(filterVisibleGraphs(['team_a:movies', 'team_a:secret'], { ...rules, denylist: ['secret'] })).toEqual(['movies']);
+    });
+  });
+});
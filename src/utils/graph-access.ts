@@ -0,0 +1,61 @@
+/**
+ * Utilities for restricting which graphs callers may see and use
+ */
+
+export interface GraphAccessRules {
+  // Graph names or glob patterns callers may use; undefined allows every graph
+  allowlist?: string[];
+  // Graph names or glob patterns callers may never use, even if allowlisted
+  denylist: string[];
+  // Prepended to every graph name sent to FalkorDB and stripped from listed names; '' disables namespacing
+  prefix: string;
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ * `*` matches any run of characters and `?` a single character; everything else is literal
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a graph name matches an exact name or glob pattern
+ */
+export function matchesGraphPattern(graphName: string, pattern: string): boolean {
+  return /[*?]/.test(pattern) ? globToRegExp(pattern).test(graphName) : graphName === pattern;
+}
+
+/**
+ * Check whether callers may use a graph, by the name they see (without the prefix)
+ */
+export function isGraphAllowed(graphName: string, rules: GraphAccessRules): boolean {
+  const allowed = rules.allowlist === undefined || rules.allowlist.some(pattern => matchesGraphPattern(graphName, pattern));
+  return allowed && !rules.denylist.some(pattern => matchesGraphPattern(graphName, pattern));
+}
+
+/**
+ * Map a caller-visible graph name to the key stored in FalkorDB
+ */
+export function toGraphKey(graphName: string, rules: GraphAccessRules): string {
+  return rules.prefix + graphName;
+}
+
+/**
+ * Filter the graph keys stored in FalkorDB down to the graphs callers may see,
+ * returning them under their caller-visible names
+ */
+export function filterVisibleGraphs(graphKeys: string[], rules: GraphAccessRules): string[] {
+  return graphKeys
+    .filter(key => key.startsWith(rules.prefix))
+    .map(key => key.slice(rules.prefix.length))
+    .filter(name => name.length > 0 && isGraphAllowed(name, rules));
+}
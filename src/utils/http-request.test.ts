@@ -0,0 +1,82 @@
+import { Readable } from 'stream';
+import { IncomingMessage } from 'http';
+import { CommonErrors } from '../errors/AppError';
+import { isOriginAllowed, jsonRpcError, JSON_RPC_PARSE_ERROR, readRequestBody } from './http-request';
+
+// A request stream delivering the given chunks
+function createRequest(chunks: string[], headers: Record<string, string> = {}): IncomingMessage {
+  const req = Readable.from(chunks.map(chunk => Buffer.from(chunk))) as unknown as IncomingMessage;
+  req.headers = headers;
+  return req;
+}
+
+describe('HTTP request utilities', () => {
+  describe('readRequestBody', () => {
+    it('should read the whole body', async () => {
+      const body = await readRequestBody(createRequest(['{"jsonrpc":', '"2.0"}']), 1024);
+
+      expect(body).toBe('{"jsonrpc":"2.0"}');
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      // Arrange
+      const encoded = Buffer.from('{"name":"Zoë"}');
+      const req = Readable.from([encoded.subarray(0, 11), encoded.subarray(11)]) as unknown as IncomingMessage;
+      req.headers = {};
+
+      // Act & Assert
+      await expect(readRequestBody(req, 0)).resolves.toBe('{"name":"Zoë"}');
+    });
+
+    it('should reject bodies larger than the limit', async () => {
+      await expect(readRequestBody(createRequest(['a'.repeat(600), 'b'.repeat(600)]), 1000))
+        .rejects.toMatchObject({ name: CommonErrors.PAYLOAD_TOO_LARGE, details: { maxBytes: 1000 } });
+    });
+
+    it('should reject a declared Content-Length over the limit before reading', async () => {
+      await expect(readRequestBody(createRequest(['{}'], { 'content-length': '5000' }), 1000))
+        .rejects.toThrow('Request body exceeds the maximum size of 1000 bytes');
+    });
+
+    it('should not limit the body when the limit is 0', async () => {
+      await expect(readRequestBody(createRequest(['x'.repeat(5000)]), 0)).resolves.toHaveLength(5000);
+    });
+  });
+
+  describe('isOriginAllowed', () => {
+    it('should allow requests without an Origin header', () => {
+      expect(isOriginAllowed(undefined, [])).toBe(true);
+    });
+
+    it('should only allow loopback origins by default', () => {
+      expect(isOriginAllowed('http://localhost:3000', [])).toBe(true);
+      expect(isOriginAllowed('http://127.0.0.1:8080', [])).toBe(true);
+      expect(isOriginAllowed('https://[::1]', [])).toBe(true);
+      expect(isOriginAllowed('http://evil.example.com', [])).toBe(false);
+      expect(isOriginAllowed('http://localhost.evil.example.com', [])).toBe(false);
+      expect(isOriginAllowed('null', [])).toBe(false);
+    });
+
+    it('should only allow the configured origins when set', () => {
+      const allowed = ['https://app.example.com', 'https://admin.example.com/'];
+
+      expect(isOriginAllowed('https://app.example.com', allowed)).toBe(true);
+      expect(isOriginAllowed('https://ADMIN.example.com', allowed)).toBe(true);
+      expect(isOriginAllowed('http://localhost:3000', allowed)).toBe(false);
+    });
+
+    it('should allow every origin with *', () => {
+      expect(isOriginAllowed('http://evil.example.com', ['*'])).toBe(true);
+    });
+  });
+
+  describe('jsonRpcError', () => {
+    it('should build an error response without an id', () => {
+      expect(jsonRpcError(JSON_RPC_PARSE_ERROR, 'Parse error')).toEqual({
+        jsonrpc: '2.0',
+        error: { code: -32700, message: 'Parse error' },
+        id: null,
+      });
+    });
+  });
+});
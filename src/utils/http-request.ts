@@ -0,0 +1,91 @@
+/**
+ * Helpers for the Streamable HTTP transport's request handling
+ */
+
+import { IncomingMessage } from 'http';
+import { AppError, CommonErrors } from '../errors/AppError.js';
+
+// JSON-RPC 2.0 error codes used for requests that never reach the MCP transport
+export const JSON_RPC_PARSE_ERROR = -32700;
+export const JSON_RPC_INVALID_REQUEST = -32600;
+export const JSON_RPC_INTERNAL_ERROR = -32603;
+
+/**
+ * A JSON-RPC error response without a request id (the request could not be read)
+ */
+export function jsonRpcError(code: number, message: string): { jsonrpc: '2.0'; error: { code: number; message: string }; id: null } {
+  return { jsonrpc: '2.0', error: { code, message }, id: null };
+}
+
+/**
+ * Read a request body as UTF-8, up to maxBytes (0 = unlimited)
+ * Once the limit is exceeded the rest of the body is drained and discarded
+ * @throws AppError (PAYLOAD_TOO_LARGE) if the body, or its declared Content-Length, exceeds maxBytes
+ */
+export function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new AppError(
+      CommonErrors.PAYLOAD_TOO_LARGE,
+      `Request body exceeds the maximum size of ${maxBytes} bytes`,
+      true,
+      { details: { maxBytes } }
+    );
+
+    const declaredLength = Number(req.headers['content-length']);
+    if (maxBytes > 0 && declaredLength > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let rejected = false;
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) {
+        return;
+      }
+      received += chunk.length;
+      if (maxBytes > 0 && received > maxBytes) {
+        rejected = true;
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (!rejected) {
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Hosts a browser page may be served from and still be allowed by default
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Check a browser Origin header against the allowed origins, to guard against DNS rebinding
+ * Requests without an Origin (non-browser clients) are allowed. When no origins are configured,
+ * only loopback origins (http(s)://localhost, 127.0.0.1 and [::1] on any port) are allowed; '*' allows every origin
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+  if (allowedOrigins.includes('*')) {
+    return true;
+  }
+  if (allowedOrigins.length > 0) {
+    return allowedOrigins.some(allowed => allowed.replace(/\/$/, '').toLowerCase() === origin.toLowerCase());
+  }
+
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && LOOPBACK_HOSTS.has(url.hostname);
+  } catch {
+    return false;
+  }
+}
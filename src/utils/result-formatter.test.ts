@@ -0,0 +1,148 @@
+import { compactValue, parseQueryStatistics, formatQueryResult, toStructuredQueryResult } from './result-formatter';
+
+describe('Result Formatter Utility', () => {
+  const alice = { id: 1, labels: ['Person'], properties: { name: 'Alice', age: 30 } };
+  const bob = { id: 2, labels: ['Person'], properties: { name: 'Bob' } };
+  const knows = { id: 10, relationshipType: 'KNOWS', sourceId: 1, destinationId: 2, properties: { since: 2020 } };
+
+  describe('compactValue', () => {
+    it('should compact nodes', () => {
+      expect(compactValue(alice)).toEqual({ id: 1, labels: ['Person'], props: { name: 'Alice', age: 30 } });
+    });
+
+    it('should compact edges', () => {
+      expect(compactValue(knows)).toEqual({ id: 10, type: 'KNOWS', src: 1, dst: 2, props: { since: 2020 } });
+    });
+
+    it('should compact paths', () => {
+      expect(compactValue({ nodes: [alice, bob], edges: [knows] })).toEqual({
+        nodes: [
+          { id: 1, labels: ['Person'], props: { name: 'Alice', age: 30 } },
+          { id: 2, labels: ['Person'], props: { name: 'Bob' } },
+        ],
+        edges: [{ id: 10, type: 'KNOWS', src: 1, dst: 2, props: { since: 2020 } }],
+      });
+    });
+
+    it('should compact nested graph values inside lists and maps', () => {
+      expect(compactValue({ friends: [bob], count: 1 })).toEqual({
+        friends: [{ id: 2, labels: ['Person'], props: { name: 'Bob' } }],
+        count: 1,
+      });
+    });
+
+    it('should leave scalars untouched', () => {
+      expect(compactValue('Alice')).toBe('Alice');
+      expect(compactValue(42)).toBe(42);
+      expect(compactValue(null)).toBeNull();
+    });
+  });
+
+  describe('parseQueryStatistics', () => {
+    it('should parse metadata lines into camelCase numeric statistics', () => {
+      // Act
+      const statistics = parseQueryStatistics([
+        'Nodes created: 2',
+        'Properties set: 4',
+        'Relationships created: 1',
+        'Cached execution: 0',
+        'Query internal execution time: 0.512 milliseconds',
+      ]);
+
+      // Assert
+      expect(statistics).toEqual({
+        nodesCreated: 2,
+        propertiesSet: 4,
+        relationshipsCreated: 1,
+        cachedExecution: 0,
+        executionTimeMs: 0.512,
+      });
+    });
+
+    it('should return an empty object for missing metadata', () => {
+      expect(parseQueryStatistics(undefined)).toEqual({});
+    });
+  });
+
+  describe('toStructuredQueryResult', () => {
+    it('should keep rows and sections and add parsed statistics', () => {
+      // Act
+      const structured = toStructuredQueryResult({
+        metadata: ['Nodes created: 1'],
+        data: [{ x: 1 }],
+        pagination: { hasMore: false },
+      });
+
+      // Assert
+      expect(structured).toEqual({
+        metadata: ['Nodes created: 1'],
+        data: [{ x: 1 }],
+        pagination: { hasMore: false },
+        statistics: { nodesCreated: 1 },
+      });
+    });
+
+    it('should default rows and metadata to empty lists', () => {
+      expect(toStructuredQueryResult(undefined)).toEqual({ data: [], metadata: [], statistics: {} });
+    });
+  });
+
+  describe('formatQueryResult', () => {
+    const reply = {
+      metadata: ['Query internal execution time: 0.1 milliseconds'],
+      data: [
+        { p: alice, note: 'a | b' },
+        { p: bob, note: 'say "hi", bye' },
+      ],
+    };
+
+    it('should keep the reply as-is in json format and add statistics', () => {
+      // Act
+      const parsed = JSON.parse(formatQueryResult(reply, 'json'));
+
+      // Assert
+      expect(parsed.data).toEqual(reply.data);
+      expect(parsed.metadata).toEqual(reply.metadata);
+      expect(parsed.statistics).toEqual({ executionTimeMs: 0.1 });
+    });
+
+    it('should render compact columns, rows and extra sections', () => {
+      // Act
+      const parsed = JSON.parse(formatQueryResult({ ...reply, truncation: { truncated: true } }, 'compact'));
+
+      // Assert
+      expect(parsed.columns).toEqual(['p', 'note']);
+      expect(parsed.rows[1]).toEqual([{ id: 2, labels: ['Person'], props: { name: 'Bob' } }, 'say "hi", bye']);
+      expect(parsed.statistics).toEqual({ executionTimeMs: 0.1 });
+      expect(parsed.truncation).toEqual({ truncated: true });
+      expect(parsed.metadata).toBeUndefined();
+    });
+
+    it('should render a markdown table with escaped cells', () => {
+      // Act
+      const text = formatQueryResult(reply, 'markdown');
+      const lines = text.split('\n');
+
+      // Assert
+      expect(lines[0]).toBe('| p | note |');
+      expect(lines[1]).toBe('| --- | --- |');
+      expect(lines[2]).toBe('| {"id":1,"labels":["Person"],"props":{"name":"Alice","age":30}} | a \\| b |');
+      expect(text).toContain('**statistics:** executionTimeMs: 0.1');
+    });
+
+    it('should render csv with quoted cells and metadata comments', () => {
+      // Act
+      const lines = formatQueryResult({ ...reply, pagination: { hasMore: false } }, 'csv').split('\n');
+
+      // Assert
+      expect(lines[0]).toBe('p,note');
+      expect(lines[2]).toBe('"{""id"":2,""labels"":[""Person""],""props"":{""name"":""Bob""}}","say ""hi"", bye"');
+      expect(lines).toContain('# statistics: executionTimeMs: 0.1');
+      expect(lines).toContain('# pagination: hasMore: false');
+    });
+
+    it('should note empty results in markdown', () => {
+      expect(formatQueryResult({ metadata: ['Nodes created: 1'] }, 'markdown')).toContain('_No rows returned._');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Utilities for serializing FalkorDB query results for MCP clients
+ */
+
+export const RESULT_FORMATS = ['json', 'compact', 'markdown', 'csv'] as const;
+
+export type ResultFormat = typeof RESULT_FORMATS[number];
+
+// Keys of a query response that hold the reply itself rather than a metadata section
+const REPLY_KEYS = new Set(['headers', 'data', 'metadata']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNode(value: Record<string, unknown>): boolean {
+  return 'id' in value && Array.isArray(value.labels) && isPlainObject(value.properties);
+}
+
+function isEdge(value: Record<string, unknown>): boolean {
+  return 'id' in value && 'relationshipType' in value && 'sourceId' in value && 'destinationId' in value;
+}
+
+function isPath(value: Record<string, unknown>): boolean {
+  return Object.keys(value).length === 2 && Array.isArray(value.nodes) && Array.isArray(value.edges);
+}
+
+/**
+ * Convert Node, Edge and Path values (at any nesting depth) into a compact, consistent shape:
+ * nodes become {id, labels, props}, edges {id, type, src, dst, props} and paths {nodes, edges}
+ */
+export function compactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(compactValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (isEdge(value)) {
+    return {
+      id: value.id,
+      type: value.relationshipType,
+      src: value.sourceId,
+      dst: value.destinationId,
+      props: compactValue(value.properties ?? {}),
+    };
+  }
+  if (isNode(value)) {
+    return { id: value.id, labels: value.labels, props: compactValue(value.properties) };
+  }
+  if (isPath(value)) {
+    return { nodes: compactValue(value.nodes), edges: compactValue(value.edges) };
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, compactValue(inner)]));
+}
+
+/**
+ * Parse FalkorDB's metadata lines (e.g. "Nodes created: 2", "Query internal execution time: 0.5 milliseconds")
+ * into a statistics object with camelCase keys; execution time is reported as executionTimeMs
+ */
+export function parseQueryStatistics(metadata: unknown): Record<string, number | string> {
+  const statistics: Record<string, number | string> = {};
+  if (!Array.isArray(metadata)) {
+    return statistics;
+  }
+
+  for (const line of metadata) {
+    const text = String(line);
+    const separator = text.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const label = text.slice(0, separator).trim();
+    const rawValue = text.slice(separator + 1).trim();
+
+    if (/execution time/i.test(label)) {
+      statistics.executionTimeMs = parseFloat(rawValue);
+      continue;
+    }
+
+    const key = label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+(.)/g, (_, next: string) => next.toUpperCase())
+      .replace(/[^A-Za-z0-9]/g, '');
+    const numeric = Number(rawValue);
+    statistics[key] = rawValue !== '' && !Number.isNaN(numeric) ? numeric : rawValue;
+  }
+
+  return statistics;
+}
+
+function collectColumns(rows: unknown[]): string[] {
+  const columns: string[] = [];
+  for (const row of rows) {
+    if (isPlainObject(row)) {
+      for (const key of Object.keys(row)) {
+        if (!columns.includes(key)) {
+          columns.push(key);
+        }
+      }
+    }
+  }
+  return columns;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function describeSection(value: unknown): string {
+  if (isPlainObject(value)) {
+    return Object.entries(value).map(([key, inner]) => `${key}: ${cellText(inner)}`).join(', ');
+  }
+  return cellText(value);
+}
+
+/**
+ * Structured form of a query response, independent of the text format
+ */
+export interface StructuredQueryResult {
+  data: unknown[];
+  metadata: string[];
+  statistics: Record<string, number | string>;
+  [section: string]: unknown;
+}
+
+/**
+ * Normalize a query response for an MCP tool's structuredContent: rows and metadata are
+ * always present (empty for write queries without RETURN) and statistics are parsed
+ * Extra sections such as `truncation` or `pagination` are kept as-is
+ */
+export function toStructuredQueryResult(response: unknown): StructuredQueryResult {
+  const reply = isPlainObject(response) ? response : {};
+  return {
+    ...reply,
+    data: Array.isArray(reply.data) ? reply.data : [],
+    metadata: Array.isArray(reply.metadata) ? reply.metadata.map(String) : [],
+    statistics: parseQueryStatistics(reply.metadata),
+  };
+}
+
+/**
+ * Serialize a query response in the requested format
+ * The response is a FalkorDB reply (`data`, `metadata`) optionally extended with sections such as
+ * `truncation` or `pagination`; query statistics are always reported in a separate `statistics` section
+ *
+ * - json: the reply as returned by FalkorDB, pretty-printed
+ * - compact: {columns, rows, statistics, ...} with rows as value arrays and compact nodes/edges/paths
+ * - markdown: a markdown table followed by the metadata sections
+ * - csv: RFC 4180 CSV followed by the metadata sections as `#` comment lines
+ */
+export function formatQueryResult(response: unknown, format: ResultFormat): string {
+  const reply = isPlainObject(response) ? response : {};
+  const rows = Array.isArray(reply.data) ? reply.data : [];
+  const statistics = parseQueryStatistics(reply.metadata);
+  const sections: Array<[string, unknown]> = [
+    ['statistics', statistics],
+    ...Object.entries(reply).filter(([key]) => !REPLY_KEYS.has(key)),
+  ];
+
+  if (format === 'json') {
+    return JSON.stringify({ ...reply, statistics }, null, 2);
+  }
+
+  const columns = collectColumns(rows);
+  const compactRows = rows.map(row => columns.map(column => compactValue(isPlainObject(row) ? row[column] : undefined)));
+
+  switch (format) {
+    case 'compact':
+      return JSON.stringify({ columns, rows: compactRows, ...Object.fromEntries(sections) });
+    case 'markdown': {
+      const lines = columns.length > 0
+        ? [
+          `| ${columns.map(markdownCell).join(' | ')} |`,
+          `| ${columns.map(() => '---').join(' | ')} |`,
+          ...compactRows.map(values => `| ${values.map(markdownCell).join(' | ')} |`),
+        ]
+        : ['_No rows returned._'];
+      return [...lines, '', ...sections.map(([name, value]) => `**${name}:** ${describeSection(value)}`)].join('\n');
+    }
+    case 'csv': {
+      const lines = [
+        columns.map(csvCell).join(','),
+        ...compactRows.map(values => values.map(csvCell).join(',')),
+      ];
+      return [...lines, '', ...sections.map(([name, value]) => `# ${name}: ${describeSection(value)}`)].join('\n');
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { limitQueryResult } from './result-limits';
+
+describe('Result Limits Utility', () => {
+  const rows = [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }];
+  const reply = { headers: ['n'], data: rows, metadata: ['Query internal execution time: 0.1 milliseconds'] };
+
+  describe('limitQueryResult', () => {
+    it('should return the result unchanged when within limits', () => {
+      // Act
+      const { result, truncation } = limitQueryResult(reply, { maxRows: 10, maxBytes: 1024 });
+
+      // Assert
+      expect(result).toBe(reply);
+      expect(truncation).toBeUndefined();
+    });
+
+    it('should cap rows and report the totals', () => {
+      // Act
+      const { result, truncation } = limitQueryResult(reply, { maxRows: 2, maxBytes: 0 });
+
+      // Assert
+      expect(result.data).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(result.metadata).toBe(reply.metadata);
+      expect(truncation).toEqual(expect.objectContaining({
+        truncated: true,
+        reason: 'maxRows',
+        totalRows: 4,
+        returnedRows: 2,
+      }));
+      expect(truncation!.hint).toContain('LIMIT');
+    });
+
+    it('should cap rows by serialized size', () => {
+      // Arrange - each row serializes to 7 bytes: {"n":1}
+      const limits = { maxRows: 0, maxBytes: 15 };
+
+      // Act
+      const { result, truncation } = limitQueryResult(reply, limits);
+
+      // Assert
+      expect(result.data).toHaveLength(2);
+      expect(truncation!.reason).toBe('maxBytes');
+      expect(truncation!.totalRows).toBe(4);
+      expect(truncation!.returnedRows).toBe(2);
+    });
+
+    it('should apply the byte cap after the row cap', () => {
+      // Act
+      const { result, truncation } = limitQueryResult(reply, { maxRows: 3, maxBytes: 7 });
+
+      // Assert
+      expect(result.data).toEqual([{ n: 1 }]);
+      expect(truncation!.reason).toBe('maxBytes');
+    });
+
+    it('should not cap anything when both limits are disabled', () => {
+      // Act
+      const { result, truncation } = limitQueryResult(reply, { maxRows: 0, maxBytes: 0 });
+
+      // Assert
+      expect(result.data).toHaveLength(4);
+      expect(truncation).toBeUndefined();
+    });
+
+    it('should pass through replies without a data array', () => {
+      // Arrange
+      const writeReply = { metadata: ['Nodes created: 1'] };
+
+      // Act
+      const { result, truncation } = limitQueryResult(writeReply, { maxRows: 1, maxBytes: 1 });
+
+      // Assert
+      expect(result).toBe(writeReply);
+      expect(truncation).toBeUndefined();
+    });
+  });
+});
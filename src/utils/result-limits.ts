@@ -0,0 +1,82 @@
+/**
+ * Utilities for capping the size of query results returned to MCP clients
+ */
+
+export interface ResultLimits {
+  // Maximum number of rows to return; 0 disables the row cap
+  maxRows: number;
+  // Maximum serialized size of the returned rows in bytes; 0 disables the byte cap
+  maxBytes: number;
+}
+
+/**
+ * Describes how a result was cut down to fit the configured limits
+ */
+export interface TruncationInfo {
+  truncated: true;
+  reason: 'maxRows' | 'maxBytes';
+  totalRows: number;
+  returnedRows: number;
+  hint: string;
+}
+
+export interface LimitedResult<T> {
+  result: T;
+  truncation?: TruncationInfo;
+}
+
+const TRUNCATION_HINT =
+  'Narrow the query to get a complete result: add a LIMIT clause, filter with WHERE, ' +
+  'or return only the properties you need (e.g. RETURN n.name instead of RETURN n). ' +
+  'The maxResults argument raises the row cap for a single call, within the server byte limit, ' +
+  'and paginate: true returns every row page by page through fetch_next_page.';
+
+/**
+ * Cap the `data` rows of a FalkorDB reply by row count and serialized size
+ * Replies without a `data` array (e.g. write queries without RETURN) are passed through unchanged
+ *
+ * @param result The reply returned by FalkorDBService
+ * @param limits The row and byte caps to apply
+ * @returns The possibly truncated reply, plus truncation details when rows were dropped
+ */
+export function limitQueryResult<T>(result: T, limits: ResultLimits): LimitedResult<T> {
+  const data = (result as { data?: unknown })?.data;
+  if (!Array.isArray(data)) {
+    return { result };
+  }
+
+  const totalRows = data.length;
+  let rows = limits.maxRows > 0 ? data.slice(0, limits.maxRows) : data;
+  let reason: TruncationInfo['reason'] | undefined = rows.length < totalRows ? 'maxRows' : undefined;
+
+  if (limits.maxBytes > 0) {
+    let bytes = 0;
+    let fitting = 0;
+    for (const row of rows) {
+      bytes += Buffer.byteLength(JSON.stringify(row) ?? '', 'utf8');
+      if (bytes > limits.maxBytes) {
+        break;
+      }
+      fitting++;
+    }
+    if (fitting < rows.length) {
+      rows = rows.slice(0, fitting);
+      reason = 'maxBytes';
+    }
+  }
+
+  if (!reason) {
+    return { result };
+  }
+
+  return {
+    result: { ...result, data: rows },
+    truncation: {
+      truncated: true,
+      reason,
+      totalRows,
+      returnedRows: rows.length,
+      hint: TRUNCATION_HINT,
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { AddressInfo, createServer, Server } from 'net';
+import { resolveSentinelMaster } from './sentinel';
+
+/**
+ * A fake sentinel answering each RESP command the client sends with the next canned reply
+ */
+async function fakeSentinel(replies: string[]): Promise<{ server: Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = createServer((socket) => {
+    const queue = [...replies];
+    socket.on('data', (chunk) => {
+      received.push(chunk.toString());
+      // Commands may arrive in one chunk; answer one reply per command in it
+      const commands = chunk.toString().split(/\*\d+\r\n/).filter(Boolean);
+      socket.write(commands.map(() => queue.shift() ?? '-ERR no more replies\r\n').join(''));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, received };
+}
+
+describe('Sentinel Utility', () => {
+  const servers: Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  const start = async (replies: string[]) => {
+    const sentinel = await fakeSentinel(replies);
+    servers.push(sentinel.server);
+    return sentinel;
+  };
+
+  it('should return the master address the sentinel reports', async () => {
+    // Arrange
+    const sentinel = await start(['*2\r\n$8\r\n10.0.0.5\r\n$4\r\n6380\r\n']);
+
+    // Act
+    const master = await resolveSentinelMaster([{ host: '127.0.0.1', port: sentinel.port }], 'mymaster');
+
+    // Assert
+    expect(master).toEqual({ host: '10.0.0.5', port: 6380 });
+    expect(sentinel.received.join('')).toBe('*3\r\n$8\r\nSENTINEL\r\n$23\r\nget-master-addr-by-name\r\n$8\r\nmymaster\r\n');
+  });
+
+  it('should authenticate before asking when a password is given', async () => {
+    // Arrange
+    const sentinel = await start(['+OK\r\n', '*2\r\n$8\r\n10.0.0.5\r\n$4\r\n6379\r\n']);
+
+    // Act
+    await resolveSentinelMaster([{ host: '127.0.0.1', port: sentinel.port }], 'mymaster', { username: 'ops', password: 's3cret' });
+
+    // Assert
+    expect(sentinel.received.join('')).toMatch(/^\*3\r\n\$4\r\nAUTH\r\n\$3\r\nops\r\n\$6\r\ns3cret\r\n\*3\r\n\$8\r\nSENTINEL/);
+  });
+
+  it('should move on to the next sentinel when one does not know the master', async () => {
+    // Arrange
+    const unaware = await start(['*-1\r\n']);
+    const aware = await start(['*2\r\n$8\r\n10.0.0.7\r\n$4\r\n6379\r\n']);
+
+    // Act
+    const master = await resolveSentinelMaster(
+      [{ host: '127.0.0.1', port: unaware.port }, { host: '127.0.0.1', port: aware.port }],
+      'mymaster'
+    );
+
+    // Assert
+    expect(master).toEqual({ host: '10.0.0.7', port: 6379 });
+  });
+
+  it('should report every sentinel that failed', async () => {
+    // Arrange
+    const refusing = await start(['-NOAUTH Authentication required.\r\n']);
+    const unused = await start([]);
+    const closedPort = unused.port;
+    await new Promise(resolve => servers.pop()!.close(resolve));
+
+    // Act & Assert
+    await expect(resolveSentinelMaster(
+      [{ host: '127.0.0.1', port: refusing.port }, { host: '127.0.0.1', port: closedPort }],
+      'mymaster'
+    )).rejects.toThrow(new RegExp(
+      `No sentinel knows the address of master 'mymaster' \\(127\\.0\\.0\\.1:${refusing.port}: NOAUTH Authentication required\\.; 127\\.0\\.0\\.1:${closedPort}: .*ECONNREFUSED`
+    ));
+  });
+
+  it('should give up on a sentinel that does not answer in time', async () => {
+    // Arrange
+    const silent = createServer((socket) => {
+      // Read the command but never answer; reading lets the socket see the client hang up
+      socket.resume();
+    });
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+    servers.push(silent);
+
+    // Act & Assert
+    await expect(resolveSentinelMaster(
+      [{ host: '127.0.0.1', port: (silent.address() as AddressInfo).port }],
+      'mymaster',
+      { timeoutMs: 50 }
+    )).rejects.toThrow('no reply within 50ms');
+  });
+});
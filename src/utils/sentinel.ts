@@ -0,0 +1,161 @@
+/**
+ * Utility to ask Redis Sentinel which server is the current master
+ */
+
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect, ConnectionOptions } from 'tls';
+import { FalkorDBNode } from './connection-parser.js';
+
+export interface SentinelQueryOptions {
+  // Sentinel ACL credentials, when the sentinels require authentication
+  username?: string;
+  password?: string;
+  // Connect over TLS with these options; plain TCP when omitted
+  tls?: ConnectionOptions;
+  // Bound on connecting and on waiting for the reply, in milliseconds
+  timeoutMs?: number;
+}
+
+type Reply = string | number | null | Error | Reply[];
+
+/**
+ * Encode a command in the RESP protocol
+ */
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
+
+/**
+ * Decode one RESP2 reply starting at offset
+ * @returns The reply and the offset after it, or undefined if the buffer doesn't hold all of it yet
+ */
+function decodeReply(buffer: Buffer, offset: number = 0): { reply: Reply; end: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new Error(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { reply: null, end: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { reply: null, end: next };
+      }
+      const items: Reply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = decodeReply(buffer, end);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error(`unexpected reply type '${String.fromCharCode(buffer[offset])}'`);
+  }
+}
+
+/**
+ * Send a command to one sentinel, authenticating first if credentials are given
+ * @returns The command's reply
+ */
+function askSentinel(sentinel: FalkorDBNode, command: string[], options: SentinelQueryOptions): Promise<Reply> {
+  const commands = options.password
+    ? [['AUTH', ...(options.username ? [options.username] : []), options.password], command]
+    : [command];
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  return new Promise((resolve, reject) => {
+    const socket: Socket = options.tls
+      ? tlsConnect({ ...options.tls, host: sentinel.host, port: sentinel.port })
+      : netConnect({ host: sentinel.host, port: sentinel.port });
+    const replies: Reply[] = [];
+    let buffer = Buffer.alloc(0);
+
+    // The first outcome wins; settling a promise again is a no-op
+    const finish = (error: Error | null, reply?: Reply) => {
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(reply ?? null);
+      }
+    };
+
+    socket.setTimeout(timeoutMs, () => finish(new Error(`no reply within ${timeoutMs}ms`)));
+    socket.once('error', finish);
+    socket.once('close', () => finish(new Error('connection closed before the sentinel replied')));
+    socket.once(options.tls ? 'secureConnect' : 'connect', () => {
+      socket.write(commands.map(encodeCommand).join(''));
+    });
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      try {
+        for (let decoded = decodeReply(buffer); decoded; decoded = decodeReply(buffer)) {
+          replies.push(decoded.reply);
+          buffer = buffer.subarray(decoded.end);
+        }
+      } catch (error) {
+        finish(error as Error);
+        return;
+      }
+
+      if (replies.length === commands.length) {
+        const failed = replies.find((reply): reply is Error => reply instanceof Error);
+        finish(failed ?? null, replies[replies.length - 1]);
+      }
+    });
+  });
+}
+
+/**
+ * Ask the sentinels, in order, for the address of a master; the first one that knows it answers
+ * @param sentinels - The sentinels to ask
+ * @param masterName - Name of the master the sentinels monitor
+ * @param options - Credentials, TLS and timeout for the sentinel connections
+ * @returns The master's current address
+ * @throws Error if no sentinel could be reached or none knows the master
+ */
+export async function resolveSentinelMaster(
+  sentinels: FalkorDBNode[],
+  masterName: string,
+  options: SentinelQueryOptions = {}
+): Promise<FalkorDBNode> {
+  const failures: string[] = [];
+
+  for (const sentinel of sentinels) {
+    const address = sentinel.host.includes(':') ? `[${sentinel.host}]:${sentinel.port}` : `${sentinel.host}:${sentinel.port}`;
+    try {
+      const reply = await askSentinel(sentinel, ['SENTINEL', 'get-master-addr-by-name', masterName], options);
+      if (Array.isArray(reply) && reply.length === 2) {
+        return { host: String(reply[0]), port: Number(reply[1]) };
+      }
+      failures.push(`${address}: unknown master`);
+    } catch (error) {
+      failures.push(`${address}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error(`No sentinel knows the address of master '${masterName}' (${failures.join('; ')})`);
+}
@@ -0,0 +1,35 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to its capacity', () => {
+    // Arrange
+    const bucket = new TokenBucket(3, 60, 0);
+
+    // Act
+    const taken = [bucket.take(0), bucket.take(0), bucket.take(0), bucket.take(0)];
+
+    // Assert
+    expect(taken).toEqual([true, true, true, false]);
+    expect(bucket.remaining(0)).toBe(0);
+  });
+
+  it('should refill at the configured rate', () => {
+    const bucket = new TokenBucket(2, 60, 0);
+    bucket.take(0);
+    bucket.take(0);
+
+    expect(bucket.retryAfterMs(0)).toBe(1000);
+    expect(bucket.retryAfterMs(400)).toBe(600);
+    expect(bucket.take(1000)).toBe(true);
+    expect(bucket.take(1000)).toBe(false);
+  });
+
+  it('should not refill beyond its capacity', () => {
+    const bucket = new TokenBucket(2, 60, 0);
+    bucket.take(0);
+
+    expect(bucket.isFull(0)).toBe(false);
+    expect(bucket.remaining(60000)).toBe(2);
+    expect(bucket.isFull(60000)).toBe(true);
+  });
+});
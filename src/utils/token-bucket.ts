@@ -0,0 +1,56 @@
+/**
+ * Token bucket for rate limiting: holds up to `capacity` tokens, refilled continuously
+ * at `ratePerMinute`; each request takes one token
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(readonly capacity: number, readonly ratePerMinute: number, now: number = Date.now()) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerMinute / 60000);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until a token is available; 0 if one is available now
+   */
+  retryAfterMs(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 60000 / this.ratePerMinute);
+  }
+
+  /**
+   * Take a token if one is available
+   * @returns Whether a token was taken
+   */
+  take(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Whole tokens currently available
+   */
+  remaining(now: number = Date.now()): number {
+    this.refill(now);
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Whether the bucket is full, i.e. indistinguishable from a new one
+   */
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+}